@@ -1,13 +1,40 @@
 
 import React, { useState, useEffect } from 'react';
 import TranscriberUI from './components/TranscriberUI';
+import HistoryUI from './components/HistoryUI';
+import QueuePanel from './components/QueuePanel';
+import BatchDashboard from './components/BatchDashboard';
 import AuthUI from './components/AuthUI';
+import GlossaryManager from './components/GlossaryManager';
+import WorkspacePanel from './components/WorkspacePanel';
+import UsageDashboard from './components/UsageDashboard';
 import { supabase, signOut } from './services/supabaseService';
 import { Session } from '@supabase/supabase-js';
+import { TranscriptionRecord, Workspace } from './types';
+import { QueuedJob, jobQueue } from './services/jobQueue';
+import { refreshGlossary } from './services/glossaryService';
+import { refreshProjects } from './services/projectService';
+import { refreshWorkspaces, subscribeWorkspaces } from './services/workspaceService';
+import { getConfig } from './config';
+
+type View = 'transcribe' | 'glossary' | 'team' | 'usage';
+
+const VIEWS: View[] = getConfig().features.usageDashboard
+  ? ['transcribe', 'glossary', 'team', 'usage']
+  : ['transcribe', 'glossary', 'team'];
 
 const App: React.FC = () => {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [openedRecord, setOpenedRecord] = useState<TranscriptionRecord | null>(null);
+  const [activeId, setActiveId] = useState<string | undefined>(undefined);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [openedJob, setOpenedJob] = useState<{ id: string } | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [view, setView] = useState<View>('transcribe');
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  // Workspace whose transcripts History shows; null for the user's private ones
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
 
   useEffect(() => {
     // Get initial session
@@ -24,10 +51,41 @@ const App: React.FC = () => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // The job queue and the glossary, project and workspace caches belong to whoever is signed in
+  const userId = session?.user.id;
+  useEffect(() => {
+    setWorkspaceId(null);
+    setOpenedJob(null);
+    setActiveJobId(null);
+    jobQueue.setUser(userId ?? null);
+    if (!userId) return;
+    refreshGlossary();
+    refreshProjects();
+    refreshWorkspaces();
+  }, [userId]);
+
+  useEffect(() => subscribeWorkspaces(setWorkspaces), []);
+
   const handleLogout = async () => {
     await signOut();
   };
 
+  const handleOpenRecord = (record: TranscriptionRecord) => {
+    // Fresh object so reopening the same row discards unsaved edits
+    setOpenedRecord({ ...record });
+    setActiveId(record.id);
+  };
+
+  const handleOpenJob = (job: QueuedJob) => {
+    setOpenedJob({ id: job.id });
+    setActiveId(job.result?.id);
+  };
+
+  const handleSaved = (id: string) => {
+    setActiveId(id);
+    setHistoryVersion(v => v + 1);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-slate-50 flex items-center justify-center">
@@ -55,6 +113,28 @@ const App: React.FC = () => {
           <nav className="flex items-center gap-6">
             {session && (
               <div className="flex items-center gap-4">
+                <div className="flex bg-slate-100 rounded-lg p-1">
+                  {VIEWS.map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setView(option)}
+                      className={`px-3 py-1 rounded-md text-sm font-bold capitalize transition-all ${view === option ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-800'}`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+                <select
+                  value={workspaceId ?? ''}
+                  onChange={(e) => setWorkspaceId(e.target.value || null)}
+                  className="px-2 py-1.5 bg-slate-100 rounded-lg text-sm font-bold text-slate-600 outline-none"
+                  title="Workspace"
+                >
+                  <option value="">Personal</option>
+                  {workspaces.map(workspace => (
+                    <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+                  ))}
+                </select>
                 <span className="hidden md:inline text-xs font-semibold text-slate-400">{session.user.email}</span>
                 <button 
                   onClick={handleLogout}
@@ -73,15 +153,45 @@ const App: React.FC = () => {
       <main className="flex-1 container mx-auto px-4 py-12">
         {session ? (
           <>
-            <div className="text-center mb-12 animate-in fade-in slide-in-from-top-4 duration-700">
-              <h2 className="text-4xl md:text-5xl font-extrabold text-slate-900 mb-4 tracking-tight">
-                Record, Transcribe, <span className="text-blue-600">Empower.</span>
-              </h2>
-              <p className="text-lg text-slate-600 max-w-2xl mx-auto">
-                Welcome back! Use the professional tools below to transcribe your Amharic audio.
-              </p>
+            {view === 'glossary' && <GlossaryManager />}
+            {view === 'usage' && <UsageDashboard />}
+            {view === 'team' && (
+              <WorkspacePanel workspaceId={workspaceId} userId={session.user.id} onWorkspaceChange={setWorkspaceId} />
+            )}
+            {/* Kept mounted while another view is open so recordings and edits in progress survive */}
+            <div className={view !== 'transcribe' ? 'hidden' : ''}>
+              <div className="text-center mb-12 animate-in fade-in slide-in-from-top-4 duration-700">
+                <h2 className="text-4xl md:text-5xl font-extrabold text-slate-900 mb-4 tracking-tight">
+                  Record, Transcribe, <span className="text-blue-600">Empower.</span>
+                </h2>
+                <p className="text-lg text-slate-600 max-w-2xl mx-auto">
+                  Welcome back! Use the professional tools below to transcribe your Amharic audio.
+                </p>
+              </div>
+              <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,1fr)_380px] gap-8 max-w-7xl mx-auto items-start">
+                <div className="space-y-8">
+                  <TranscriberUI
+                    openedRecord={openedRecord}
+                    openedJob={openedJob}
+                    onSaved={handleSaved}
+                    onActiveJobChange={setActiveJobId}
+                    workspaceId={workspaceId}
+                    userId={session.user.id}
+                  />
+                  <BatchDashboard onOpen={handleOpenJob} activeId={activeJobId || undefined} workspaceId={workspaceId} />
+                </div>
+                <div className="space-y-8">
+                  <QueuePanel onOpen={handleOpenJob} activeId={activeJobId || undefined} />
+                  <HistoryUI
+                    onOpen={handleOpenRecord}
+                    activeId={activeId}
+                    refreshKey={historyVersion}
+                    workspaceId={workspaceId}
+                    userId={session.user.id}
+                  />
+                </div>
+              </div>
             </div>
-            <TranscriberUI />
           </>
         ) : (
           <div className="animate-in zoom-in-95 duration-500">
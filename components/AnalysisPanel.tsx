@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { AnalysisLanguage, EntityType, TranscriptAnalysis } from '../types';
+import { ANALYSIS_LANGUAGES, ENTITY_TYPE_LABELS, isEmptyAnalysis } from '../utils/analysis';
+
+interface AnalysisPanelProps {
+  analysis?: TranscriptAnalysis;
+  analyzing: boolean;
+  // False when the provider cannot analyze; `unavailableReason` says why
+  available: boolean;
+  unavailableReason?: string;
+  onAnalyze: () => void;
+}
+
+/**
+ * Summary, action items, key topics and named entities of the transcript,
+ * readable in Amharic or English.
+ */
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis, analyzing, available, unavailableReason, onAnalyze }) => {
+  const [language, setLanguage] = useState<AnalysisLanguage>('am');
+  const content = analysis?.[language];
+
+  return (
+    <div className="p-6 bg-emerald-50 border border-emerald-100 rounded-3xl shadow-inner">
+      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+        <span className="w-2 h-2 bg-emerald-500 rounded-full"></span>
+        Analysis
+        {analysis && (
+          <span className="ml-auto flex bg-white border border-slate-200 rounded-lg p-0.5 normal-case tracking-normal">
+            {ANALYSIS_LANGUAGES.map(({ code, name }) => (
+              <button
+                key={code}
+                onClick={() => setLanguage(code)}
+                className={`px-2 py-0.5 rounded-md text-[11px] font-bold transition-colors ${language === code ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:text-emerald-600'}`}
+              >
+                {name}
+              </button>
+            ))}
+          </span>
+        )}
+        <button
+          onClick={onAnalyze}
+          disabled={analyzing || !available}
+          className={`${analysis ? '' : 'ml-auto '}px-3 py-1 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg text-[11px] font-bold normal-case tracking-normal transition-colors disabled:opacity-50`}
+        >
+          {analyzing ? 'Analyzing...' : analysis ? 'Re-analyze' : 'Analyze'}
+        </button>
+      </h3>
+
+      {!analysis ? (
+        <p className="text-sm text-slate-500 italic">
+          {available
+            ? 'Summarize the transcript and pick out action items, key topics, and the people, places and organisations mentioned.'
+            : unavailableReason}
+        </p>
+      ) : content && isEmptyAnalysis(content) ? (
+        <p className="text-sm text-slate-500 italic">Nothing to report for this transcript.</p>
+      ) : content && (
+        <div className={`grid grid-cols-1 md:grid-cols-2 gap-6 text-slate-800 ${language === 'am' ? 'font-serif' : ''}`}>
+          <div className="space-y-5">
+            {content.summary && (
+              <section>
+                <h4 className="text-[11px] font-bold text-emerald-700 uppercase tracking-widest mb-2">Summary</h4>
+                <p className="leading-relaxed whitespace-pre-wrap">{content.summary}</p>
+              </section>
+            )}
+            {content.actionItems.length > 0 && (
+              <section>
+                <h4 className="text-[11px] font-bold text-emerald-700 uppercase tracking-widest mb-2">Action Items</h4>
+                <ul className="space-y-1.5">
+                  {content.actionItems.map((item, i) => (
+                    <li key={i} className="flex items-start gap-2">
+                      <span className="mt-2 w-1.5 h-1.5 bg-emerald-500 rounded-full shrink-0"></span>
+                      <span>
+                        {item.task}
+                        {item.owner && (
+                          <span className="ml-2 px-1.5 py-0.5 bg-white border border-emerald-200 rounded-md text-xs font-semibold text-emerald-700 font-sans">
+                            {item.owner}
+                          </span>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+          <div className="space-y-5">
+            {content.topics.length > 0 && (
+              <section>
+                <h4 className="text-[11px] font-bold text-emerald-700 uppercase tracking-widest mb-2">Key Topics</h4>
+                <div className="flex flex-wrap gap-1.5">
+                  {content.topics.map(topic => (
+                    <span key={topic} className="px-2 py-0.5 bg-white border border-emerald-200 rounded-md text-sm">{topic}</span>
+                  ))}
+                </div>
+              </section>
+            )}
+            {(Object.keys(ENTITY_TYPE_LABELS) as EntityType[]).map(type => {
+              const names = [...new Set(content.entities.filter(entity => entity.type === type).map(entity => entity.name))];
+              return names.length > 0 && (
+                <section key={type}>
+                  <h4 className="text-[11px] font-bold text-emerald-700 uppercase tracking-widest mb-2">{ENTITY_TYPE_LABELS[type]}</h4>
+                  <p className="text-sm">{names.join(', ')}</p>
+                </section>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisPanel;
@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from 'react';
+import { TranscriptionStatus, ChunkStatus, LanguageCode, Translations } from '../types';
+import { jobQueue, QueuedJob } from '../services/jobQueue';
+import { transcriptionProvider } from '../services/transcriptionProvider';
+import { getGlossary } from '../services/glossaryService';
+import { TRANSLATION_LANGUAGES } from '../utils/languages';
+import { forEachWithConcurrency } from '../utils/concurrency';
+import { withModelTranslations } from '../utils/versions';
+import { toPlainText } from '../utils/exportFormats';
+import { toSrt } from '../utils/subtitles';
+import { createZip } from '../utils/zip';
+import { downloadBlob } from '../utils/download';
+
+const TRANSLATE_CONCURRENCY = 2;
+
+interface BatchDashboardProps {
+  onOpen: (job: QueuedJob) => void;
+  activeId?: string;
+  // Where "Save all" puts transcripts that were not given a workspace
+  workspaceId: string | null;
+}
+
+const STATUS_STYLES: Partial<Record<TranscriptionStatus, string>> = {
+  [TranscriptionStatus.QUEUED]: 'bg-slate-50 text-slate-500 border-slate-200',
+  [TranscriptionStatus.TRANSCRIBING]: 'bg-blue-50 text-blue-700 border-blue-100 animate-pulse',
+  [TranscriptionStatus.TRANSLATING]: 'bg-indigo-50 text-indigo-700 border-indigo-100 animate-pulse',
+  [TranscriptionStatus.SAVING]: 'bg-blue-50 text-blue-700 border-blue-100 animate-pulse',
+  [TranscriptionStatus.COMPLETED]: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  [TranscriptionStatus.SAVED]: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  [TranscriptionStatus.ERROR]: 'bg-red-50 text-red-600 border-red-100',
+};
+
+const baseName = (name = 'recording') => name.replace(/\.[^.]+$/, '').replace(/[\\/:*?"<>|]+/g, '_');
+
+const BatchDashboard: React.FC<BatchDashboardProps> = ({ onOpen, activeId, workspaceId }) => {
+  const [jobs, setJobs] = useState<QueuedJob[]>([]);
+  const [targets, setTargets] = useState<LanguageCode[]>(['en']);
+  const [translatingIds, setTranslatingIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => jobQueue.subscribe(setJobs), []);
+
+  // Oldest first, so the table keeps the order files were added in
+  const items = jobs.filter(job => job.kind === 'transcribe' && job.batchId).reverse();
+  if (items.length === 0) return null;
+
+  const saveJobFor = (item: QueuedJob) => jobs.find(job => job.kind === 'save' && job.sourceJobId === item.id);
+
+  // The row shows translation and save activity on top of the transcription status
+  const displayStatus = (item: QueuedJob): TranscriptionStatus => {
+    if (translatingIds.has(item.id)) return TranscriptionStatus.TRANSLATING;
+    const saveJob = saveJobFor(item);
+    if (item.status === TranscriptionStatus.COMPLETED && saveJob && saveJob.status !== TranscriptionStatus.SAVED) {
+      return saveJob.status === TranscriptionStatus.QUEUED ? TranscriptionStatus.SAVING : saveJob.status;
+    }
+    if (item.status === TranscriptionStatus.COMPLETED && item.result?.id) return TranscriptionStatus.SAVED;
+    return item.status;
+  };
+
+  const completed = items.filter(item => item.status === TranscriptionStatus.COMPLETED && item.result);
+  const failed = items.filter(item => item.status === TranscriptionStatus.ERROR);
+  const needsTranslation = completed.filter(item => targets.some(code => item.result!.translations[code] === undefined));
+  const unsaved = completed.filter(item => !item.result!.id && !saveJobFor(item));
+
+  const toggleTarget = (language: LanguageCode) => {
+    setTargets(prev => prev.includes(language) ? prev.filter(l => l !== language) : [...prev, language]);
+  };
+
+  const handleTranslateAll = async () => {
+    setError(null);
+    const ids = needsTranslation.map(item => item.id);
+    setTranslatingIds(new Set(ids));
+    const glossary = await getGlossary();
+
+    const failures = await forEachWithConcurrency(ids, TRANSLATE_CONCURRENCY, async (id: string) => {
+      const job = jobQueue.getJob(id);
+      if (!job?.result) return;
+      const translations: Translations = {};
+      for (const target of targets) {
+        if (job.result.translations[target] === undefined) {
+          translations[target] = await transcriptionProvider.translate(job.result.text, target, glossary);
+        }
+      }
+      // Re-read the job: the transcript may have been edited while translating
+      const latest = jobQueue.getJob(id);
+      if (latest?.result) {
+        await jobQueue.updateResult(id, withModelTranslations(latest.result, translations));
+      }
+      setTranslatingIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    });
+
+    setTranslatingIds(new Set());
+    if (failures.length) {
+      setError(`${failures.length} file${failures.length === 1 ? '' : 's'} could not be translated.`);
+    }
+  };
+
+  const handleSaveAll = async () => {
+    setError(null);
+    await Promise.all(unsaved.map(item => jobQueue.enqueueSave(
+      item.result!.workspaceId !== undefined ? item.result! : { ...item.result!, workspaceId },
+      item.id
+    )));
+  };
+
+  const handleRetryFailed = () => {
+    failed.forEach(item => jobQueue.retry(item.id));
+  };
+
+  const handleDownloadZip = () => {
+    const entries = completed.flatMap((item, i) => {
+      const name = `${String(i + 1).padStart(2, '0')}-${baseName(item.name)}`;
+      const files = [{ name: `${name}.txt`, data: toPlainText(item.result!) }];
+      if (item.result!.segments?.length) {
+        files.push({ name: `${name}.srt`, data: toSrt(item.result!.segments) });
+      }
+      return files;
+    });
+    downloadBlob(createZip(entries), `amharic-transcriptions-${new Date().getTime()}.zip`);
+  };
+
+  const handleClear = async () => {
+    const ids = new Set(items.map(item => item.id));
+    const related = jobs.filter(job => ids.has(job.id) || (job.sourceJobId && ids.has(job.sourceJobId)));
+    await Promise.all(related.map(job => jobQueue.remove(job.id)));
+  };
+
+  const busy = translatingIds.size > 0;
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 bg-white rounded-2xl shadow-xl border border-slate-200">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">Batch Upload</h2>
+          <p className="text-slate-500 text-sm">
+            {completed.length} of {items.length} transcribed
+            {failed.length > 0 && <span className="text-red-600"> · {failed.length} failed</span>}
+          </p>
+        </div>
+        <button
+          onClick={handleClear}
+          disabled={busy}
+          className="px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors border border-transparent hover:border-red-100 disabled:opacity-50"
+        >
+          Clear Batch
+        </button>
+      </div>
+
+      <div className="h-2 bg-blue-100 rounded-full overflow-hidden mb-6">
+        <div
+          className="h-full bg-blue-600 transition-all duration-500"
+          style={{ width: `${((completed.length + failed.length) / items.length) * 100}%` }}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {TRANSLATION_LANGUAGES.map(language => (
+          <button
+            key={language.code}
+            onClick={() => toggleTarget(language.code)}
+            disabled={busy}
+            className={`px-3 py-1 rounded-full text-xs font-semibold border transition-all ${targets.includes(language.code) ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-300'}`}
+          >
+            {language.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-6">
+        <button
+          onClick={handleTranslateAll}
+          disabled={busy || !needsTranslation.length || !targets.length || !transcriptionProvider.capabilities.translation}
+          className="px-4 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-sm font-bold transition-all shadow-md disabled:opacity-40"
+        >
+          {busy ? 'Translating...' : `Translate all (${needsTranslation.length})`}
+        </button>
+        <button
+          onClick={handleSaveAll}
+          disabled={busy || !unsaved.length}
+          className="px-4 py-3 bg-gradient-to-r from-blue-700 to-indigo-700 hover:from-blue-800 hover:to-indigo-800 text-white rounded-xl text-sm font-bold transition-all shadow-md disabled:opacity-40"
+        >
+          Save all ({unsaved.length})
+        </button>
+        <button
+          onClick={handleDownloadZip}
+          disabled={!completed.length}
+          className="px-4 py-3 bg-slate-900 hover:bg-black text-white rounded-xl text-sm font-bold transition-all shadow-md disabled:opacity-40"
+        >
+          Download .zip
+        </button>
+        <button
+          onClick={handleRetryFailed}
+          disabled={!failed.length}
+          className="px-4 py-3 bg-white border-2 border-slate-200 hover:border-amber-300 text-slate-700 rounded-xl text-sm font-bold transition-all disabled:opacity-40"
+        >
+          Retry failed ({failed.length})
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-100 text-red-600 text-xs rounded-lg font-medium">
+          {error}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-[10px] font-bold text-slate-400 uppercase tracking-widest border-b border-slate-100">
+              <th className="py-2 pr-2">File</th>
+              <th className="py-2 pr-2">Size</th>
+              <th className="py-2 pr-2">Status</th>
+              <th className="py-2 pr-2">Languages</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => {
+              const status = displayStatus(item);
+              const saveJob = saveJobFor(item);
+              const errorMessage = item.status === TranscriptionStatus.ERROR || item.status === TranscriptionStatus.QUEUED
+                ? item.error
+                : saveJob?.error;
+              return (
+                <tr key={item.id} className={`border-b border-slate-50 align-top ${item.id === activeId ? 'bg-blue-50' : ''}`}>
+                  <td className="py-2 pr-2 max-w-[200px]">
+                    <p className="font-semibold text-slate-700 truncate" title={item.name}>{item.name}</p>
+                    {errorMessage && <p className="text-xs text-red-600">{errorMessage}</p>}
+                  </td>
+                  <td className="py-2 pr-2 text-slate-500 whitespace-nowrap">
+                    {item.preprocessed ? (
+                      <span title={`${item.preprocessed.originalFormat} → ${item.preprocessed.processedFormat}`}>
+                        {(item.preprocessed.originalSize / 1024 / 1024).toFixed(2)} → <span className="text-emerald-600 font-semibold">{(item.preprocessed.processedSize / 1024 / 1024).toFixed(2)}</span> MB
+                      </span>
+                    ) : (
+                      `${((item.audio?.size || 0) / 1024 / 1024).toFixed(2)} MB`
+                    )}
+                  </td>
+                  <td className="py-2 pr-2">
+                    <span className={`px-2 py-0.5 rounded-md border text-[10px] font-bold uppercase tracking-widest ${STATUS_STYLES[status] || ''}`}>
+                      {status}
+                    </span>
+                    {item.status === TranscriptionStatus.TRANSCRIBING && (item.progress?.length || 0) > 1 && (
+                      <p className="text-[10px] text-slate-400 mt-1">
+                        {item.progress!.filter(p => p.status === ChunkStatus.DONE).length}/{item.progress!.length} parts
+                      </p>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2 text-xs font-bold text-indigo-600 uppercase">
+                    {Object.keys(item.result?.translations || {}).join(' · ') || '—'}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    {item.status === TranscriptionStatus.COMPLETED && item.id !== activeId && (
+                      <button
+                        onClick={() => onOpen(item)}
+                        className="px-2 py-1 text-xs font-bold text-blue-600 hover:bg-blue-100 rounded-lg transition-colors"
+                      >
+                        Open
+                      </button>
+                    )}
+                    {item.status === TranscriptionStatus.ERROR && (
+                      <button
+                        onClick={() => jobQueue.retry(item.id)}
+                        className="px-2 py-1 text-xs font-bold text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                      >
+                        Retry
+                      </button>
+                    )}
+                    {item.status !== TranscriptionStatus.TRANSCRIBING && (
+                      <button
+                        onClick={() => jobQueue.remove(item.id)}
+                        className="px-2 py-1 text-xs font-bold text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BatchDashboard;
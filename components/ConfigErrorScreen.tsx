@@ -0,0 +1,31 @@
+import React from 'react';
+
+interface ConfigErrorScreenProps {
+  problems: string[];
+}
+
+/**
+ * Shown instead of the app when its environment variables are missing or invalid.
+ */
+const ConfigErrorScreen: React.FC<ConfigErrorScreenProps> = ({ problems }) => (
+  <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
+    <div className="max-w-xl w-full bg-white rounded-3xl shadow-xl border border-red-100 p-8">
+      <h1 className="text-2xl font-bold text-slate-900 mb-2">The app is not configured</h1>
+      <p className="text-sm text-slate-500 mb-6">
+        Fix these settings in <code className="font-mono text-slate-700">.env.local</code> and restart the dev server:
+      </p>
+      <ul className="space-y-2 mb-6">
+        {problems.map(problem => (
+          <li key={problem} className="p-3 bg-red-50 border border-red-200 rounded-xl text-sm font-semibold text-red-700">
+            {problem}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-slate-400">
+        See the Configuration section of the README for every setting. Set <code className="font-mono">VITE_SUPABASE_LOCAL=true</code> to use a stack started with <code className="font-mono">supabase start</code>.
+      </p>
+    </div>
+  </div>
+);
+
+export default ConfigErrorScreen;
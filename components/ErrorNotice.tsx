@@ -0,0 +1,75 @@
+import React from 'react';
+import { ProviderErrorKind } from '../services/providerErrors';
+
+interface ErrorNoticeProps {
+  message: string;
+  kind?: ProviderErrorKind;
+}
+
+// What each kind of failure means and what the user can do about it
+const GUIDANCE: Record<ProviderErrorKind, { title: string; action?: string }> = {
+  auth: {
+    title: "Not authorized",
+    action: "Sign out and back in. With a self-hosted Whisper server, check VITE_WHISPER_API_KEY.",
+  },
+  quota: {
+    title: "Usage quota reached",
+    action: "Wait for the quota to reset or ask an administrator to raise it. The Usage page shows what you have used.",
+  },
+  rate_limit: {
+    title: "Too many requests",
+    action: "Wait a minute, then try again.",
+  },
+  payload_too_large: {
+    title: "Audio too large",
+    action: "Trim the recording in the waveform editor, or split it into shorter files and upload them as a batch.",
+  },
+  safety_blocked: {
+    title: "Blocked by safety filters",
+    action: "The model declined this content. Try a different recording, or edit the passage before translating or analyzing it.",
+  },
+  network: {
+    title: "Connection problem",
+    action: "Check your internet connection and try again. Queued transcriptions resume by themselves once you are back online.",
+  },
+  unavailable: {
+    title: "Service unavailable",
+    action: "The transcription service is busy or down. Try again in a few minutes.",
+  },
+  empty_result: {
+    title: "Nothing came back",
+    action: "The model returned no text. Check that the recording has audible speech, then try again.",
+  },
+  cancelled: {
+    title: "Cancelled",
+  },
+  unknown: {
+    title: "Something went wrong",
+  },
+};
+
+/**
+ * An error from the app, with what to do about it when the failure has been classified.
+ */
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ message, kind }) => {
+  const guidance = kind && GUIDANCE[kind];
+
+  return (
+    <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl text-red-600 text-sm flex items-start gap-2">
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 shrink-0" viewBox="0 0 20 20" fill="currentColor">
+        <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+      </svg>
+      {guidance ? (
+        <div>
+          <p className="font-bold">{guidance.title}</p>
+          <p className="font-semibold">{message}</p>
+          {guidance.action && <p className="mt-1 text-red-500">{guidance.action}</p>}
+        </div>
+      ) : (
+        <span className="font-semibold">{message}</span>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,92 @@
+import React, { useRef, useLayoutEffect } from 'react';
+import { isLatinInputChar, latinToFidel } from '../utils/ethiopic';
+
+interface FidelTextareaProps extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+  // Type Amharic with SERA-style Latin keys instead of an Ethiopic keyboard
+  latinInput: boolean;
+}
+
+interface Composition {
+  start: number;
+  latin: string;
+  // Length of the Fidel currently standing in for `latin`
+  length: number;
+}
+
+/**
+ * Textarea with a built-in Latin-to-Fidel input method. The Latin typed for the current
+ * word is kept aside and the whole word is re-converted on every key, so "s", "se", "sel"
+ * show as ስ, ሰ, ሰል. Backspace removes the last Latin letter rather than a whole syllable.
+ */
+const FidelTextarea: React.FC<FidelTextareaProps> = ({ value, onChange, latinInput, onKeyDown, onMouseDown, onBlur, ...props }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const compositionRef = useRef<Composition | null>(null);
+  const caretRef = useRef<number | null>(null);
+
+  // Put the caret after the converted text once React has rendered the new value
+  useLayoutEffect(() => {
+    if (caretRef.current === null || !textareaRef.current) return;
+    textareaRef.current.setSelectionRange(caretRef.current, caretRef.current);
+    caretRef.current = null;
+  }, [value]);
+
+  const compose = (start: number, end: number, latin: string) => {
+    const fidel = latinToFidel(latin);
+    compositionRef.current = latin ? { start, latin, length: fidel.length } : null;
+    caretRef.current = start + fidel.length;
+    onChange(value.slice(0, start) + fidel + value.slice(end));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    onKeyDown?.(e);
+    if (!latinInput || e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || e.nativeEvent.isComposing) return;
+
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    const composition = compositionRef.current;
+    // Only keep composing while the caret is still right after the word being typed
+    const continuing = composition && selectionStart === selectionEnd && selectionStart === composition.start + composition.length;
+
+    if (e.key === 'Backspace' && continuing) {
+      e.preventDefault();
+      compose(composition.start, selectionStart, composition.latin.slice(0, -1));
+      return;
+    }
+    if (e.key.length !== 1 || !isLatinInputChar(e.key, continuing ? composition.latin : '', value.slice(0, selectionStart))) {
+      compositionRef.current = null;
+      return;
+    }
+
+    e.preventDefault();
+    if (continuing) {
+      compose(composition.start, selectionStart, composition.latin + e.key);
+    } else {
+      compose(selectionStart, selectionEnd, e.key);
+    }
+  };
+
+  return (
+    <textarea
+      {...props}
+      ref={textareaRef}
+      value={value}
+      onChange={(e) => {
+        compositionRef.current = null;
+        onChange(e.target.value);
+      }}
+      onKeyDown={handleKeyDown}
+      onMouseDown={(e) => {
+        compositionRef.current = null;
+        onMouseDown?.(e);
+      }}
+      onBlur={(e) => {
+        compositionRef.current = null;
+        onBlur?.(e);
+      }}
+      lang="am"
+    />
+  );
+};
+
+export default FidelTextarea;
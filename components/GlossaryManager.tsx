@@ -0,0 +1,228 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GlossaryTerm, GlossaryTermInput } from '../types';
+import { upsertGlossaryTerms, updateGlossaryTerm, deleteGlossaryTerm } from '../services/supabaseService';
+import { refreshGlossary, subscribeGlossary } from '../services/glossaryService';
+import { glossaryToCsv, parseGlossaryCsv } from '../utils/glossary';
+import { downloadBlob } from '../utils/download';
+
+interface TermDraft {
+  term: string;
+  variants: string;
+  english: string;
+}
+
+const EMPTY_DRAFT: TermDraft = { term: '', variants: '', english: '' };
+
+const toDraft = (term: GlossaryTerm): TermDraft => ({
+  term: term.term,
+  variants: term.variants.join(', '),
+  english: term.english || '',
+});
+
+const fromDraft = (draft: TermDraft): GlossaryTermInput => ({
+  term: draft.term.trim(),
+  variants: draft.variants.split(/[,፣]/).map(variant => variant.trim()).filter(Boolean),
+  english: draft.english.trim() || null,
+});
+
+/**
+ * The user's glossary: preferred Amharic spellings of names and terms, the misspellings
+ * to correct, and optional English equivalents for translation.
+ */
+const GlossaryManager: React.FC = () => {
+  const [terms, setTerms] = useState<GlossaryTerm[]>([]);
+  const [query, setQuery] = useState('');
+  const [newTerm, setNewTerm] = useState<TermDraft>(EMPTY_DRAFT);
+  const [editing, setEditing] = useState<{ id: string; draft: TermDraft } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => subscribeGlossary(setTerms), []);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      await refreshGlossary();
+    } catch (err: any) {
+      setError(`${failure}: ${err.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = fromDraft(newTerm);
+    if (!input.term) return;
+    run(async () => {
+      await upsertGlossaryTerms([input]);
+      setNewTerm(EMPTY_DRAFT);
+    }, "Failed to add term");
+  };
+
+  const handleSaveEdit = () => {
+    if (!editing) return;
+    const input = fromDraft(editing.draft);
+    if (!input.term) return;
+    run(async () => {
+      await updateGlossaryTerm(editing.id, input);
+      setEditing(null);
+    }, "Failed to update term");
+  };
+
+  const handleDelete = (term: GlossaryTerm) => {
+    if (!confirm(`Delete "${term.term}" from your glossary?`)) return;
+    run(() => deleteGlossaryTerm(term.id), "Failed to delete term");
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const imported = parseGlossaryCsv(await file.text());
+    if (!imported.length) {
+      setError("No terms found. Expected columns: term, variants, english.");
+      return;
+    }
+    run(async () => {
+      await upsertGlossaryTerms(imported);
+      setNotice(`Imported ${imported.length} term${imported.length === 1 ? '' : 's'}.`);
+    }, "Failed to import glossary");
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([glossaryToCsv(terms)], { type: 'text/csv;charset=utf-8' }), 'amharic-glossary.csv');
+  };
+
+  const needle = query.trim().toLowerCase();
+  const visible = needle
+    ? terms.filter(term => [term.term, term.english || '', ...term.variants].some(value => value.toLowerCase().includes(needle)))
+    : terms;
+
+  const inputClass = "w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white rounded-3xl shadow-xl border border-slate-100 p-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Glossary</h2>
+          <p className="text-sm text-slate-500">
+            Names and terms the transcriber should always spell your way. Variants are corrected automatically.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-bold transition-all disabled:opacity-50"
+          >
+            Import CSV
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!terms.length}
+            className="px-4 py-2 bg-slate-900 hover:bg-black text-white rounded-lg text-sm font-bold transition-all disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl text-red-600 text-sm font-semibold">{error}</div>}
+      {notice && <div className="mb-4 p-3 bg-emerald-50 border border-emerald-200 rounded-xl text-emerald-700 text-sm font-semibold">{notice}</div>}
+
+      <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 mb-6 p-4 bg-slate-50 rounded-2xl border border-slate-200">
+        <input
+          value={newTerm.term}
+          onChange={(e) => setNewTerm(prev => ({ ...prev, term: e.target.value }))}
+          placeholder="Preferred spelling"
+          className={`${inputClass} font-serif`}
+        />
+        <input
+          value={newTerm.variants}
+          onChange={(e) => setNewTerm(prev => ({ ...prev, variants: e.target.value }))}
+          placeholder="Misspellings, comma separated"
+          className={`${inputClass} font-serif`}
+        />
+        <input
+          value={newTerm.english}
+          onChange={(e) => setNewTerm(prev => ({ ...prev, english: e.target.value }))}
+          placeholder="English (optional)"
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={busy || !newTerm.term.trim()}
+          className="px-5 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold transition-all disabled:opacity-50"
+        >
+          Add
+        </button>
+      </form>
+
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={`Search ${terms.length} term${terms.length === 1 ? '' : 's'}...`}
+        className={`${inputClass} mb-4`}
+      />
+
+      {visible.length === 0 ? (
+        <p className="text-center text-sm text-slate-400 py-8">
+          {terms.length ? "No terms match your search." : "Your glossary is empty. Add a term above or import a CSV file."}
+        </p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-[10px] font-bold text-slate-400 uppercase tracking-widest border-b border-slate-100">
+              <th className="py-2 pr-2">Term</th>
+              <th className="py-2 pr-2">Variants</th>
+              <th className="py-2 pr-2">English</th>
+              <th className="py-2 w-32"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(term => editing?.id === term.id ? (
+              <tr key={term.id} className="border-b border-slate-50">
+                {(['term', 'variants', 'english'] as const).map(field => (
+                  <td key={field} className="py-2 pr-2">
+                    <input
+                      value={editing.draft[field]}
+                      onChange={(e) => setEditing({ id: term.id, draft: { ...editing.draft, [field]: e.target.value } })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleSaveEdit();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      className={`${inputClass} ${field !== 'english' ? 'font-serif' : ''}`}
+                    />
+                  </td>
+                ))}
+                <td className="py-2 text-right whitespace-nowrap">
+                  <button onClick={handleSaveEdit} disabled={busy} className="px-2 py-1 text-xs font-bold text-blue-600 hover:text-blue-800">Save</button>
+                  <button onClick={() => setEditing(null)} className="px-2 py-1 text-xs font-bold text-slate-400 hover:text-slate-600">Cancel</button>
+                </td>
+              </tr>
+            ) : (
+              <tr key={term.id} className="border-b border-slate-50 hover:bg-slate-50">
+                <td className="py-2 pr-2 font-serif text-base text-slate-900">{term.term}</td>
+                <td className="py-2 pr-2 font-serif text-slate-500">{term.variants.join(', ')}</td>
+                <td className="py-2 pr-2 text-slate-600">{term.english}</td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  <button onClick={() => setEditing({ id: term.id, draft: toDraft(term) })} className="px-2 py-1 text-xs font-bold text-slate-500 hover:text-blue-600">Edit</button>
+                  <button onClick={() => handleDelete(term)} disabled={busy} className="px-2 py-1 text-xs font-bold text-slate-500 hover:text-red-600">Delete</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default GlossaryManager;
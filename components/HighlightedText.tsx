@@ -0,0 +1,26 @@
+import React from 'react';
+import { excerptAround, findMatches } from '../utils/search';
+
+interface HighlightedTextProps {
+  text: string;
+  // Already normalized, from searchTerms
+  terms: string[];
+}
+
+/**
+ * Shows `text` with search matches marked, trimmed to the area around the first match.
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms }) => {
+  const excerpt = excerptAround(text, terms);
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, end] of findMatches(excerpt, terms)) {
+    if (start > cursor) parts.push(excerpt.slice(cursor, start));
+    parts.push(<mark key={start} className="bg-yellow-200 text-inherit rounded-sm px-0.5">{excerpt.slice(start, end)}</mark>);
+    cursor = end;
+  }
+  parts.push(excerpt.slice(cursor));
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
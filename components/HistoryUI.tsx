@@ -0,0 +1,629 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Project, ReviewStatus, TranscriptionRecord, WorkspaceMember } from '../types';
+import { listTranscriptions, deleteTranscription, getRecordTranslations, getAudioUrl, recordToResult, moveTranscriptions, addTranscriptionTags, listTranscriptionTags, renameProject, deleteProject } from '../services/supabaseService';
+import { refreshProjects, subscribeProjects } from '../services/projectService';
+import { getWorkspaceMembers, subscribeWorkspaces } from '../services/workspaceService';
+import { ExportFormat, downloadTranscriptions, exportFormatsFor } from '../services/documentExport';
+import { TRANSLATION_LANGUAGES } from '../utils/languages';
+import { formatClock, getSpeakers } from '../utils/segments';
+import { findMatches, searchTerms } from '../utils/search';
+import { parseTags } from '../utils/tags';
+import { REVIEW_STATUS_LABELS, REVIEW_STATUS_STYLES } from '../utils/review';
+import HighlightedText from './HighlightedText';
+
+const PAGE_SIZE = 10;
+const UNDO_WINDOW_MS = 5000;
+const SEARCH_DEBOUNCE_MS = 300;
+// Project filter value for transcriptions not filed in any project; '' shows all
+const UNFILED = 'unfiled';
+
+interface HistoryUIProps {
+  onOpen: (record: TranscriptionRecord) => void;
+  activeId?: string;
+  refreshKey: number;
+  // Workspace whose transcripts are listed; the user's private ones when null
+  workspaceId: string | null;
+  userId: string;
+}
+
+interface PendingDelete {
+  record: TranscriptionRecord;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const HistoryUI: React.FC<HistoryUIProps> = ({ onOpen, activeId, refreshKey, workspaceId, userId }) => {
+  const [rows, setRows] = useState<TranscriptionRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  // searchInput once typing pauses, so each keystroke is not a query
+  const [search, setSearch] = useState('');
+  const [projectFilter, setProjectFilter] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [bulkTags, setBulkTags] = useState('');
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | ''>('');
+  const [assignedToMe, setAssignedToMe] = useState(false);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [playing, setPlaying] = useState<{ id: string; url: string } | null>(null);
+  // Kept across pages and filters, so an export can span several pages
+  const [selected, setSelected] = useState<Map<string, TranscriptionRecord>>(new Map());
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('docx');
+  const [exporting, setExporting] = useState(false);
+
+  // Mirror of pendingDelete so the unmount cleanup can still commit it
+  const pendingDeleteRef = useRef<PendingDelete | null>(null);
+
+  const loadPage = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { rows, total } = await listTranscriptions({
+        page,
+        pageSize: PAGE_SIZE,
+        from,
+        to,
+        search,
+        projectId: projectFilter === UNFILED ? null : projectFilter || undefined,
+        tag: tagFilter || undefined,
+        workspaceId,
+        status: workspaceId && statusFilter ? statusFilter : undefined,
+        assigneeId: workspaceId && assignedToMe ? userId : undefined,
+      });
+      setRows(rows);
+      setTotal(total);
+    } catch (err: any) {
+      setError("Failed to load history: " + err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, from, to, search, projectFilter, tagFilter, workspaceId, statusFilter, assignedToMe, userId]);
+
+  useEffect(() => {
+    setPage(0);
+    setMembers([]);
+    if (!workspaceId) return;
+    let cancelled = false;
+    const load = () => getWorkspaceMembers(workspaceId).then(loaded => {
+      if (!cancelled) setMembers(loaded);
+    });
+    // Reload when roles change; the member cache is cleared with the workspaces
+    const unsubscribe = subscribeWorkspaces(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [workspaceId]);
+
+  const myRole = members.find(member => member.user_id === userId)?.role;
+  // Mirrors the delete policy: owners delete anything, editors what they saved
+  const canDelete = (row: TranscriptionRecord) =>
+    !row.workspace_id || myRole === 'owner' || (myRole === 'editor' && row.user_id === userId);
+  const memberEmail = (id: string) => members.find(member => member.user_id === id)?.email ?? 'a former member';
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage, refreshKey, reloadCount]);
+
+  useEffect(() => subscribeProjects(setProjects), []);
+
+  useEffect(() => {
+    listTranscriptionTags().then(setTags).catch(err => console.warn('Could not load tags:', err));
+  }, [refreshKey, reloadCount]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(0);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    return () => {
+      const pending = pendingDeleteRef.current;
+      if (pending) {
+        clearTimeout(pending.timer);
+        deleteTranscription(pending.record).catch(console.error);
+      }
+    };
+  }, []);
+
+  const commitDelete = async (record: TranscriptionRecord) => {
+    pendingDeleteRef.current = null;
+    setPendingDelete(null);
+    toggleSelected([record], false);
+    try {
+      await deleteTranscription(record);
+    } catch (err: any) {
+      setError("Failed to delete transcription: " + err.message);
+    }
+    setReloadCount(c => c + 1);
+  };
+
+  const handleDelete = (record: TranscriptionRecord) => {
+    // Only one delete can wait for undo at a time; commit the previous one now
+    if (pendingDeleteRef.current) {
+      clearTimeout(pendingDeleteRef.current.timer);
+      commitDelete(pendingDeleteRef.current.record);
+    }
+
+    const timer = setTimeout(() => commitDelete(record), UNDO_WINDOW_MS);
+    const pending = { record, timer };
+    pendingDeleteRef.current = pending;
+    setPendingDelete(pending);
+  };
+
+  const handleUndo = () => {
+    if (!pendingDeleteRef.current) return;
+    clearTimeout(pendingDeleteRef.current.timer);
+    pendingDeleteRef.current = null;
+    setPendingDelete(null);
+  };
+
+  const toggleSelected = (records: TranscriptionRecord[], select: boolean) => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      records.forEach(record => select ? next.set(record.id, record) : next.delete(record.id));
+      return next;
+    });
+  };
+
+  // Keeps the selection in step with a bulk change, so exports carry the new details
+  const updateSelected = (update: (record: TranscriptionRecord) => TranscriptionRecord) => {
+    setSelected(prev => new Map([...prev].map(([id, record]) => [id, update(record)])));
+  };
+
+  const runBulk = async (action: (ids: string[]) => Promise<void>, failure: string) => {
+    setBulkBusy(true);
+    setError(null);
+    try {
+      await action([...selected.keys()]);
+      setReloadCount(c => c + 1);
+    } catch (err: any) {
+      setError(`${failure}: ${err.message}`);
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const handleBulkMove = (projectId: string | null) => runBulk(async ids => {
+    await moveTranscriptions(ids, projectId);
+    updateSelected(record => ({ ...record, project_id: projectId }));
+  }, "Failed to move transcriptions");
+
+  const handleBulkTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = parseTags(bulkTags);
+    if (!added.length) return;
+    runBulk(async ids => {
+      await addTranscriptionTags(ids, added);
+      updateSelected(record => ({ ...record, tags: [...new Set([...record.tags, ...added])].sort() }));
+      setBulkTags('');
+    }, "Failed to tag transcriptions");
+  };
+
+  const selectedProject = projects.find(project => project.id === projectFilter);
+
+  const handleRenameProject = async () => {
+    if (!selectedProject) return;
+    const name = prompt('Rename project', selectedProject.name)?.trim();
+    if (!name || name === selectedProject.name) return;
+    try {
+      await renameProject(selectedProject.id, name);
+      await refreshProjects();
+    } catch (err: any) {
+      setError("Failed to rename project: " + err.message);
+    }
+  };
+
+  const handleDeleteProject = async () => {
+    if (!selectedProject) return;
+    if (!confirm(`Delete the project "${selectedProject.name}"? Its transcriptions are kept, without a project.`)) return;
+    try {
+      await deleteProject(selectedProject.id);
+      await refreshProjects();
+      handleFilterChange(setProjectFilter, '');
+      updateSelected(record => record.project_id === selectedProject.id ? { ...record, project_id: null } : record);
+    } catch (err: any) {
+      setError("Failed to delete project: " + err.message);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const records = [...selected.values()].sort((a, b) => a.created_at.localeCompare(b.created_at));
+      await downloadTranscriptions(records.map(recordToResult), selectedFormat, 'amharic-transcriptions');
+    } catch (err: any) {
+      setError("Failed to export: " + err.message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handlePlay = async (record: TranscriptionRecord) => {
+    if (!record.audio_path) return;
+    if (playing?.id === record.id) {
+      setPlaying(null);
+      return;
+    }
+    try {
+      setPlaying({ id: record.id, url: await getAudioUrl(record.audio_path) });
+    } catch (err: any) {
+      setError("Failed to load audio: " + err.message);
+    }
+  };
+
+  const handleFilterChange = (setter: (value: string) => void, value: string) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const terms = searchTerms(search);
+
+  const renderTranslationPreview = (row: TranscriptionRecord) => {
+    const translations = getRecordTranslations(row);
+    const languages = TRANSLATION_LANGUAGES.filter(language => translations[language.code]);
+    if (!languages.length) return null;
+    // While searching, preview the translation that matched rather than the first one
+    const shown = languages.find(language => findMatches(translations[language.code]!, terms).length) ?? languages[0];
+    return (
+      <p className="text-xs text-indigo-700 mt-1 line-clamp-1">
+        <span className="font-bold uppercase mr-1">{languages.map(language => language.code).join(' · ')}</span>
+        <HighlightedText text={translations[shown.code]!} terms={terms} />
+      </p>
+    );
+  };
+
+  const visibleRows = rows.filter(row => row.id !== pendingDelete?.record.id);
+  const pageSelected = visibleRows.length > 0 && visibleRows.every(row => selected.has(row.id));
+  const exportFormats = exportFormatsFor([...selected.values()].map(recordToResult));
+  // A format the selection cannot use (PDF with an Arabic translation) falls back to Word
+  const selectedFormat = exportFormats.find(({ format }) => format === exportFormat)?.unavailable ? 'docx' : exportFormat;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="p-6 bg-white rounded-2xl shadow-xl border border-slate-200">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">History</h2>
+          <p className="text-slate-500 text-sm">{total} saved transcription{total === 1 ? '' : 's'}</p>
+        </div>
+        <button
+          onClick={loadPage}
+          disabled={loading}
+          className="p-2 text-slate-400 hover:text-blue-600 rounded-lg transition-colors disabled:opacity-50"
+          title="Refresh"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 ${loading ? 'animate-spin' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="relative mb-2">
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="Search Amharic or English text..."
+          className="w-full pl-9 pr-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        />
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+        </svg>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        <div>
+          <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 ml-1">From</label>
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => handleFilterChange(setFrom, e.target.value)}
+            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 ml-1">To</label>
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => handleFilterChange(setTo, e.target.value)}
+            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 ml-1">Project</label>
+          <select
+            value={projectFilter}
+            onChange={(e) => handleFilterChange(setProjectFilter, e.target.value)}
+            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          >
+            <option value="">All projects</option>
+            <option value={UNFILED}>No project</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 ml-1">Tag</label>
+          <select
+            value={tagFilter}
+            onChange={(e) => handleFilterChange(setTagFilter, e.target.value)}
+            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          >
+            <option value="">All tags</option>
+            {/* Keep a tag chosen from a row selectable even before the tag list reloads */}
+            {(tagFilter && !tags.includes(tagFilter) ? [tagFilter, ...tags] : tags).map(tag => (
+              <option key={tag} value={tag}>#{tag}</option>
+            ))}
+          </select>
+        </div>
+        {workspaceId && (
+          <>
+            <div>
+              <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 ml-1">Status</label>
+              <select
+                value={statusFilter}
+                onChange={(e) => handleFilterChange(value => setStatusFilter(value as ReviewStatus | ''), e.target.value)}
+                className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                <option value="">All statuses</option>
+                {(Object.keys(REVIEW_STATUS_LABELS) as ReviewStatus[]).map(status => (
+                  <option key={status} value={status}>{REVIEW_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-end gap-2 pb-2 text-sm font-semibold text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={assignedToMe}
+                onChange={(e) => {
+                  setAssignedToMe(e.target.checked);
+                  setPage(0);
+                }}
+                className="mb-0.5 rounded border-slate-300"
+              />
+              Assigned to me
+            </label>
+          </>
+        )}
+      </div>
+
+      {selectedProject && (
+        <div className="-mt-2 mb-4 flex justify-end gap-2 text-xs">
+          <button onClick={handleRenameProject} className="px-2 py-1 font-bold text-slate-500 hover:text-blue-600">
+            Rename project
+          </button>
+          <button onClick={handleDeleteProject} className="px-2 py-1 font-bold text-slate-500 hover:text-red-600">
+            Delete project
+          </button>
+        </div>
+      )}
+
+      {visibleRows.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-2 text-xs">
+          <label className="flex items-center gap-2 font-bold text-slate-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={pageSelected}
+              onChange={(e) => toggleSelected(visibleRows, e.target.checked)}
+              className="rounded border-slate-300"
+            />
+            {selected.size ? `${selected.size} selected` : 'Select page'}
+          </label>
+          {selected.size > 0 && (
+            <>
+              <select
+                value={selectedFormat}
+                onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                title={exportFormats.find(({ unavailable }) => unavailable)?.unavailable}
+                className="ml-auto px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg font-semibold text-slate-600"
+              >
+                {exportFormats.map(({ format, label, unavailable }) => (
+                  <option key={format} value={format} disabled={!!unavailable}>{label} (.{format})</option>
+                ))}
+              </select>
+              <button
+                onClick={handleExport}
+                disabled={exporting}
+                className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-bold transition-colors disabled:opacity-50"
+              >
+                {exporting ? 'Exporting...' : 'Export'}
+              </button>
+              <button
+                onClick={() => setSelected(new Map())}
+                className="px-2 py-1 font-bold text-slate-400 hover:text-slate-600"
+              >
+                Clear
+              </button>
+              <div className="w-full flex flex-wrap items-center gap-2">
+                <select
+                  value=""
+                  onChange={(e) => handleBulkMove(e.target.value === UNFILED ? null : e.target.value)}
+                  disabled={bulkBusy}
+                  className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg font-semibold text-slate-600 disabled:opacity-50"
+                >
+                  <option value="" disabled>Move to...</option>
+                  <option value={UNFILED}>No project</option>
+                  {projects.map(project => (
+                    <option key={project.id} value={project.id}>{project.name}</option>
+                  ))}
+                </select>
+                <form onSubmit={handleBulkTag} className="flex flex-1 gap-2">
+                  <input
+                    value={bulkTags}
+                    onChange={(e) => setBulkTags(e.target.value)}
+                    placeholder="Add tags, comma separated"
+                    className="flex-1 min-w-0 px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg"
+                  />
+                  <button
+                    type="submit"
+                    disabled={bulkBusy || !parseTags(bulkTags).length}
+                    className="px-3 py-1 bg-slate-800 hover:bg-slate-900 text-white rounded-lg font-bold transition-colors disabled:opacity-50"
+                  >
+                    Tag
+                  </button>
+                </form>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-100 text-red-600 text-xs rounded-lg font-medium">
+          {error}
+        </div>
+      )}
+
+      {pendingDelete && (
+        <div className="mb-4 p-3 bg-slate-900 text-white text-xs rounded-lg font-medium flex items-center justify-between gap-2">
+          <span>Transcription deleted.</span>
+          <button onClick={handleUndo} className="font-bold text-blue-300 hover:text-blue-200 uppercase tracking-widest">
+            Undo
+          </button>
+        </div>
+      )}
+
+      {visibleRows.length === 0 && !loading ? (
+        <div className="py-10 text-center text-sm text-slate-400 border-2 border-dashed border-slate-200 rounded-xl">
+          {search
+            ? <>No transcriptions match "{search}"{(from || to || projectFilter || tagFilter || (workspaceId && (statusFilter || assignedToMe))) ? ' with these filters' : ''}.</>
+            : <>No saved transcriptions{(from || to || projectFilter || tagFilter || (workspaceId && (statusFilter || assignedToMe))) ? ' match these filters' : ''}.</>}
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {visibleRows.map(row => (
+            <li
+              key={row.id}
+              className={`p-3 rounded-xl border transition-colors ${row.id === activeId ? 'bg-blue-50 border-blue-200' : 'bg-slate-50 border-slate-100 hover:border-slate-200'}`}
+            >
+              <div className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={selected.has(row.id)}
+                  onChange={(e) => toggleSelected([row], e.target.checked)}
+                  className="mt-1 rounded border-slate-300"
+                  aria-label="Select for export"
+                />
+                <button onClick={() => onOpen(row)} className="flex-1 min-w-0 text-left">
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">
+                    {row.workspace_id && (
+                      <span className={`mr-2 px-1.5 py-0.5 rounded normal-case tracking-normal ${REVIEW_STATUS_STYLES[row.status]}`}>
+                        {REVIEW_STATUS_LABELS[row.status]}
+                      </span>
+                    )}
+                    {new Date(row.created_at).toLocaleString()}
+                    {row.assignee_id && (
+                      <span className="normal-case tracking-normal text-slate-500"> · for {row.assignee_id === userId ? 'you' : memberEmail(row.assignee_id)}</span>
+                    )}
+                    {row.segments && getSpeakers(row.segments).length > 0 && (
+                      <span className="normal-case tracking-normal text-slate-500"> · {getSpeakers(row.segments).join(', ')}</span>
+                    )}
+                  </p>
+                  {row.title && (
+                    <p className="text-sm font-bold text-slate-900 line-clamp-1">
+                      <HighlightedText text={row.title} terms={terms} />
+                    </p>
+                  )}
+                  <p className="text-sm text-slate-800 font-serif line-clamp-2">
+                    <HighlightedText text={row.amharic_text} terms={terms} />
+                  </p>
+                  {renderTranslationPreview(row)}
+                </button>
+              </div>
+              {(row.project_id || row.tags.length > 0) && (
+                <div className="flex flex-wrap gap-1 mt-2 ml-7">
+                  {row.project_id && (
+                    <button
+                      onClick={() => handleFilterChange(setProjectFilter, row.project_id!)}
+                      className="px-2 py-0.5 bg-slate-200 text-slate-700 rounded-md text-[11px] font-semibold hover:bg-slate-300"
+                    >
+                      {projects.find(project => project.id === row.project_id)?.name ?? 'Project'}
+                    </button>
+                  )}
+                  {row.tags.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => handleFilterChange(setTagFilter, tag)}
+                      className="px-2 py-0.5 bg-blue-100 text-blue-800 rounded-md text-[11px] font-semibold hover:bg-blue-200"
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {playing?.id === row.id && (
+                <audio controls autoPlay src={playing.url} className="w-full h-8 mt-2" />
+              )}
+              <div className="flex justify-end gap-2 mt-2">
+                {row.audio_path && (
+                  <button
+                    onClick={() => handlePlay(row)}
+                    className="px-3 py-1 text-xs font-bold text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                  >
+                    {playing?.id === row.id ? 'Hide audio' : 'Play'}
+                    {row.audio_duration != null && (
+                      <span className="ml-1 font-mono font-normal text-slate-400">
+                        {formatClock(row.audio_duration)}
+                      </span>
+                    )}
+                  </button>
+                )}
+                <button
+                  onClick={() => onOpen(row)}
+                  className="px-3 py-1 text-xs font-bold text-blue-600 hover:bg-blue-100 rounded-lg transition-colors"
+                >
+                  Open
+                </button>
+                {canDelete(row) && (
+                  <button
+                    onClick={() => handleDelete(row)}
+                    className="px-3 py-1 text-xs font-bold text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between mt-4">
+        <button
+          onClick={() => setPage(p => p - 1)}
+          disabled={page === 0 || loading}
+          className="px-3 py-1 text-sm font-bold text-slate-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30"
+        >
+          Previous
+        </button>
+        <span className="text-xs font-semibold text-slate-400">Page {page + 1} of {pageCount}</span>
+        <button
+          onClick={() => setPage(p => p + 1)}
+          disabled={page + 1 >= pageCount || loading}
+          className="px-3 py-1 text-sm font-bold text-slate-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryUI;
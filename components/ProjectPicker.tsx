@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { Project } from '../types';
+import { createProject } from '../services/supabaseService';
+import { refreshProjects, subscribeProjects } from '../services/projectService';
+
+interface ProjectPickerProps {
+  value: string | null;
+  onChange: (projectId: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const NEW_PROJECT = '__new__';
+const NO_PROJECT = '';
+
+/**
+ * Chooses a project, or none, with an option to create a new one on the spot.
+ */
+const ProjectPicker: React.FC<ProjectPickerProps> = ({ value, onChange, disabled, className = '' }) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeProjects(setProjects), []);
+
+  const handleSelect = (selected: string) => {
+    if (selected === NEW_PROJECT) {
+      setCreating(true);
+      return;
+    }
+    onChange(selected || null);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const project = await createProject(trimmed);
+      await refreshProjects();
+      onChange(project.id);
+      setCreating(false);
+      setName('');
+    } catch (err: any) {
+      // 23505: unique_violation on (user_id, name)
+      setError(err.code === '23505' ? 'A project with that name already exists.' : `Could not create project: ${err.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const fieldClass = "px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none";
+
+  if (creating) {
+    return (
+      <form onSubmit={handleCreate} className={className}>
+        <div className="flex gap-2">
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setCreating(false)}
+            placeholder="Project name"
+            className={`${fieldClass} flex-1 min-w-0`}
+          />
+          <button
+            type="submit"
+            disabled={busy || !name.trim()}
+            className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-xs font-bold transition-colors disabled:opacity-50"
+          >
+            Create
+          </button>
+          <button
+            type="button"
+            onClick={() => setCreating(false)}
+            className="px-2 py-2 text-xs font-bold text-slate-400 hover:text-slate-600"
+          >
+            Cancel
+          </button>
+        </div>
+        {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+      </form>
+    );
+  }
+
+  return (
+    <select
+      value={value ?? NO_PROJECT}
+      onChange={(e) => handleSelect(e.target.value)}
+      disabled={disabled}
+      className={`${fieldClass} ${className}`}
+    >
+      <option value={NO_PROJECT}>No project</option>
+      {projects.map(project => (
+        <option key={project.id} value={project.id}>{project.name}</option>
+      ))}
+      <option value={NEW_PROJECT}>New project...</option>
+    </select>
+  );
+};
+
+export default ProjectPicker;
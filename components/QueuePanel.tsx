@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { TranscriptionStatus } from '../types';
+import { jobQueue, QueuedJob } from '../services/jobQueue';
+
+interface QueuePanelProps {
+  onOpen: (job: QueuedJob) => void;
+  activeId?: string;
+}
+
+const STATUS_STYLES: Partial<Record<TranscriptionStatus, string>> = {
+  [TranscriptionStatus.QUEUED]: 'bg-amber-50 text-amber-700 border-amber-100',
+  [TranscriptionStatus.TRANSCRIBING]: 'bg-blue-50 text-blue-700 border-blue-100 animate-pulse',
+  [TranscriptionStatus.SAVING]: 'bg-blue-50 text-blue-700 border-blue-100 animate-pulse',
+  [TranscriptionStatus.COMPLETED]: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  [TranscriptionStatus.SAVED]: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  [TranscriptionStatus.ERROR]: 'bg-red-50 text-red-600 border-red-100',
+};
+
+const describeJob = (job: QueuedJob) => {
+  if (job.kind === 'save') {
+    return job.result?.id ? 'Update saved transcription' : 'Save to Supabase';
+  }
+  const size = job.audio ? `${(job.audio.size / 1024 / 1024).toFixed(2)} MB` : '';
+  return `Transcribe recording ${size}`.trim();
+};
+
+const QueuePanel: React.FC<QueuePanelProps> = ({ onOpen, activeId }) => {
+  const [jobs, setJobs] = useState<QueuedJob[]>([]);
+  const [online, setOnline] = useState(navigator.onLine);
+
+  // Batch uploads are tracked in the batch dashboard instead
+  useEffect(() => jobQueue.subscribe(all => {
+    const batchJobIds = new Set(all.filter(job => job.batchId).map(job => job.id));
+    setJobs(all.filter(job => !job.batchId && !(job.sourceJobId && batchJobIds.has(job.sourceJobId))));
+  }), []);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  if (jobs.length === 0 && online) return null;
+
+  const hasFinished = jobs.some(job => job.status === TranscriptionStatus.COMPLETED || job.status === TranscriptionStatus.SAVED);
+
+  return (
+    <div className="p-6 bg-white rounded-2xl shadow-xl border border-slate-200">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">Queue</h2>
+          <p className={`text-sm font-semibold ${online ? 'text-slate-500' : 'text-amber-600'}`}>
+            {online ? `${jobs.length} job${jobs.length === 1 ? '' : 's'}` : 'Offline: jobs will resume when you reconnect'}
+          </p>
+        </div>
+        {hasFinished && (
+          <button
+            onClick={() => jobQueue.clearFinished()}
+            className="px-3 py-1 text-xs font-bold text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-2">
+        {jobs.map(job => (
+          <li
+            key={job.id}
+            className={`p-3 rounded-xl border ${job.id === activeId ? 'bg-blue-50 border-blue-200' : 'bg-slate-50 border-slate-100'}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-slate-700 truncate">{describeJob(job)}</p>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                  {new Date(job.createdAt).toLocaleString()}
+                  {job.attempts > 1 && ` · attempt ${job.attempts}`}
+                </p>
+              </div>
+              <span className={`px-2 py-0.5 rounded-md border text-[10px] font-bold uppercase tracking-widest ${STATUS_STYLES[job.status] || ''}`}>
+                {job.status}
+              </span>
+            </div>
+            {job.error && job.status !== TranscriptionStatus.COMPLETED && job.status !== TranscriptionStatus.SAVED && (
+              <p className="text-xs text-red-600 mt-2">{job.error}</p>
+            )}
+            {job.status === TranscriptionStatus.QUEUED && job.attempts > 0 && (
+              <p className="text-xs text-amber-600 mt-1">
+                Next try {online ? `around ${new Date(job.nextAttemptAt).toLocaleTimeString()}` : 'when back online'}
+              </p>
+            )}
+            <div className="flex justify-end gap-2 mt-2">
+              {job.kind === 'transcribe' && job.id !== activeId && (
+                <button
+                  onClick={() => onOpen(job)}
+                  className="px-3 py-1 text-xs font-bold text-blue-600 hover:bg-blue-100 rounded-lg transition-colors"
+                >
+                  Open
+                </button>
+              )}
+              {job.status === TranscriptionStatus.ERROR && (
+                <button
+                  onClick={() => jobQueue.retry(job.id)}
+                  className="px-3 py-1 text-xs font-bold text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                >
+                  Retry
+                </button>
+              )}
+              {job.status !== TranscriptionStatus.TRANSCRIBING && job.status !== TranscriptionStatus.SAVING && (
+                <button
+                  onClick={() => jobQueue.remove(job.id)}
+                  className="px-3 py-1 text-xs font-bold text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default QueuePanel;
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { ReviewStatus, WorkspaceMember } from '../types';
+import { updateReview } from '../services/supabaseService';
+import { getWorkspaceMembers } from '../services/workspaceService';
+import { REVIEW_STATUS_LABELS, REVIEW_STATUS_STYLES, REVIEW_TRANSITIONS, canApprove, canEditInWorkspace } from '../utils/review';
+
+interface ReviewPanelProps {
+  transcriptionId: string;
+  workspaceId: string;
+  status: ReviewStatus;
+  assigneeId: string | null;
+  userId: string;
+  onChange: (review: { status: ReviewStatus; assigneeId: string | null }) => void;
+}
+
+/**
+ * Review state of a saved workspace transcript: its status, the moves it can make next,
+ * and who it is assigned to. Viewers see the state but cannot change it, and only owners
+ * assign reviewers.
+ */
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ transcriptionId, workspaceId, status, assigneeId, userId, onChange }) => {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getWorkspaceMembers(workspaceId).then(loaded => {
+      if (!cancelled) setMembers(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId]);
+
+  const role = members.find(member => member.user_id === userId)?.role;
+  const canEdit = canEditInWorkspace(role);
+  const transitions = REVIEW_TRANSITIONS[status].filter(({ to }) => to !== 'approved' || canApprove(role, assigneeId, userId));
+
+  const apply = async (changes: { status?: ReviewStatus; assigneeId?: string | null }) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await updateReview(transcriptionId, { status: changes.status, assignee_id: changes.assigneeId });
+      onChange({ status: changes.status ?? status, assigneeId: changes.assigneeId !== undefined ? changes.assigneeId : assigneeId });
+    } catch (err: any) {
+      setError("Failed to update review: " + err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-5 bg-white border border-slate-200 rounded-2xl shadow-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Review</h4>
+        <span className={`px-2 py-0.5 rounded-md text-xs font-bold ${REVIEW_STATUS_STYLES[status]}`}>
+          {REVIEW_STATUS_LABELS[status]}
+        </span>
+        {canEdit && transitions.map(({ label, to }) => (
+          <button
+            key={to}
+            onClick={() => apply({ status: to })}
+            disabled={busy}
+            className="px-3 py-1 bg-slate-100 hover:bg-blue-50 hover:text-blue-700 rounded-lg text-xs font-bold text-slate-600 transition-colors disabled:opacity-50"
+          >
+            {label}
+          </button>
+        ))}
+        {canEdit && status === 'in_review' && !canApprove(role, assigneeId, userId) && (
+          <span className="text-xs text-slate-400">Awaiting approval by an owner or the assignee</span>
+        )}
+        <label className="ml-auto flex items-center gap-2 text-xs font-semibold text-slate-500">
+          Assignee
+          <select
+            value={assigneeId ?? ''}
+            onChange={(e) => apply({ assigneeId: e.target.value || null })}
+            disabled={role !== 'owner' || busy}
+            title={role !== 'owner' ? 'Only a workspace owner can assign reviewers' : undefined}
+            className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs font-semibold text-slate-600 disabled:opacity-60"
+          >
+            <option value="">Unassigned</option>
+            {members.map(member => (
+              <option key={member.user_id} value={member.user_id}>
+                {member.email}{member.user_id === userId ? ' (you)' : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ReviewPanel;
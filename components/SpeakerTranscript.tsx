@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { TranscriptSegment } from '../types';
+import { formatClock, getSpeakers, groupSpeakerTurns, renameSpeaker } from '../utils/segments';
+
+interface SpeakerTranscriptProps {
+  segments: TranscriptSegment[];
+  onSegmentsChange: (segments: TranscriptSegment[]) => void;
+}
+
+const SPEAKER_COLORS = [
+  'bg-blue-100 text-blue-700 border-blue-200',
+  'bg-amber-100 text-amber-700 border-amber-200',
+  'bg-emerald-100 text-emerald-700 border-emerald-200',
+  'bg-rose-100 text-rose-700 border-rose-200',
+  'bg-violet-100 text-violet-700 border-violet-200',
+];
+
+/**
+ * The transcript as speaker-tagged paragraphs. Speakers can be renamed across the
+ * whole transcript, and a paragraph can be moved to another speaker when the model
+ * mixed two voices up.
+ */
+const SpeakerTranscript: React.FC<SpeakerTranscriptProps> = ({ segments, onSegmentsChange }) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const speakers = getSpeakers(segments);
+  const turns = groupSpeakerTurns(segments);
+  const colorOf = (speaker?: string) =>
+    speaker ? SPEAKER_COLORS[speakers.indexOf(speaker) % SPEAKER_COLORS.length] : 'bg-slate-100 text-slate-500 border-slate-200';
+
+  const commitRename = (speaker: string) => {
+    const name = drafts[speaker]?.trim();
+    setDrafts(prev => {
+      const { [speaker]: _done, ...rest } = prev;
+      return rest;
+    });
+    if (name && name !== speaker) onSegmentsChange(renameSpeaker(segments, speaker, name));
+  };
+
+  const reassignTurn = (segmentIndexes: number[], speaker: string) => {
+    const indexes = new Set(segmentIndexes);
+    onSegmentsChange(segments.map((segment, i) => indexes.has(i) ? { ...segment, speaker } : segment));
+  };
+
+  return (
+    <div className="flex flex-col gap-4 flex-1">
+      <div className="flex flex-wrap gap-2">
+        {speakers.map(speaker => (
+          <input
+            key={speaker}
+            value={drafts[speaker] ?? speaker}
+            onChange={(e) => setDrafts(prev => ({ ...prev, [speaker]: e.target.value }))}
+            onBlur={() => commitRename(speaker)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+              if (e.key === 'Escape') setDrafts(prev => ({ ...prev, [speaker]: speaker }));
+            }}
+            size={Math.max(8, (drafts[speaker] ?? speaker).length)}
+            className={`px-2 py-1 rounded-lg border text-xs font-bold focus:outline-none focus:ring-2 focus:ring-blue-500 ${colorOf(speaker)}`}
+            title="Rename this speaker everywhere"
+          />
+        ))}
+      </div>
+
+      <div className="max-h-96 overflow-y-auto space-y-4 pr-1">
+        {turns.map(turn => (
+          <div key={turn.segmentIndexes[0]}>
+            <div className="flex items-center gap-2 mb-1">
+              <select
+                value={turn.speaker || ''}
+                onChange={(e) => reassignTurn(turn.segmentIndexes, e.target.value)}
+                className={`px-2 py-0.5 rounded-md border text-[11px] font-bold ${colorOf(turn.speaker)}`}
+              >
+                {!turn.speaker && <option value="">Unknown speaker</option>}
+                {speakers.map(speaker => (
+                  <option key={speaker} value={speaker}>{speaker}</option>
+                ))}
+              </select>
+              <span className="font-mono text-[10px] text-slate-400">{formatClock(turn.start)}–{formatClock(turn.end)}</span>
+            </div>
+            <p className="text-slate-800 text-lg font-serif leading-relaxed">{turn.text}</p>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-[10px] text-slate-400">
+        Click a name to rename that speaker everywhere. Edit the wording in the Text or Synced view.
+      </p>
+    </div>
+  );
+};
+
+export default SpeakerTranscript;
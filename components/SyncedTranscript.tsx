@@ -0,0 +1,209 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { TranscriptSegment } from '../types';
+import { estimateWordTimes, findSegmentAt, formatClock } from '../utils/segments';
+
+interface SyncedTranscriptProps {
+  audioUrl: string;
+  segments: TranscriptSegment[];
+  // Segments can only be edited while they still line up with the transcript text
+  editable: boolean;
+  onSegmentChange: (index: number, text: string) => void;
+}
+
+const SEEK_STEP_SECONDS = 5;
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5];
+
+const SHORTCUTS = [
+  { keys: 'Alt+K', label: 'Play / pause' },
+  { keys: 'Alt+J', label: `Back ${SEEK_STEP_SECONDS}s` },
+  { keys: 'Alt+L', label: `Forward ${SEEK_STEP_SECONDS}s` },
+  { keys: 'Alt+,', label: 'Slower' },
+  { keys: 'Alt+.', label: 'Faster' },
+];
+
+/**
+ * Audio player linked to the transcript: the playing segment and word are highlighted,
+ * clicking a word or timestamp seeks there, and double-clicking a segment edits it.
+ */
+const SyncedTranscript: React.FC<SyncedTranscriptProps> = ({ audioUrl, segments, editable, onSegmentChange }) => {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [rate, setRate] = useState(1);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const rowRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  const activeIndex = findSegmentAt(segments, currentTime);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate, audioUrl]);
+
+  // Keep the playing segment in view, unless the user is busy editing one
+  useEffect(() => {
+    const list = listRef.current;
+    const row = rowRefs.current[activeIndex];
+    if (!list || !row || editingIndex !== null) return;
+    if (row.offsetTop < list.scrollTop || row.offsetTop + row.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = row.offsetTop - list.clientHeight / 3;
+    }
+  }, [activeIndex, editingIndex]);
+
+  const seek = (time: number, play = true) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, Math.min(time, audio.duration || time));
+    setCurrentTime(audio.currentTime);
+    if (play) audio.play().catch(() => {});
+  };
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(() => {});
+    } else {
+      audio.pause();
+    }
+  };
+
+  const changeRate = (step: number) => {
+    setRate(prev => {
+      const index = PLAYBACK_RATES.indexOf(prev) + step;
+      return PLAYBACK_RATES[Math.max(0, Math.min(PLAYBACK_RATES.length - 1, index))];
+    });
+  };
+
+  // Matched on KeyboardEvent.code so the shortcuts also work with Ethiopic keyboard layouts
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!e.altKey || e.ctrlKey || e.metaKey) return;
+    switch (e.code) {
+      case 'KeyK': togglePlayback(); break;
+      case 'KeyJ': seek((audioRef.current?.currentTime || 0) - SEEK_STEP_SECONDS, false); break;
+      case 'KeyL': seek((audioRef.current?.currentTime || 0) + SEEK_STEP_SECONDS, false); break;
+      case 'Comma': changeRate(-1); break;
+      case 'Period': changeRate(1); break;
+      default: return;
+    }
+    e.preventDefault();
+  };
+
+  const startEditing = (index: number) => {
+    if (!editable || index >= segments.length) {
+      setEditingIndex(null);
+      return;
+    }
+    setEditingIndex(index);
+    seek(segments[index].start, isPlaying);
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>, index: number) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.altKey) {
+      e.preventDefault();
+      startEditing(index + 1);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setEditingIndex(null);
+    }
+  };
+
+  return (
+    <div onKeyDown={handleKeyDown} className="flex flex-col gap-3 flex-1">
+      <div className="flex items-center gap-3">
+        <audio
+          ref={audioRef}
+          controls
+          src={audioUrl}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          className="h-10 flex-1 min-w-0"
+        />
+        <select
+          value={rate}
+          onChange={(e) => setRate(Number(e.target.value))}
+          className="px-2 py-1 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-600"
+          title="Playback speed"
+        >
+          {PLAYBACK_RATES.map(value => (
+            <option key={value} value={value}>{value}×</option>
+          ))}
+        </select>
+      </div>
+
+      <div ref={listRef} className="relative max-h-96 overflow-y-auto space-y-1 pr-1">
+        {segments.map((segment, i) => {
+          const isActive = i === activeIndex;
+          const words = estimateWordTimes(segment);
+          return (
+            <div
+              key={i}
+              ref={(el) => { rowRefs.current[i] = el; }}
+              className={`flex items-start gap-3 p-2 rounded-xl transition-colors ${isActive ? 'bg-blue-50 ring-1 ring-blue-200' : 'hover:bg-white'}`}
+            >
+              <button
+                onClick={() => seek(segment.start)}
+                className={`pt-1.5 font-mono text-[10px] font-bold shrink-0 ${isActive ? 'text-blue-600' : 'text-slate-400 hover:text-blue-600'}`}
+                title="Play from here"
+              >
+                {formatClock(segment.start)}
+              </button>
+              <div className="flex-1 min-w-0">
+                {segment.speaker && segment.speaker !== segments[i - 1]?.speaker && (
+                  <p className="text-[10px] font-bold text-blue-600 uppercase tracking-widest">{segment.speaker}</p>
+                )}
+                {editingIndex === i ? (
+                  <textarea
+                    autoFocus
+                    value={segment.text}
+                    onChange={(e) => onSegmentChange(i, e.target.value.replace(/\n/g, ' '))}
+                    onKeyDown={(e) => handleEditorKeyDown(e, i)}
+                    onBlur={() => setEditingIndex(prev => prev === i ? null : prev)}
+                    rows={2}
+                    className="w-full px-2 py-1 bg-white border border-blue-200 rounded-lg text-slate-800 text-lg font-serif leading-relaxed focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                  />
+                ) : (
+                  <p
+                    onDoubleClick={() => startEditing(i)}
+                    className="text-slate-800 text-lg font-serif leading-relaxed"
+                  >
+                    {words.map((word, j) => {
+                      const isCurrentWord = isActive && currentTime >= word.start && (j === words.length - 1 || currentTime < words[j + 1].start);
+                      return (
+                        <React.Fragment key={j}>
+                          {j > 0 && ' '}
+                          <span
+                            onClick={() => seek(word.start)}
+                            className={`cursor-pointer rounded px-0.5 transition-colors ${isCurrentWord ? 'bg-blue-600 text-white' : 'hover:bg-blue-100'}`}
+                          >
+                            {word.text}
+                          </span>
+                        </React.Fragment>
+                      );
+                    })}
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-[10px] text-slate-400 leading-relaxed">
+        {SHORTCUTS.map(shortcut => (
+          <span key={shortcut.keys} className="mr-3 whitespace-nowrap">
+            <kbd className="px-1 py-0.5 bg-white border border-slate-200 rounded font-mono">{shortcut.keys}</kbd> {shortcut.label}
+          </span>
+        ))}
+        {editable
+          ? 'Double-click a segment to edit it; Enter moves to the next one.'
+          : 'Lines were added or removed in the text view, so segments can only be played here.'}
+      </p>
+    </div>
+  );
+};
+
+export default SyncedTranscript;
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { normalizeTag, parseTags } from '../utils/tags';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+}
+
+/**
+ * Tags as removable chips; typing a comma or pressing Enter adds what was typed.
+ */
+const TagInput: React.FC<TagInputProps> = ({ tags, onChange, placeholder = 'Add tags...' }) => {
+  const [draft, setDraft] = useState('');
+
+  const commit = (input: string) => {
+    const added = parseTags(input).filter(tag => !tags.includes(tag));
+    if (added.length) onChange([...tags, ...added]);
+    setDraft('');
+  };
+
+  const handleChange = (value: string) => {
+    if (/[,፣]/.test(value)) commit(value);
+    else setDraft(value);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commit(draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg focus-within:ring-2 focus-within:ring-blue-500">
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 px-2 py-0.5 bg-blue-100 text-blue-800 rounded-md text-xs font-semibold">
+          #{tag}
+          <button
+            type="button"
+            onClick={() => onChange(tags.filter(t => t !== tag))}
+            className="text-blue-400 hover:text-blue-700"
+            aria-label={`Remove tag ${tag}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        value={draft}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => normalizeTag(draft) && commit(draft)}
+        placeholder={tags.length ? '' : placeholder}
+        className="flex-1 min-w-[6rem] py-0.5 bg-transparent text-sm outline-none"
+      />
+    </div>
+  );
+};
+
+export default TagInput;
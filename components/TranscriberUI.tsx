@@ -1,35 +1,290 @@
 
-import React, { useState, useRef } from 'react';
-import { TranscriptionStatus, TranscriptionResult } from '../types';
-import { geminiService } from '../services/geminiService';
-import { saveTranscription } from '../services/supabaseService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { TranscriptionStatus, TranscriptionResult, TranscriptionRecord, TranscriptionVersion, Workspace, WorkspaceRole, ChunkProgress, ChunkStatus, LanguageCode, TranscriptSegment, PreprocessingOptions, PreprocessingSummary, GlossaryTerm } from '../types';
+import { transcriptionProvider } from '../services/transcriptionProvider';
+import { LiveTranscriber, LiveTranscript } from '../services/liveTranscription';
+import { jobQueue, QueuedJob } from '../services/jobQueue';
+import { DEFAULT_PREPROCESSING } from '../services/audioPreprocessing';
+import { recordToResult, getAudioUrl, fetchStoredAudio, listVersions } from '../services/supabaseService';
+import { getGlossary, subscribeGlossary } from '../services/glossaryService';
+import { getWorkspaceMembers, subscribeWorkspaces } from '../services/workspaceService';
+import { ExportFormat, downloadTranscriptions, exportFormatsFor } from '../services/documentExport';
+import { toSrt, toVtt } from '../utils/subtitles';
+import { toPlainText, getAmharicText, toRomanizedText } from '../utils/exportFormats';
+import { downloadBlob } from '../utils/download';
+import { TRANSLATION_LANGUAGES, getLanguage } from '../utils/languages';
+import { formatClock, hasSpeakers, segmentsToText, syncSegmentsWithText } from '../utils/segments';
+import { AudioEdit, isAudioEdited, renderAudioEdit } from '../utils/audioEdit';
+import { detectAudioFormat } from '../utils/audioFormat';
+import { findGlossaryIssues, replaceTerm } from '../utils/glossary';
+import { fidelToLatin, hasEthiopicNumerals, toArabicDigits, toEthiopicNumerals } from '../utils/ethiopic';
+import { toSnapshot, versionToSnapshot, withModelTranslations } from '../utils/versions';
+import { canEditInWorkspace } from '../utils/review';
+import { ProviderErrorKind, errorKind } from '../services/providerErrors';
+import { getConfig } from '../config';
 import Visualizer from './Visualizer';
+import SyncedTranscript from './SyncedTranscript';
+import SpeakerTranscript from './SpeakerTranscript';
+import WaveformEditor from './WaveformEditor';
+import FidelTextarea from './FidelTextarea';
+import VersionHistory from './VersionHistory';
+import ProjectPicker from './ProjectPicker';
+import TagInput from './TagInput';
+import ReviewPanel from './ReviewPanel';
+import AnalysisPanel from './AnalysisPanel';
+import ErrorNotice from './ErrorNotice';
 
-const TranscriberUI: React.FC = () => {
+interface TranscriberUIProps {
+  openedRecord?: TranscriptionRecord | null;
+  openedJob?: { id: string } | null;
+  onSaved?: (id: string) => void;
+  onActiveJobChange?: (id: string | null) => void;
+  // Workspace chosen in the header; new transcripts are saved there
+  workspaceId: string | null;
+  userId: string;
+}
+
+const DRAFT_SAVE_DELAY_MS = 500;
+
+// Compact, widely supported recording formats, best first; the browser default otherwise
+const RECORDER_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+type TextView = 'text' | 'speakers' | 'synced';
+
+const TEXT_VIEW_LABELS: Record<TextView, string> = { text: 'Text', speakers: 'Speakers', synced: 'Synced' };
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+const { features } = getConfig();
+
+const TranscriberUI: React.FC<TranscriberUIProps> = ({ openedRecord, openedJob, onSaved, onActiveJobChange, workspaceId, userId }) => {
   const [status, setStatus] = useState<TranscriptionStatus>(TranscriptionStatus.IDLE);
   const [result, setResult] = useState<TranscriptionResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setErrorState] = useState<{ message: string; kind?: ProviderErrorKind } | null>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [pendingBlob, setPendingBlob] = useState<Blob | null>(null);
+  // Signed URL for audio kept in Supabase Storage, keyed by its path
+  const [storedAudioUrl, setStoredAudioUrl] = useState<{ path: string; url: string } | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress[]>([]);
+  const [liveMode, setLiveMode] = useState(false);
+  const [liveTranscript, setLiveTranscript] = useState<LiveTranscript | null>(null);
+  const [selectedTargets, setSelectedTargets] = useState<LanguageCode[]>(['en']);
+  const [queueNotice, setQueueNotice] = useState<string | null>(null);
+  const [saveNotice, setSaveNotice] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [textView, setTextView] = useState<TextView>('text');
+  const [audioEdit, setAudioEdit] = useState<AudioEdit | null>(null);
+  const [preprocessing, setPreprocessing] = useState<PreprocessingOptions>(DEFAULT_PREPROCESSING);
+  const [preprocessed, setPreprocessed] = useState<PreprocessingSummary | null>(null);
+  const [glossary, setGlossary] = useState<GlossaryTerm[]>([]);
+  const [latinInput, setLatinInput] = useState(false);
+  const [showRomanized, setShowRomanized] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [versions, setVersions] = useState<TranscriptionVersion[]>([]);
+  // Bumped after each save so the version list picks up the new revision
+  const [versionsKey, setVersionsKey] = useState(0);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaceRole, setWorkspaceRole] = useState<WorkspaceRole | undefined>(undefined);
+  const [analyzing, setAnalyzing] = useState(false);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const liveTranscriberRef = useRef<LiveTranscriber | null>(null);
+  const translationControllerRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Queue jobs this editor is following; read from the queue subscription below
+  const activeJobIdRef = useRef<string | null>(null);
+  const loadedJobIdRef = useRef<string | null>(null);
+  const saveJobIdRef = useRef<string | null>(null);
+  const onSavedRef = useRef(onSaved);
+  onSavedRef.current = onSaved;
+
+  const setError = (message: string | null, kind?: ProviderErrorKind) => {
+    setErrorState(message ? { message, kind } : null);
+  };
+
+  const setActiveJob = (id: string | null) => {
+    activeJobIdRef.current = id;
+    loadedJobIdRef.current = null;
+    setPreprocessed(null);
+    onActiveJobChange?.(id);
+  };
+
+  const applyTranscribeJob = (job: QueuedJob) => {
+    if (job.preprocessed) setPreprocessed(job.preprocessed);
+    switch (job.status) {
+      case TranscriptionStatus.QUEUED:
+      case TranscriptionStatus.TRANSCRIBING:
+        setStatus(TranscriptionStatus.TRANSCRIBING);
+        setChunkProgress(job.progress || []);
+        setQueueNotice(job.status === TranscriptionStatus.QUEUED && job.error
+          ? `${job.error} Retrying automatically${navigator.onLine ? '' : ' once you are back online'}...`
+          : null);
+        break;
+      case TranscriptionStatus.COMPLETED:
+        // Load the transcript once; after that the editor is the source of truth
+        if (loadedJobIdRef.current === job.id || !job.result) break;
+        loadedJobIdRef.current = job.id;
+        setQueueNotice(null);
+        setLiveTranscript(null);
+        setResult({ ...job.result, audioBlob: job.audio });
+        setStatus(TranscriptionStatus.COMPLETED);
+        break;
+      case TranscriptionStatus.ERROR:
+        setQueueNotice(null);
+        setError(job.error || "An error occurred during transcription.", job.errorKind);
+        setStatus(TranscriptionStatus.ERROR);
+        break;
+    }
+  };
+
+  const applySaveJob = (job: QueuedJob) => {
+    switch (job.status) {
+      case TranscriptionStatus.SAVING:
+        setIsSaving(true);
+        break;
+      case TranscriptionStatus.QUEUED:
+        setIsSaving(false);
+        setSaveNotice(job.error ? "Couldn't reach Supabase. Your save is queued and will sync automatically." : null);
+        break;
+      case TranscriptionStatus.SAVED: {
+        saveJobIdRef.current = null;
+        const id = job.result?.id;
+        setIsSaving(false);
+        setSaveNotice(null);
+        setResult(prev => prev ? { ...prev, id, storedAudio: job.result?.storedAudio } : null);
+        if (id) onSavedRef.current?.(id);
+        setVersionsKey(key => key + 1);
+        setSaveSuccess(true);
+        setTimeout(() => setSaveSuccess(false), 3000);
+        break;
+      }
+      case TranscriptionStatus.ERROR:
+        saveJobIdRef.current = null;
+        setIsSaving(false);
+        setSaveNotice(null);
+        setError("Failed to save to Supabase: " + job.error);
+        break;
+    }
+  };
+
+  const detachJobs = () => {
+    // Jobs keep running in the background and stay listed in the queue panel
+    setActiveJob(null);
+    saveJobIdRef.current = null;
+    setQueueNotice(null);
+    setSaveNotice(null);
+  };
+
+  useEffect(() => jobQueue.subscribe(jobs => {
+    const job = jobs.find(j => j.id === activeJobIdRef.current);
+    if (job) applyTranscribeJob(job);
+    const saveJob = jobs.find(j => j.id === saveJobIdRef.current);
+    if (saveJob) applySaveJob(saveJob);
+  }), []);
+
+  // Persist edits to the active job so they survive a reload
+  useEffect(() => {
+    const jobId = activeJobIdRef.current;
+    if (!result || !jobId || loadedJobIdRef.current !== jobId) return;
+    const timer = setTimeout(() => jobQueue.updateResult(jobId, result), DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [result]);
+
+  // Reopen a queued job (e.g. after a reload) in the editor
+  useEffect(() => {
+    const job = openedJob && jobQueue.getJob(openedJob.id);
+    if (!job) return;
+    setActiveJob(job.id);
+    saveJobIdRef.current = null;
+    setResult(null);
+    setError(null);
+    setSaveSuccess(false);
+    setSaveNotice(null);
+    setPendingBlob(job.audio || null);
+    applyTranscribeJob(job);
+  }, [openedJob]);
+
+  // Reopen a saved row from history in the editable panes
+  useEffect(() => {
+    if (!openedRecord) return;
+    detachJobs();
+    const opened = recordToResult(openedRecord);
+    const { storedAudio } = opened;
+    setResult(opened);
+    setPendingBlob(null);
+    setError(null);
+    setSaveSuccess(false);
+    setStatus(TranscriptionStatus.COMPLETED);
+
+    if (!storedAudio) return;
+    let cancelled = false;
+    getAudioUrl(storedAudio.path)
+      .then(url => {
+        if (!cancelled) setStoredAudioUrl({ path: storedAudio.path, url });
+      })
+      .catch(err => console.warn('Could not load stored audio:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [openedRecord]);
+
+  const resultId = result?.id;
+  useEffect(() => {
+    if (!resultId) return;
+    let cancelled = false;
+    listVersions(resultId)
+      .then(loaded => {
+        if (cancelled) return;
+        setVersions(loaded);
+        // Rows opened from history carry their model output only in the version list;
+        // translations added from here on are recorded in it too
+        const model = loaded.find(version => version.kind === 'model');
+        if (model) {
+          setResult(prev => prev && prev.id === resultId && !prev.modelOutput ? { ...prev, modelOutput: versionToSnapshot(model) } : prev);
+        }
+      })
+      .catch(err => console.warn('Could not load versions:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [resultId, versionsKey]);
+
+  const currentSnapshot = useMemo(() => result && toSnapshot(result), [result]);
+  const documentFormats = useMemo(
+    () => result ? exportFormatsFor([result]).filter(({ format }) => format !== 'txt') : [],
+    [result]
+  );
+
   const startRecording = async () => {
+    detachJobs();
     setError(null);
     setResult(null);
     setPendingBlob(null);
     setSaveSuccess(false);
+    setLiveTranscript(liveMode ? { finalText: '', interimText: '' } : null);
     audioChunksRef.current = [];
     try {
-      const mediaStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // Let the browser's own DSP do the first pass; preprocessing refines it later
+      const mediaStream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          channelCount: 1,
+          echoCancellation: true,
+          noiseSuppression: preprocessing.noiseSuppression,
+          autoGainControl: preprocessing.normalize,
+        },
+      });
       setStream(mediaStream);
       
-      const recorder = new MediaRecorder(mediaStream);
+      const mimeType = RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+      const recorder = new MediaRecorder(mediaStream, mimeType ? { mimeType } : undefined);
       mediaRecorderRef.current = recorder;
+      liveTranscriberRef.current = liveMode
+        ? new LiveTranscriber(mediaStream, setLiveTranscript)
+        : null;
 
       recorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
@@ -38,7 +293,10 @@ const TranscriberUI: React.FC = () => {
       };
 
       recorder.onstop = () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+        liveTranscriberRef.current?.stop();
+        liveTranscriberRef.current = null;
+        // Label the recording with what the browser actually produced
+        const audioBlob = new Blob(audioChunksRef.current, { type: recorder.mimeType || mimeType || 'audio/webm' });
         setPendingBlob(audioBlob);
         setStatus(TranscriptionStatus.RECORDED);
       };
@@ -47,6 +305,7 @@ const TranscriberUI: React.FC = () => {
       setStatus(TranscriptionStatus.RECORDING);
     } catch (err) {
       console.error(err);
+      setLiveTranscript(null);
       setError("Microphone access denied or not available.");
       setStatus(TranscriptionStatus.IDLE);
     }
@@ -60,48 +319,113 @@ const TranscriberUI: React.FC = () => {
     }
   };
 
-  const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = (reader.result as string).split(',')[1];
-        resolve(base64String);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
+  // Edits made in the waveform editor belong to the audio they were made on
+  useEffect(() => setAudioEdit(null), [pendingBlob]);
+
+  useEffect(() => subscribeGlossary(setGlossary), []);
+
+  useEffect(() => subscribeWorkspaces(setWorkspaces), []);
+
+  // Transcripts not saved yet go to the header's workspace unless moved elsewhere
+  const targetWorkspaceId = result?.workspaceId !== undefined ? result.workspaceId : workspaceId;
+
+  useEffect(() => {
+    setWorkspaceRole(undefined);
+    if (!targetWorkspaceId) return;
+    let cancelled = false;
+    getWorkspaceMembers(targetWorkspaceId).then(members => {
+      if (!cancelled) setWorkspaceRole(members.find(member => member.user_id === userId)?.role);
     });
-  };
+    return () => {
+      cancelled = true;
+    };
+  }, [targetWorkspaceId, userId, workspaces]);
+
+  // Row level security would reject the save; say so up front
+  const readOnly = !!targetWorkspaceId && workspaceRole !== undefined && !canEditInWorkspace(workspaceRole);
+  // The database only lets owners move a saved workspace transcript elsewhere
+  const lockedInWorkspace = !!result?.id && !!result.workspaceId && workspaceRole !== 'owner';
 
   const handleTranscribeNow = async () => {
     if (!pendingBlob) return;
     
     setStatus(TranscriptionStatus.TRANSCRIBING);
+    setChunkProgress([]);
+    setError(null);
     try {
-      const base64 = await blobToBase64(pendingBlob);
-      const text = await geminiService.transcribeAmharic(base64, pendingBlob.type);
-      setResult({
-        text,
-        timestamp: new Date(),
-        audioBlob: pendingBlob
-      });
-      setStatus(TranscriptionStatus.COMPLETED);
+      // Only the audio left after trimming and cutting is sent; it also becomes the
+      // recording the transcript's timestamps refer to
+      const audio = audioEdit && isAudioEdited(audioEdit) ? await renderAudioEdit(pendingBlob, audioEdit) : pendingBlob;
+      if (audio !== pendingBlob) setPendingBlob(audio);
+
+      // The queue keeps the recording in IndexedDB until it has been transcribed
+      const job = await jobQueue.enqueueTranscription(audio, { preprocessing });
+      setActiveJob(job.id);
+      applyTranscribeJob(jobQueue.getJob(job.id) || job);
     } catch (err: any) {
-      setError(err.message || "An error occurred during transcription.");
+      setError(err.message || "An error occurred during transcription.", errorKind(err));
       setStatus(TranscriptionStatus.ERROR);
     }
   };
 
+  /**
+   * Stops the transcription or translation in progress. A cancelled transcription
+   * stays in the queue panel, where it can be retried.
+   */
+  const handleCancel = () => {
+    if (status === TranscriptionStatus.TRANSLATING) {
+      translationControllerRef.current?.abort();
+      return;
+    }
+    const jobId = activeJobIdRef.current;
+    if (!jobId) return;
+    detachJobs();
+    jobQueue.cancel(jobId);
+    setChunkProgress([]);
+    setStatus(TranscriptionStatus.RECORDED);
+  };
+
+  const translatedLanguages = TRANSLATION_LANGUAGES.filter(language => result?.translations[language.code] !== undefined);
+  const untranslatedLanguages = TRANSLATION_LANGUAGES.filter(language => result?.translations[language.code] === undefined);
+  const pendingTargets = selectedTargets.filter(code => untranslatedLanguages.some(language => language.code === code));
+
   const handleTranslateNow = async () => {
-    if (!result) return;
+    if (!result || pendingTargets.length === 0) return;
     
     setStatus(TranscriptionStatus.TRANSLATING);
+    const controller = new AbortController();
+    translationControllerRef.current = controller;
     try {
-      const translatedText = await geminiService.translateToEnglish(result.text);
-      setResult(prev => prev ? { ...prev, translatedText } : null);
+      const glossary = await getGlossary();
+      // Each pane appears as soon as its translation arrives
+      await Promise.all(pendingTargets.map(async target => {
+        const translatedText = await transcriptionProvider.translate(result.text, target, glossary, { signal: controller.signal });
+        setResult(prev => prev ? withModelTranslations(prev, { [target]: translatedText }) : null);
+      }));
       setStatus(TranscriptionStatus.COMPLETED);
     } catch (err: any) {
-      setError(err.message || "An error occurred during translation.");
+      // Translations that finished before a cancel are kept
+      if (errorKind(err) !== 'cancelled') {
+        setError(err.message || "An error occurred during translation.", errorKind(err));
+      }
       setStatus(TranscriptionStatus.COMPLETED); 
+    } finally {
+      translationControllerRef.current = null;
+    }
+  };
+
+  const handleAnalyze = async () => {
+    if (!result) return;
+
+    setAnalyzing(true);
+    try {
+      const analysis = await transcriptionProvider.analyze(result.text, await getGlossary());
+      // Drop the analysis if another transcript was opened meanwhile
+      setResult(prev => prev && prev.timestamp === result.timestamp ? { ...prev, analysis } : prev);
+    } catch (err: any) {
+      setError(err.message || "An error occurred during analysis.", errorKind(err));
+    } finally {
+      setAnalyzing(false);
     }
   };
 
@@ -109,68 +433,185 @@ const TranscriberUI: React.FC = () => {
     if (!result) return;
     setIsSaving(true);
     setSaveSuccess(false);
+    setSaveNotice(null);
     try {
-      await saveTranscription(result.text, result.translatedText);
-      setSaveSuccess(true);
-      setTimeout(() => setSaveSuccess(false), 3000);
+      const toSave = { ...result, workspaceId: targetWorkspaceId };
+      setResult(prev => prev ? { ...prev, workspaceId: targetWorkspaceId } : null);
+      const job = await jobQueue.enqueueSave(toSave, activeJobIdRef.current || undefined);
+      saveJobIdRef.current = job.id;
+      applySaveJob(jobQueue.getJob(job.id) || job);
     } catch (err: any) {
-      setError("Failed to save to Supabase: " + err.message);
-    } finally {
       setIsSaving(false);
+      setError("Failed to save to Supabase: " + err.message);
     }
   };
 
-  const handleTextChange = (field: 'text' | 'translatedText', value: string) => {
-    setResult(prev => prev ? { ...prev, [field]: value } : null);
+  const handleTextChange = (value: string) => {
+    setResult(prev => prev ? {
+      ...prev,
+      text: value,
+      segments: prev.segments && syncSegmentsWithText(prev.segments, value)
+    } : null);
+  };
+
+  const handleDetailsChange = (details: Pick<TranscriptionResult, 'title' | 'projectId' | 'tags' | 'workspaceId'>) => {
+    setResult(prev => prev ? { ...prev, ...details } : null);
+  };
+
+  // The restored content is saved as a new revision, so no version is ever overwritten
+  const handleRestoreVersion = (version: TranscriptionVersion) => {
+    const { text, translations, segments } = versionToSnapshot(version);
+    setResult(prev => prev ? { ...prev, text, translations, segments } : null);
+  };
+
+  const handleGlossaryFix = (found: string, term: string) => {
+    if (result) handleTextChange(replaceTerm(result.text, found, term));
+  };
+
+  const handleSegmentChange = (index: number, value: string) => {
+    setResult(prev => {
+      if (!prev?.segments) return prev;
+      const segments = prev.segments.map((segment, i) => i === index ? { ...segment, text: value } : segment);
+      return { ...prev, text: segmentsToText(segments), segments };
+    });
+  };
+
+  const handleSegmentsChange = (segments: TranscriptSegment[]) => {
+    setResult(prev => prev ? { ...prev, segments } : null);
+  };
+
+  const handleTranslationChange = (language: LanguageCode, value: string) => {
+    setResult(prev => prev ? { ...prev, translations: { ...prev.translations, [language]: value } } : null);
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const handleRemoveTranslation = (language: LanguageCode) => {
+    setResult(prev => {
+      if (!prev) return null;
+      const { [language]: _removed, ...translations } = prev.translations;
+      return { ...prev, translations };
+    });
+  };
+
+  const toggleTarget = (language: LanguageCode) => {
+    setSelectedTargets(prev => prev.includes(language) ? prev.filter(l => l !== language) : [...prev, language]);
+  };
 
-    if (!file.type.startsWith('audio/')) {
+  const handleFiles = async (files: File[]) => {
+    if (!files.length) return;
+
+    // File.type comes from the extension and is often empty for field recorder files
+    const formats = await Promise.all(files.map(file => file.type.startsWith('audio/') ? null : detectAudioFormat(file)));
+    const audioFiles = files.filter((file, i) => file.type.startsWith('audio/') || formats[i]);
+    if (!audioFiles.length) {
       setError("Please select a valid audio file.");
       return;
     }
 
     setError(null);
-    setPendingBlob(file);
-    setStatus(TranscriptionStatus.RECORDED);
+    if (audioFiles.length === 1) {
+      setPendingBlob(audioFiles[0]);
+      setStatus(TranscriptionStatus.RECORDED);
+      return;
+    }
+
+    // Several files go to the batch dashboard, each as its own queue job
+    const batchId = crypto.randomUUID();
+    await Promise.all(audioFiles.map(file => jobQueue.enqueueTranscription(file, { name: file.name, batchId, preprocessing })));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (audioFiles.length < files.length) {
+      setError(`${files.length - audioFiles.length} non-audio file(s) were skipped.`);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(e.target.files || []));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (status !== TranscriptionStatus.IDLE) return;
+    handleFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const downloadFile = (content: string, mimeType: string, extension: string) => {
+    const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+    downloadBlob(blob, `amharic-transcription-${new Date().getTime()}.${extension}`);
   };
 
   const downloadTranscription = () => {
     if (!result) return;
-    let content = `Original Amharic:\n${result.text}`;
-    if (result.translatedText) {
-      content += `\n\nEnglish Translation:\n${result.translatedText}`;
+    downloadFile(toPlainText(result), 'text/plain', 'txt');
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!result) return;
+    setExporting(format);
+    try {
+      await downloadTranscriptions([result], format);
+    } catch (err: any) {
+      setError("Failed to export: " + err.message);
+    } finally {
+      setExporting(null);
     }
-    
-    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `amharic-transcription-${new Date().getTime()}.txt`;
-    a.click();
-    URL.revokeObjectURL(url);
   };
 
-  const downloadAudio = () => {
-    const blob = result?.audioBlob || pendingBlob;
+  const downloadRomanized = () => {
+    if (!result) return;
+    downloadFile(toRomanizedText(result), 'text/plain', 'romanized.txt');
+  };
+
+  const downloadSubtitles = (format: 'srt' | 'vtt') => {
+    if (!result?.segments?.length) return;
+    if (format === 'srt') {
+      downloadFile(toSrt(result.segments), 'application/x-subrip', 'srt');
+    } else {
+      downloadFile(toVtt(result.segments), 'text/vtt', 'vtt');
+    }
+  };
+
+  const downloadAudio = async () => {
+    let blob = result?.audioBlob || pendingBlob;
+    if (!blob && result?.storedAudio) {
+      try {
+        blob = await fetchStoredAudio(result.storedAudio.path);
+      } catch (err: any) {
+        setError("Failed to download audio: " + err.message);
+        return;
+      }
+    }
     if (!blob) return;
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `amharic-audio-${new Date().getTime()}.${blob.type.split('/')[1] || 'webm'}`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `amharic-audio-${new Date().getTime()}.${blob.type.split('/')[1] || 'webm'}`);
   };
 
+  const localAudio = pendingBlob || result?.audioBlob;
+  const localAudioUrl = useMemo(() => localAudio ? URL.createObjectURL(localAudio) : null, [localAudio]);
+  useEffect(() => () => {
+    if (localAudioUrl) URL.revokeObjectURL(localAudioUrl);
+  }, [localAudioUrl]);
+  const storedPlaybackUrl = storedAudioUrl && result?.storedAudio?.path === storedAudioUrl.path ? storedAudioUrl.url : null;
+  const playbackUrl = localAudioUrl || storedPlaybackUrl;
+  const segmentsInSync = !!result?.segments?.length && segmentsToText(result.segments) === result.text;
+  const textViews: TextView[] = [
+    'text',
+    ...(segmentsInSync && hasSpeakers(result?.segments) ? ['speakers' as const] : []),
+    ...(playbackUrl && result?.segments?.length ? ['synced' as const] : []),
+  ];
+  const activeView = textViews.includes(textView) ? textView : 'text';
+  const glossaryIssues = useMemo(
+    () => result ? findGlossaryIssues(result.text, result.translations, glossary) : [],
+    [result?.text, result?.translations, glossary]
+  );
+
   const reset = () => {
+    detachJobs();
     setStatus(TranscriptionStatus.IDLE);
     setResult(null);
     setPendingBlob(null);
     setError(null);
     setSaveSuccess(false);
+    setChunkProgress([]);
+    setLiveTranscript(null);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
@@ -194,26 +635,47 @@ const TranscriberUI: React.FC = () => {
       <div className="mb-8">
         {status === TranscriptionStatus.RECORDING ? (
           <Visualizer stream={stream} isRecording={true} />
-        ) : (pendingBlob || result?.audioBlob) ? (
-          <div className="p-4 bg-slate-50 rounded-xl border border-slate-100 flex items-center justify-between gap-4 mb-4">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center text-blue-600">
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                  <path d="M18 3a1 1 0 00-1.196-.98l-10 2A1 1 0 006 3v9.113A4.487 4.487 0 004 12c-2.21 0-4 1.79-4 4s1.79 4 4 4 4-1.79 4-4V7.887l8-1.6V9.25a4.5 4.5 0 101 8.75V3z" />
-                </svg>
-              </div>
-              <div>
-                <p className="text-sm font-bold text-slate-700">Audio Ready</p>
-                <p className="text-xs text-slate-500">
-                  {((pendingBlob?.size || result?.audioBlob?.size || 0) / 1024 / 1024).toFixed(2)} MB
-                </p>
+        ) : playbackUrl ? (
+          <>
+            <div className="p-4 bg-slate-50 rounded-xl border border-slate-100 flex items-center justify-between gap-4 mb-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center text-blue-600">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                    <path d="M18 3a1 1 0 00-1.196-.98l-10 2A1 1 0 006 3v9.113A4.487 4.487 0 004 12c-2.21 0-4 1.79-4 4s1.79 4 4 4 4-1.79 4-4V7.887l8-1.6V9.25a4.5 4.5 0 101 8.75V3z" />
+                  </svg>
+                </div>
+                <div>
+                  <p className="text-sm font-bold text-slate-700">Audio Ready</p>
+                  <p className="text-xs text-slate-500">
+                    {preprocessed ? (
+                      <span title={`${preprocessed.originalFormat} → ${preprocessed.processedFormat}`}>
+                        {formatMegabytes(preprocessed.originalSize)} → <span className="font-bold text-emerald-600">{formatMegabytes(preprocessed.processedSize)}</span> {preprocessed.processedFormat}
+                      </span>
+                    ) : localAudio ? formatMegabytes(localAudio.size) : 'Stored in Supabase'}
+                  </p>
+                </div>
               </div>
+              <audio
+                controls
+                src={playbackUrl}
+                className="h-8 max-w-[200px]"
+              />
             </div>
-            <audio controls src={URL.createObjectURL(pendingBlob || result?.audioBlob!)} className="h-8 max-w-[200px]" />
-          </div>
+            {status === TranscriptionStatus.RECORDED && pendingBlob && (
+              <WaveformEditor audio={pendingBlob} edit={audioEdit} onChange={setAudioEdit} />
+            )}
+          </>
         ) : (
-          <div className="h-[100px] bg-slate-50 border-2 border-dashed border-slate-200 rounded-xl flex items-center justify-center text-slate-400 mb-4">
-            Record or upload audio to visualize
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`h-[100px] border-2 border-dashed rounded-xl flex items-center justify-center mb-4 transition-colors ${isDragging ? 'bg-blue-50 border-blue-400 text-blue-600' : 'bg-slate-50 border-slate-200 text-slate-400'}`}
+          >
+            {isDragging ? 'Drop audio files to transcribe' : 'Record, upload or drop audio files here'}
           </div>
         )}
         
@@ -234,6 +696,7 @@ const TranscriberUI: React.FC = () => {
                   <input
                     type="file"
                     accept="audio/*"
+                    multiple
                     onChange={handleFileChange}
                     className="hidden"
                     id="audio-upload"
@@ -249,6 +712,17 @@ const TranscriberUI: React.FC = () => {
                     Upload File
                   </label>
                 </div>
+                {features.liveTranscription && (
+                  <label className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-slate-600 cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={liveMode}
+                      onChange={(e) => setLiveMode(e.target.checked)}
+                      className="w-4 h-4 accent-blue-600"
+                    />
+                    Live transcription
+                  </label>
+                )}
               </>
             )}
 
@@ -277,7 +751,63 @@ const TranscriberUI: React.FC = () => {
               </button>
             )}
 
-            {(status === TranscriptionStatus.TRANSCRIBING || status === TranscriptionStatus.TRANSLATING) && (
+            {(status === TranscriptionStatus.IDLE || status === TranscriptionStatus.RECORDED) && (
+              <div className="w-full flex justify-center gap-2 flex-wrap">
+                {([
+                  ['normalize', 'Normalize loudness'],
+                  ['noiseSuppression', 'Noise suppression'],
+                ] as const).map(([option, label]) => (
+                  <label key={option} className="flex items-center gap-2 px-4 py-1 text-sm font-semibold text-slate-600 cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={preprocessing[option]}
+                      onChange={(e) => setPreprocessing(prev => ({ ...prev, [option]: e.target.checked }))}
+                      className="w-4 h-4 accent-blue-600"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {status === TranscriptionStatus.TRANSCRIBING && chunkProgress.length > 1 && (
+              <div className="w-full py-4">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-bold text-blue-700 text-lg">{transcriptionProvider.label} is transcribing long audio...</span>
+                  <span className="text-sm font-semibold text-slate-500">
+                    {chunkProgress.filter(c => c.status === ChunkStatus.DONE).length} of {chunkProgress.length} parts
+                  </span>
+                </div>
+                <div className="h-2 bg-blue-100 rounded-full overflow-hidden mb-4">
+                  <div
+                    className="h-full bg-blue-600 transition-all duration-500"
+                    style={{ width: `${(chunkProgress.filter(c => c.status === ChunkStatus.DONE).length / chunkProgress.length) * 100}%` }}
+                  />
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {chunkProgress.map(chunk => (
+                    <div
+                      key={chunk.index}
+                      className={`px-3 py-2 rounded-lg text-xs font-semibold border ${
+                        chunk.status === ChunkStatus.DONE ? 'bg-emerald-50 border-emerald-100 text-emerald-700'
+                        : chunk.status === ChunkStatus.FAILED ? 'bg-red-50 border-red-100 text-red-600'
+                        : chunk.status === ChunkStatus.RETRYING ? 'bg-amber-50 border-amber-100 text-amber-700'
+                        : chunk.status === ChunkStatus.TRANSCRIBING ? 'bg-blue-50 border-blue-100 text-blue-700 animate-pulse'
+                        : 'bg-slate-50 border-slate-100 text-slate-400'
+                      }`}
+                    >
+                      <p>Part {chunk.index + 1}</p>
+                      <p className="font-mono text-[10px] opacity-75">
+                        {formatClock(chunk.start)}–{formatClock(chunk.end)}
+                        {chunk.status === ChunkStatus.RETRYING && ` · retry ${chunk.attempt - 1}`}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {((status === TranscriptionStatus.TRANSCRIBING && chunkProgress.length <= 1) || status === TranscriptionStatus.TRANSLATING) && (
               <div className="flex flex-col items-center gap-4 py-4">
                 <div className="relative">
                   <div className="animate-spin rounded-full h-16 w-16 border-4 border-blue-100 border-t-blue-600"></div>
@@ -288,42 +818,130 @@ const TranscriberUI: React.FC = () => {
                   </div>
                 </div>
                 <span className="font-bold text-blue-700 text-lg">
-                  {status === TranscriptionStatus.TRANSCRIBING ? "Gemini is transcribing..." : "Gemini is translating..."}
+                  {transcriptionProvider.label} is {status === TranscriptionStatus.TRANSCRIBING ? "transcribing..." : "translating..."}
                 </span>
+                {queueNotice && status === TranscriptionStatus.TRANSCRIBING && (
+                  <span className="text-sm font-semibold text-amber-600 text-center max-w-md">{queueNotice}</span>
+                )}
               </div>
             )}
+
+            {(status === TranscriptionStatus.TRANSCRIBING || status === TranscriptionStatus.TRANSLATING) && (
+              <button
+                onClick={handleCancel}
+                className="px-6 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded-full transition-colors"
+              >
+                Cancel
+              </button>
+            )}
           </div>
         </div>
       </div>
 
-      {error && (
-        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl text-red-600 text-sm flex items-center gap-2">
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-            <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
-          </svg>
-          <span className="font-semibold">{error}</span>
+      {error && <ErrorNotice message={error.message} kind={error.kind} />}
+
+      {liveTranscript && !result && (
+        <div className="mb-6 p-6 bg-slate-50 border border-slate-200 rounded-3xl shadow-inner">
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+            <span className={`w-2 h-2 rounded-full ${status === TranscriptionStatus.RECORDING ? 'bg-red-500 animate-pulse' : 'bg-blue-500'}`}></span>
+            Live Amharic Preview
+          </h3>
+          <p className="text-slate-800 leading-relaxed text-xl font-medium whitespace-pre-wrap font-serif min-h-[3rem]">
+            {!liveTranscript.finalText && !liveTranscript.interimText && (
+              <span className="text-slate-400 italic text-base">Listening...</span>
+            )}
+            {liveTranscript.finalText}
+            {liveTranscript.interimText && (
+              <span className="text-slate-400 italic"> {liveTranscript.interimText}</span>
+            )}
+          </p>
+          {status !== TranscriptionStatus.RECORDING && (
+            <p className="text-xs text-slate-400 mt-4">Run Transcribe Now for the full, timestamped transcription of the recording.</p>
+          )}
         </div>
       )}
 
       {result && (
         <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Amharic Text - EDITABLE */}
-            <div className="relative group h-full">
+            {/* Amharic Text - EDITABLE, as plain text, by speaker or synced with the audio */}
+            <div className={`relative group h-full ${activeView !== 'text' ? 'md:col-span-2' : ''}`}>
               <div className="p-6 bg-slate-50 border border-slate-200 rounded-3xl min-h-[200px] shadow-inner relative h-full flex flex-col">
                 <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
                   <span className="w-2 h-2 bg-blue-500 rounded-full"></span>
                   Amharic Transcription (Editable)
+                  {textViews.length > 1 && (
+                    <span className="ml-auto mr-10 flex bg-white border border-slate-200 rounded-lg p-0.5 normal-case tracking-normal">
+                      {textViews.map(view => (
+                        <button
+                          key={view}
+                          onClick={() => setTextView(view)}
+                          className={`px-2 py-0.5 rounded-md text-[11px] font-bold transition-colors ${activeView === view ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-blue-600'}`}
+                        >
+                          {TEXT_VIEW_LABELS[view]}
+                        </button>
+                      ))}
+                    </span>
+                  )}
                 </h3>
-                <textarea
-                  value={result.text}
-                  onChange={(e) => handleTextChange('text', e.target.value)}
-                  className="flex-1 w-full bg-transparent text-slate-800 leading-relaxed text-xl font-medium whitespace-pre-wrap font-serif focus:outline-none resize-none"
-                  rows={6}
-                />
+                {activeView === 'speakers' ? (
+                  <SpeakerTranscript segments={result.segments!} onSegmentsChange={handleSegmentsChange} />
+                ) : activeView === 'synced' ? (
+                  <SyncedTranscript
+                    audioUrl={playbackUrl!}
+                    segments={result.segments!}
+                    editable={segmentsInSync}
+                    onSegmentChange={handleSegmentChange}
+                  />
+                ) : (
+                  <>
+                    <FidelTextarea
+                      value={result.text}
+                      onChange={handleTextChange}
+                      latinInput={latinInput}
+                      className="flex-1 w-full bg-transparent text-slate-800 leading-relaxed text-xl font-medium whitespace-pre-wrap font-serif focus:outline-none resize-none"
+                      rows={6}
+                    />
+                    {showRomanized && (
+                      <p className="mt-4 pt-4 border-t border-slate-200 text-slate-500 leading-relaxed whitespace-pre-wrap font-mono text-sm max-h-48 overflow-y-auto">
+                        {fidelToLatin(result.text)}
+                      </p>
+                    )}
+                    <div className="mt-4 flex flex-wrap items-center gap-2 text-[11px] font-bold">
+                      <button
+                        onClick={() => setLatinInput(on => !on)}
+                        title="Type Amharic with Latin letters: selam → ሰላም, n'a → ንኣ, :: → ።"
+                        className={`px-2 py-1 rounded-md border transition-colors ${latinInput ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-200 text-slate-500 hover:text-blue-600'}`}
+                      >
+                        Latin input (SERA)
+                      </button>
+                      <button
+                        onClick={() => setShowRomanized(on => !on)}
+                        className={`px-2 py-1 rounded-md border transition-colors ${showRomanized ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-200 text-slate-500 hover:text-blue-600'}`}
+                      >
+                        Romanized
+                      </button>
+                      <span className="ml-auto text-slate-400 uppercase tracking-widest text-[10px]">Numerals</span>
+                      <button
+                        onClick={() => handleTextChange(toEthiopicNumerals(result.text))}
+                        disabled={!/[1-9]/.test(result.text)}
+                        className="px-2 py-1 rounded-md border bg-white border-slate-200 text-slate-500 hover:text-blue-600 disabled:opacity-40"
+                      >
+                        123 → ፩፪፫
+                      </button>
+                      <button
+                        onClick={() => handleTextChange(toArabicDigits(result.text))}
+                        disabled={!hasEthiopicNumerals(result.text)}
+                        className="px-2 py-1 rounded-md border bg-white border-slate-200 text-slate-500 hover:text-blue-600 disabled:opacity-40"
+                      >
+                        ፩፪፫ → 123
+                      </button>
+                    </div>
+                  </>
+                )}
                 <button
                   onClick={() => {
-                    navigator.clipboard.writeText(result.text);
+                    navigator.clipboard.writeText(getAmharicText(result));
                     alert("Amharic copied!");
                   }}
                   className="absolute top-4 right-4 p-2 bg-white/80 border border-slate-200 rounded-lg text-slate-500 hover:text-blue-600 transition-all shadow-sm"
@@ -335,58 +953,199 @@ const TranscriberUI: React.FC = () => {
               </div>
             </div>
 
-            {/* Translation Text - EDITABLE */}
-            <div className="relative group h-full">
-              <div className={`p-6 border rounded-3xl min-h-[200px] shadow-inner relative h-full flex flex-col ${result.translatedText ? 'bg-indigo-50 border-indigo-100' : 'bg-slate-50 border-dashed border-slate-200'}`}>
-                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
-                  <span className={`w-2 h-2 rounded-full ${result.translatedText ? 'bg-indigo-500' : 'bg-slate-300'}`}></span>
-                  English Translation {result.translatedText && "(Editable)"}
-                </h3>
-                
-                {result.translatedText ? (
-                  <>
-                    <textarea
-                      value={result.translatedText}
-                      onChange={(e) => handleTextChange('translatedText', e.target.value)}
-                      className="flex-1 w-full bg-transparent text-indigo-900 leading-relaxed text-lg font-medium whitespace-pre-wrap focus:outline-none resize-none"
-                      rows={6}
-                    />
+            {/* Translation Texts - EDITABLE, one pane per language */}
+            {translatedLanguages.map(language => (
+              <div key={language.code} className="relative group h-full">
+                <div className="p-6 bg-indigo-50 border border-indigo-100 rounded-3xl min-h-[200px] shadow-inner relative h-full flex flex-col">
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+                    <span className="w-2 h-2 bg-indigo-500 rounded-full"></span>
+                    {language.name} Translation (Editable)
+                  </h3>
+                  <textarea
+                    value={result.translations[language.code]}
+                    onChange={(e) => handleTranslationChange(language.code, e.target.value)}
+                    dir={language.rtl ? 'rtl' : 'ltr'}
+                    className="flex-1 w-full bg-transparent text-indigo-900 leading-relaxed text-lg font-medium whitespace-pre-wrap focus:outline-none resize-none"
+                    rows={6}
+                  />
+                  <div className="absolute top-4 right-4 flex gap-2">
                     <button
                       onClick={() => {
-                        navigator.clipboard.writeText(result.translatedText!);
-                        alert("English copied!");
+                        navigator.clipboard.writeText(result.translations[language.code]!);
+                        alert(`${language.name} copied!`);
                       }}
-                      className="absolute top-4 right-4 p-2 bg-white/80 border border-indigo-200 rounded-lg text-indigo-500 hover:text-indigo-700 transition-all shadow-sm"
+                      className="p-2 bg-white/80 border border-indigo-200 rounded-lg text-indigo-500 hover:text-indigo-700 transition-all shadow-sm"
                     >
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" />
                       </svg>
                     </button>
-                  </>
-                ) : (
+                    <button
+                      onClick={() => handleRemoveTranslation(language.code)}
+                      title={`Remove ${language.name} translation`}
+                      className="p-2 bg-white/80 border border-indigo-200 rounded-lg text-indigo-500 hover:text-red-600 transition-all shadow-sm"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            {/* Target language picker */}
+            {untranslatedLanguages.length > 0 && (
+              <div className="relative group h-full">
+                <div className="p-6 bg-slate-50 border border-dashed border-slate-200 rounded-3xl min-h-[200px] shadow-inner relative h-full flex flex-col">
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+                    <span className="w-2 h-2 bg-slate-300 rounded-full"></span>
+                    {translatedLanguages.length ? 'Add Translations' : 'Translations'}
+                  </h3>
                   <div className="flex-1 flex flex-col items-center justify-center text-center p-4">
+                    <div className="flex flex-wrap justify-center gap-2 mb-6">
+                      {untranslatedLanguages.map(language => (
+                        <button
+                          key={language.code}
+                          onClick={() => toggleTarget(language.code)}
+                          disabled={status === TranscriptionStatus.TRANSLATING}
+                          className={`px-3 py-1.5 rounded-full text-sm font-semibold border transition-all ${selectedTargets.includes(language.code) ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-300'}`}
+                        >
+                          {language.name}
+                          {language.nativeName !== language.name && (
+                            <span className="ml-1 opacity-60 font-normal">{language.nativeName}</span>
+                          )}
+                        </button>
+                      ))}
+                    </div>
                     <button
                       onClick={handleTranslateNow}
-                      disabled={status === TranscriptionStatus.TRANSLATING}
+                      disabled={status === TranscriptionStatus.TRANSLATING || !transcriptionProvider.capabilities.translation || pendingTargets.length === 0}
                       className="flex items-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-bold transition-all shadow-md transform hover:scale-105 active:scale-95 disabled:opacity-50 disabled:transform-none"
                     >
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5h12M9 3v2m1.048 9.5a18.022 18.022 0 01-3.827-2.179M1 18a12.062 12.062 0 011.028-5.418m5.864 5.863a11.963 11.963 0 002.263-6.941V11m0 0l5 5m-5-5L14 3" />
                       </svg>
-                      Translate to English
+                      {pendingTargets.length === 1
+                        ? `Translate to ${getLanguage(pendingTargets[0]).name}`
+                        : `Translate to ${pendingTargets.length} languages`}
                     </button>
-                    <p className="text-xs text-slate-500 mt-4 italic">Convert Amharic text to English instantly</p>
+                    <p className="text-xs text-slate-500 mt-4 italic">
+                      {transcriptionProvider.capabilities.translation
+                        ? "Pick one or more languages to translate the Amharic text into"
+                        : `Translation is not available with the ${transcriptionProvider.label} provider`}
+                    </p>
                   </div>
-                )}
+                </div>
               </div>
-            </div>
+            )}
           </div>
 
+          {features.analysis && (
+            <AnalysisPanel
+              analysis={result.analysis}
+              analyzing={analyzing}
+              available={transcriptionProvider.capabilities.analysis}
+              unavailableReason={`Analysis is not available with the ${transcriptionProvider.label} provider`}
+              onAnalyze={handleAnalyze}
+            />
+          )}
+
+          {/* Terms the glossary pass could not match */}
+          {glossaryIssues.length > 0 && (
+            <div className="p-5 bg-amber-50 border border-amber-200 rounded-2xl">
+              <h4 className="text-xs font-bold text-amber-700 uppercase tracking-widest mb-3">Glossary Check</h4>
+              <ul className="space-y-2">
+                {glossaryIssues.map(issue => (
+                  <li key={`${issue.kind}-${issue.term.id}-${issue.found || ''}`} className="flex items-center gap-3 text-sm text-amber-900">
+                    {issue.kind === 'spelling' ? (
+                      <>
+                        <span className="flex-1">
+                          <span className="font-serif font-semibold">{issue.found}</span> may be a misspelling of{' '}
+                          <span className="font-serif font-semibold">{issue.term.term}</span>
+                        </span>
+                        <button
+                          onClick={() => handleGlossaryFix(issue.found!, issue.term.term)}
+                          className="px-3 py-1 bg-white border border-amber-300 rounded-lg text-xs font-bold text-amber-700 hover:bg-amber-100"
+                        >
+                          Replace
+                        </button>
+                      </>
+                    ) : (
+                      <span className="flex-1">
+                        <span className="font-serif font-semibold">{issue.term.term}</span> should be translated as{' '}
+                        <span className="font-semibold">"{issue.term.english}"</span>, which the English translation does not use
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Versions load after the transcript; skip a list left from the previous one */}
+          {currentSnapshot && versions.length > 0 && versions[0].transcription_id === result.id && (
+            <VersionHistory versions={versions} current={currentSnapshot} onRestore={handleRestoreVersion} />
+          )}
+
+          {result.id && result.workspaceId && (
+            <ReviewPanel
+              transcriptionId={result.id}
+              workspaceId={result.workspaceId}
+              status={result.status ?? 'draft'}
+              assigneeId={result.assigneeId ?? null}
+              userId={userId}
+              onChange={({ status, assigneeId }) => {
+                setResult(prev => prev ? { ...prev, status, assigneeId } : null);
+                // The row changed, so History picks up the new status
+                onSavedRef.current?.(result.id!);
+              }}
+            />
+          )}
+
           {/* CLOUD SAVE BUTTON */}
           <div className="flex flex-col items-center gap-4">
+            <div className="w-full max-w-xl grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="sm:col-span-2">
+                <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 ml-1">Title</label>
+                <input
+                  value={result.title || ''}
+                  onChange={(e) => handleDetailsChange({ title: e.target.value })}
+                  placeholder="Untitled transcription"
+                  className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 ml-1">Workspace</label>
+                <select
+                  value={targetWorkspaceId ?? ''}
+                  onChange={(e) => handleDetailsChange({ workspaceId: e.target.value || null })}
+                  disabled={lockedInWorkspace}
+                  title={lockedInWorkspace ? "Only a workspace owner can move a saved transcript out of the workspace" : undefined}
+                  className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:opacity-60"
+                >
+                  <option value="">Personal (private)</option>
+                  {workspaces.map(workspace => (
+                    <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 ml-1">Project</label>
+                <ProjectPicker
+                  value={result.projectId ?? null}
+                  onChange={(projectId) => handleDetailsChange({ projectId })}
+                  className="w-full"
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 ml-1">Tags</label>
+                <TagInput tags={result.tags || []} onChange={(tags) => handleDetailsChange({ tags })} />
+              </div>
+            </div>
              <button
               onClick={handleSaveToCloud}
-              disabled={isSaving || status === TranscriptionStatus.TRANSLATING}
+              disabled={isSaving || readOnly || analyzing || status === TranscriptionStatus.TRANSLATING}
               className={`w-full max-w-sm flex items-center justify-center gap-3 px-8 py-5 rounded-2xl font-bold transition-all shadow-xl transform active:scale-95 ${saveSuccess ? 'bg-emerald-600 text-white' : 'bg-gradient-to-r from-blue-700 to-indigo-700 hover:from-blue-800 hover:to-indigo-800 text-white'}`}
             >
               {isSaving ? (
@@ -410,7 +1169,13 @@ const TranscriberUI: React.FC = () => {
                 </>
               )}
             </button>
-            <p className="text-xs text-slate-400">Your changes will be synced with your Supabase table</p>
+            {readOnly ? (
+              <p className="text-xs font-semibold text-amber-600">You have view access to this workspace, so changes cannot be saved.</p>
+            ) : saveNotice ? (
+              <p className="text-xs font-semibold text-amber-600">{saveNotice}</p>
+            ) : (
+              <p className="text-xs text-slate-400">Your changes will be synced with your Supabase table</p>
+            )}
           </div>
           
           <div className="bg-gradient-to-br from-slate-50 to-slate-100 p-8 rounded-3xl border border-slate-200">
@@ -434,8 +1199,21 @@ const TranscriberUI: React.FC = () => {
               </button>
               
               <button
-                onClick={downloadAudio}
+                onClick={downloadRomanized}
                 className="flex items-center justify-center gap-3 px-8 py-5 bg-white hover:bg-slate-50 text-slate-800 border-2 border-slate-200 rounded-2xl font-bold transition-all shadow-sm group"
+              >
+                <div className="bg-blue-50 p-2 rounded-lg group-hover:bg-blue-100 transition-colors">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5h12M9 3v2m1.048 9.5a18.022 18.022 0 01-3.827-2.179M1 18a12.062 12.062 0 011.028-5.418m5.864 5.863a11.963 11.963 0 002.263-6.941V11m0 0l5 5m-5-5L14 3" />
+                  </svg>
+                </div>
+                Romanized Text (.txt)
+              </button>
+
+              <button
+                onClick={downloadAudio}
+                disabled={!localAudio && !result.storedAudio}
+                className="flex items-center justify-center gap-3 px-8 py-5 bg-white hover:bg-slate-50 text-slate-800 border-2 border-slate-200 rounded-2xl font-bold transition-all shadow-sm group disabled:opacity-40 disabled:cursor-not-allowed"
               >
                 <div className="bg-blue-50 p-2 rounded-lg group-hover:bg-blue-100 transition-colors">
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -444,7 +1222,53 @@ const TranscriberUI: React.FC = () => {
                 </div>
                 Download Original Audio
               </button>
+
+              <button
+                onClick={() => downloadSubtitles('srt')}
+                disabled={!result.segments?.length}
+                className="flex items-center justify-center gap-3 px-8 py-5 bg-white hover:bg-slate-50 text-slate-800 border-2 border-slate-200 rounded-2xl font-bold transition-all shadow-sm group disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <div className="bg-indigo-50 p-2 rounded-lg group-hover:bg-indigo-100 transition-colors">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-indigo-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z" />
+                  </svg>
+                </div>
+                Subtitles (.srt)
+              </button>
+
+              <button
+                onClick={() => downloadSubtitles('vtt')}
+                disabled={!result.segments?.length}
+                className="flex items-center justify-center gap-3 px-8 py-5 bg-white hover:bg-slate-50 text-slate-800 border-2 border-slate-200 rounded-2xl font-bold transition-all shadow-sm group disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <div className="bg-indigo-50 p-2 rounded-lg group-hover:bg-indigo-100 transition-colors">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-indigo-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z" />
+                  </svg>
+                </div>
+                Subtitles (.vtt)
+              </button>
+            </div>
+            <div className="mt-4 flex flex-wrap items-center justify-center gap-2">
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mr-1">Documents</span>
+              {documentFormats.map(({ format, label, unavailable }) => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={exporting !== null || !!unavailable}
+                  title={unavailable}
+                  className="px-4 py-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 rounded-xl text-sm font-bold transition-all shadow-sm disabled:opacity-50"
+                >
+                  {exporting === format ? 'Exporting...' : `${label} (.${format})`}
+                </button>
+              ))}
             </div>
+            {!result.segments?.length && (
+              <p className="text-xs text-slate-400 mt-4 text-center">Subtitle export needs a timestamped transcription.</p>
+            )}
+            {documentFormats.filter(({ unavailable }) => unavailable).map(({ format, unavailable }) => (
+              <p key={format} className="text-xs text-slate-400 mt-2 text-center">{unavailable}</p>
+            ))}
           </div>
         </div>
       )}
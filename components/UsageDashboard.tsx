@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DailyUsage, UsageQuotaStatus } from '../types';
+import { getDailyUsage, getUsageStatus } from '../services/supabaseService';
+import { subscribeUsage } from '../services/usageService';
+import {
+  USAGE_METRIC_LABELS, USAGE_PERIOD_LABELS, UsageMetric, estimateCost, exceededMetric, formatCost, formatUsage, lastDays, usageLimit,
+} from '../utils/usage';
+
+type ChartMetric = UsageMetric | 'cost';
+
+const RANGES = [7, 30, 90];
+
+const CHART_METRICS: { metric: ChartMetric; label: string }[] = [
+  { metric: 'requests', label: 'Requests' },
+  { metric: 'audio_seconds', label: 'Audio' },
+  { metric: 'tokens', label: 'Tokens' },
+  { metric: 'cost', label: 'Est. cost' },
+];
+
+const chartValue = (row: DailyUsage, metric: ChartMetric): number =>
+  metric === 'cost' ? estimateCost(row) ?? 0
+    : metric === 'tokens' ? Number(row.total_tokens)
+    : Number(row[metric]);
+
+const formatChartValue = (metric: ChartMetric, value: number): string =>
+  metric === 'cost' ? formatCost(value) : formatUsage(metric, value);
+
+/**
+ * The signed-in user's model usage: how much of each quota is left, consumption per
+ * day, and what it would cost at list prices.
+ */
+const UsageDashboard: React.FC = () => {
+  const [statuses, setStatuses] = useState<UsageQuotaStatus[]>([]);
+  const [daily, setDaily] = useState<DailyUsage[]>([]);
+  const [days, setDays] = useState(30);
+  const [metric, setMetric] = useState<ChartMetric>('requests');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => subscribeUsage(() => setReloadKey(key => key + 1)), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    Promise.all([getUsageStatus(), getDailyUsage(days)])
+      .then(([loadedStatuses, loadedDaily]) => {
+        if (cancelled) return;
+        setStatuses(loadedStatuses);
+        setDaily(loadedDaily);
+      })
+      .catch(err => {
+        if (!cancelled) setError("Failed to load usage: " + err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [days, reloadKey]);
+
+  const series = useMemo(() => {
+    const totals = new Map<string, number>();
+    for (const row of daily) totals.set(row.day, (totals.get(row.day) || 0) + chartValue(row, metric));
+    return lastDays(days).map(day => ({ day, value: totals.get(day) || 0 }));
+  }, [daily, days, metric]);
+
+  const peak = Math.max(...series.map(point => point.value));
+
+  const byModel = useMemo(() => {
+    const models = new Map<string, DailyUsage>();
+    for (const row of daily) {
+      const total = models.get(row.model);
+      models.set(row.model, total ? {
+        ...total,
+        requests: Number(total.requests) + Number(row.requests),
+        audio_seconds: Number(total.audio_seconds) + Number(row.audio_seconds),
+        prompt_tokens: Number(total.prompt_tokens) + Number(row.prompt_tokens),
+        output_tokens: Number(total.output_tokens) + Number(row.output_tokens),
+        total_tokens: Number(total.total_tokens) + Number(row.total_tokens),
+      } : row);
+    }
+    return [...models.values()];
+  }, [daily]);
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white rounded-3xl shadow-xl border border-slate-100 p-8 space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Usage</h2>
+          <p className="text-sm text-slate-500">
+            Requests, audio and tokens used by your transcriptions, translations and analyses. Quotas reset at midnight UTC.
+          </p>
+        </div>
+        <div className="flex bg-slate-100 rounded-lg p-1">
+          {RANGES.map(range => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`px-3 py-1 rounded-md text-sm font-bold transition-all ${days === range ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-800'}`}
+            >
+              {range} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="p-3 bg-red-50 border border-red-200 rounded-xl text-sm font-semibold text-red-600">{error}</p>}
+
+      {/* Quotas for the current day and month */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {statuses.map(status => {
+          const exceeded = exceededMetric(status);
+          return (
+            <div key={status.period} className={`p-5 rounded-2xl border ${exceeded ? 'bg-red-50 border-red-200' : 'bg-slate-50 border-slate-200'}`}>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">{USAGE_PERIOD_LABELS[status.period]} quota</h3>
+                <span className="text-[11px] font-semibold text-slate-400">Resets {new Date(status.resets_at).toLocaleString()}</span>
+              </div>
+              <div className="space-y-3">
+                {(Object.keys(USAGE_METRIC_LABELS) as UsageMetric[]).map(key => {
+                  const used = Number(status[key]);
+                  const limit = usageLimit(status, key);
+                  const share = limit ? Math.min(1, used / Number(limit)) : 0;
+                  return (
+                    <div key={key}>
+                      <div className="flex justify-between text-xs font-semibold text-slate-600 mb-1">
+                        <span>{USAGE_METRIC_LABELS[key]}</span>
+                        <span>
+                          {formatUsage(key, used)}
+                          {limit !== null ? ` of ${formatUsage(key, Number(limit))}` : ' (unlimited)'}
+                        </span>
+                      </div>
+                      <div className="h-2 bg-white border border-slate-200 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full rounded-full ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-amber-500' : 'bg-blue-500'}`}
+                          style={{ width: `${share * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {exceeded && (
+                <p className="mt-4 text-xs font-semibold text-red-600">
+                  {USAGE_METRIC_LABELS[exceeded]} quota used up. New requests are blocked until it resets.
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Consumption per day */}
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Per day</h3>
+          <div className="flex gap-1">
+            {CHART_METRICS.map(option => (
+              <button
+                key={option.metric}
+                onClick={() => setMetric(option.metric)}
+                className={`px-2 py-1 rounded-md text-xs font-bold border transition-colors ${metric === option.metric ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-200 text-slate-500 hover:text-blue-600'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className={`h-40 flex items-end gap-px border-b border-slate-200 ${loading ? 'opacity-50' : ''}`}>
+          {series.map(point => (
+            <div
+              key={point.day}
+              title={`${point.day}: ${formatChartValue(metric, point.value)}`}
+              className="flex-1 bg-blue-500 hover:bg-blue-700 rounded-t-sm transition-colors"
+              style={{ height: peak > 0 ? `${(point.value / peak) * 100}%` : 0, minHeight: point.value > 0 ? 2 : 0 }}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between mt-1 text-[10px] font-semibold text-slate-400">
+          <span>{series[0]?.day}</span>
+          <span>Peak {formatChartValue(metric, peak)}</span>
+          <span>{series[series.length - 1]?.day}</span>
+        </div>
+      </div>
+
+      {/* Totals for the range, per model */}
+      <div>
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-3">Last {days} days by model</h3>
+        {byModel.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">{loading ? 'Loading...' : 'No usage in this period.'}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-[10px] font-bold text-slate-400 uppercase tracking-widest border-b border-slate-200">
+                <th className="py-2">Model</th>
+                <th className="py-2 text-right">Requests</th>
+                <th className="py-2 text-right">Audio</th>
+                <th className="py-2 text-right">Input tokens</th>
+                <th className="py-2 text-right">Output tokens</th>
+                <th className="py-2 text-right">Est. cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {byModel.map(row => {
+                const cost = estimateCost(row);
+                return (
+                  <tr key={row.model} className="border-b border-slate-100 text-slate-700">
+                    <td className="py-2 font-mono text-xs">{row.model}</td>
+                    <td className="py-2 text-right">{formatUsage('requests', Number(row.requests))}</td>
+                    <td className="py-2 text-right">{formatUsage('audio_seconds', Number(row.audio_seconds))}</td>
+                    <td className="py-2 text-right">{formatUsage('tokens', Number(row.prompt_tokens))}</td>
+                    <td className="py-2 text-right">{formatUsage('tokens', Number(row.output_tokens))}</td>
+                    <td className="py-2 text-right font-semibold">{cost === undefined ? '—' : formatCost(cost)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        <p className="mt-3 text-[11px] text-slate-400">
+          Costs are estimates at list prices per token and do not include the higher rate for audio input.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { TranscriptSnapshot, TranscriptionVersion, LanguageCode } from '../types';
+import { TRANSLATION_LANGUAGES, getLanguage } from '../utils/languages';
+import { diffStats, diffWords } from '../utils/diff';
+import { versionLabel, versionToSnapshot } from '../utils/versions';
+
+interface VersionHistoryProps {
+  versions: TranscriptionVersion[];
+  // What is in the editor now, saved or not
+  current: TranscriptSnapshot;
+  onRestore: (version: TranscriptionVersion) => void;
+}
+
+const CURRENT = 'current';
+
+// 'text' for the Amharic transcript, otherwise a translation language
+type DiffField = 'text' | LanguageCode;
+
+const fieldText = (snapshot: TranscriptSnapshot, field: DiffField) =>
+  field === 'text' ? snapshot.text : snapshot.translations[field] ?? '';
+
+const changedShare = (stats: { removed: number; unchanged: number }) => {
+  const words = stats.removed + stats.unchanged;
+  return words ? Math.round((stats.removed / words) * 100) : 0;
+};
+
+/**
+ * Saved versions of a transcript with a word-level diff between any two of them.
+ */
+const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, current, onRestore }) => {
+  const [baseId, setBaseId] = useState('');
+  const [compareId, setCompareId] = useState(CURRENT);
+  const [field, setField] = useState<DiffField>('text');
+
+  // Compare the oldest version (the model output when there is one) with the editor by default
+  useEffect(() => {
+    if (!versions.some(version => version.id === baseId)) setBaseId(versions[0]?.id || '');
+    if (compareId !== CURRENT && !versions.some(version => version.id === compareId)) setCompareId(CURRENT);
+  }, [versions]);
+
+  const snapshotOf = (id: string) => {
+    if (id === CURRENT) return current;
+    const version = versions.find(v => v.id === id);
+    return version && versionToSnapshot(version);
+  };
+  const base = snapshotOf(baseId);
+  const compare = snapshotOf(compareId);
+
+  const fields: DiffField[] = ['text', ...TRANSLATION_LANGUAGES
+    .map(language => language.code)
+    .filter(code => base?.translations[code] !== undefined || compare?.translations[code] !== undefined)];
+
+  const before = base ? fieldText(base, field) : '';
+  const after = compare ? fieldText(compare, field) : '';
+  const parts = useMemo(() => diffWords(before, after), [before, after]);
+  const stats = diffStats(parts);
+
+  // How much of the oldest version's Amharic text each later version changed
+  const original = versions[0];
+  const corrections = useMemo(() => new Map(versions.slice(1).map(version => [
+    version.id,
+    changedShare(diffStats(diffWords(versions[0].amharic_text, version.amharic_text))),
+  ])), [versions]);
+
+  if (!versions.length) return null;
+
+  const selectClass = "px-2 py-1 bg-white border border-slate-200 rounded-lg text-xs font-semibold text-slate-600";
+
+  return (
+    <div className="p-5 bg-white border border-slate-200 rounded-2xl shadow-sm">
+      <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-3">Version History</h4>
+
+      <ul className="space-y-1 mb-4">
+        {versions.map(version => (
+          <li key={version.id} className="flex items-center gap-3 text-sm">
+            <span className="font-semibold text-slate-700">{versionLabel(version, versions)}</span>
+            <span className="text-xs text-slate-400">{new Date(version.created_at).toLocaleString()}</span>
+            {version !== original && (
+              <span className="text-xs text-slate-500">{corrections.get(version.id)}% of words changed</span>
+            )}
+            <button
+              onClick={() => onRestore(version)}
+              className="ml-auto px-3 py-1 text-xs font-bold text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            >
+              Restore
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-slate-500">
+        <select value={baseId} onChange={(e) => setBaseId(e.target.value)} className={selectClass}>
+          {versions.map(version => (
+            <option key={version.id} value={version.id}>{versionLabel(version, versions)}</option>
+          ))}
+        </select>
+        <span>→</span>
+        <select value={compareId} onChange={(e) => setCompareId(e.target.value)} className={selectClass}>
+          {versions.map(version => (
+            <option key={version.id} value={version.id}>{versionLabel(version, versions)}</option>
+          ))}
+          <option value={CURRENT}>Editor</option>
+        </select>
+        <select value={field} onChange={(e) => setField(e.target.value as DiffField)} className={selectClass}>
+          {fields.map(code => (
+            <option key={code} value={code}>{code === 'text' ? 'Amharic' : getLanguage(code).name}</option>
+          ))}
+        </select>
+        <span className="ml-auto">
+          <span className="text-emerald-700 font-bold">+{stats.added}</span>{' '}
+          <span className="text-red-600 font-bold">−{stats.removed}</span> words
+          {' · '}{changedShare(stats)}% changed
+        </span>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto p-3 bg-slate-50 rounded-xl text-sm font-serif leading-relaxed whitespace-pre-wrap">
+        {parts.map((part, i) => part.kind === 'equal' ? (
+          <span key={i}>{part.text}</span>
+        ) : part.kind === 'added' ? (
+          <ins key={i} className="bg-emerald-100 text-emerald-900 no-underline rounded-sm">{part.text}</ins>
+        ) : (
+          <del key={i} className="bg-red-100 text-red-800 rounded-sm">{part.text}</del>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistory;
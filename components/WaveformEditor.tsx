@@ -0,0 +1,280 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { decodeToMono, SPEECH_SAMPLE_RATE } from '../utils/audio';
+import {
+  AudioEdit,
+  TimeRange,
+  createAudioEdit,
+  normalizeRange,
+  getKeptRanges,
+  getKeptDuration,
+  detectSpeechBounds,
+  computePeaks,
+} from '../utils/audioEdit';
+import { formatClock } from '../utils/segments';
+
+interface WaveformEditorProps {
+  audio: Blob;
+  edit: AudioEdit | null;
+  onChange: (edit: AudioEdit) => void;
+}
+
+const PEAK_BUCKETS = 600;
+// Drags shorter than this fraction of the width count as a click that moves the playhead
+const CLICK_TOLERANCE = 0.005;
+
+const rangeStyle = (range: TimeRange, duration: number): React.CSSProperties => ({
+  left: `${(range.start / duration) * 100}%`,
+  width: `${((range.end - range.start) / duration) * 100}%`,
+});
+
+/**
+ * Waveform of a recording or upload where the user trims, cuts out sections and picks
+ * regions to transcribe. The edit is only described here; TranscriberUI renders it.
+ */
+const WaveformEditor: React.FC<WaveformEditorProps> = ({ audio, edit, onChange }) => {
+  const [samples, setSamples] = useState<Float32Array | null>(null);
+  const [decodeError, setDecodeError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<TimeRange | null>(null);
+  const [playhead, setPlayhead] = useState(0);
+  const [playback, setPlayback] = useState<'original' | 'selection' | 'preview' | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const dragStartRef = useRef<number | null>(null);
+  const frameRef = useRef<number | undefined>(undefined);
+  const editRef = useRef(edit);
+  editRef.current = edit;
+
+  const audioUrl = useMemo(() => URL.createObjectURL(audio), [audio]);
+  useEffect(() => () => URL.revokeObjectURL(audioUrl), [audioUrl]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSamples(null);
+    setDecodeError(null);
+    setSelection(null);
+    decodeToMono(audio)
+      .then(decoded => {
+        if (cancelled) return;
+        setSamples(decoded);
+        // Keep an edit the parent still holds for this audio, e.g. after a remount
+        const duration = decoded.length / SPEECH_SAMPLE_RATE;
+        if (editRef.current?.duration !== duration) onChange(createAudioEdit(duration));
+      })
+      .catch(() => {
+        if (!cancelled) setDecodeError("This audio format can't be edited in the browser; it will be sent as it is.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [audio]);
+
+  const peaks = useMemo(() => samples && computePeaks(samples, PEAK_BUCKETS), [samples]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !peaks) return;
+    const loudest = peaks.reduce((max, peak) => Math.max(max, peak), 0) || 1;
+    const barWidth = canvas.width / peaks.length;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#2563eb';
+    peaks.forEach((peak, i) => {
+      const height = Math.max(1, (peak / loudest) * canvas.height);
+      ctx.fillRect(i * barWidth, (canvas.height - height) / 2, Math.max(1, barWidth - 1), height);
+    });
+    // The canvas only mounts once the edit exists
+  }, [peaks, !!edit]);
+
+  useEffect(() => () => {
+    if (frameRef.current) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  if (decodeError) {
+    return <p className="text-xs text-amber-600 font-semibold mb-4">{decodeError}</p>;
+  }
+
+  if (!samples || !edit) {
+    return <p className="text-xs text-slate-400 font-semibold mb-4 animate-pulse">Loading waveform...</p>;
+  }
+
+  const { duration } = edit;
+  const keptRanges = getKeptRanges(edit);
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const stop = () => {
+    audioRef.current?.pause();
+    if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    setPlayback(null);
+  };
+
+  // Follows the audio every frame: moves the playhead, skips removed parts while
+  // previewing and stops at the end of the selection
+  const track = (mode: 'original' | 'selection' | 'preview', stopAt: number) => {
+    const player = audioRef.current;
+    if (!player) return;
+    let time = player.currentTime;
+    if (mode === 'preview') {
+      const inside = keptRanges.some(range => time >= range.start && time < range.end);
+      if (!inside) {
+        const next = keptRanges.find(range => range.start > time);
+        if (!next) return stop();
+        player.currentTime = time = next.start;
+      }
+    }
+    setPlayhead(time);
+    if (time >= stopAt || player.ended) return stop();
+    frameRef.current = requestAnimationFrame(() => track(mode, stopAt));
+  };
+
+  const play = (mode: 'original' | 'selection' | 'preview') => {
+    const player = audioRef.current;
+    if (!player) return;
+    if (playback) return stop();
+    const from = mode === 'selection' && selection ? selection.start
+      : mode === 'preview' ? keptRanges[0]?.start ?? 0
+      : playhead;
+    const stopAt = mode === 'selection' && selection ? selection.end : duration;
+    player.currentTime = from;
+    player.play().then(() => {
+      setPlayback(mode);
+      track(mode, stopAt);
+    }).catch(() => setPlayback(null));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const time = timeAt(e.clientX);
+    dragStartRef.current = time;
+    setSelection({ start: time, end: time });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStartRef.current === null) return;
+    setSelection(normalizeRange(dragStartRef.current, timeAt(e.clientX)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current;
+    dragStartRef.current = null;
+    if (start === null) return;
+    const time = timeAt(e.clientX);
+    if (Math.abs(time - start) < duration * CLICK_TOLERANCE) {
+      setSelection(null);
+      setPlayhead(time);
+      if (audioRef.current) audioRef.current.currentTime = time;
+    }
+  };
+
+  const applySelection = (change: (range: TimeRange) => Partial<AudioEdit>) => {
+    if (!selection) return;
+    onChange({ ...edit, ...change(selection) });
+    setSelection(null);
+  };
+
+  const removeAt = (key: 'cuts' | 'regions', index: number) => {
+    onChange({ ...edit, [key]: edit[key].filter((_, i) => i !== index) });
+  };
+
+  const trimmed = edit.trim.start > 0 || edit.trim.end < duration;
+  const buttonClass = 'px-3 py-1.5 text-xs font-bold rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="p-4 bg-slate-50 rounded-xl border border-slate-100 mb-4">
+      <audio ref={audioRef} src={audioUrl} className="hidden" />
+
+      <div
+        ref={trackRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className="relative h-24 bg-white rounded-lg border border-slate-200 overflow-hidden cursor-crosshair select-none touch-none"
+      >
+        <canvas ref={canvasRef} width={PEAK_BUCKETS * 2} height={96} className="absolute inset-0 w-full h-full" />
+        {/* Trimmed away */}
+        <div className="absolute inset-y-0 bg-slate-900/20" style={rangeStyle({ start: 0, end: edit.trim.start }, duration)} />
+        <div className="absolute inset-y-0 bg-slate-900/20" style={rangeStyle({ start: edit.trim.end, end: duration }, duration)} />
+        {edit.regions.map((region, i) => (
+          <div key={`region-${i}`} className="absolute inset-y-0 bg-emerald-400/25 border-x-2 border-emerald-500" style={rangeStyle(region, duration)} />
+        ))}
+        {edit.cuts.map((cut, i) => (
+          <div key={`cut-${i}`} className="absolute inset-y-0 bg-red-500/30 border-x-2 border-red-500" style={rangeStyle(cut, duration)} />
+        ))}
+        {selection && selection.end > selection.start && (
+          <div className="absolute inset-y-0 bg-blue-500/25 border-x border-blue-600" style={rangeStyle(selection, duration)} />
+        )}
+        <div className="absolute inset-y-0 w-px bg-slate-900" style={{ left: `${(playhead / duration) * 100}%` }} />
+      </div>
+
+      <div className="flex justify-between text-[10px] font-mono text-slate-400 mt-1">
+        <span>{formatClock(playhead)}</span>
+        {selection && selection.end > selection.start && (
+          <span className="text-blue-600">Selected {formatClock(selection.start)}–{formatClock(selection.end)}</span>
+        )}
+        <span>{formatClock(duration)}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        <button onClick={() => play('original')} className={`${buttonClass} bg-slate-900 text-white hover:bg-black`}>
+          {playback ? 'Stop' : 'Play'}
+        </button>
+        <button onClick={() => play('selection')} disabled={!selection || !!playback} className={`${buttonClass} bg-white border border-slate-200 text-slate-700 hover:border-blue-300`}>
+          Play selection
+        </button>
+        <button onClick={() => play('preview')} disabled={!!playback || !keptRanges.length} className={`${buttonClass} bg-white border border-slate-200 text-slate-700 hover:border-blue-300`}>
+          Preview result
+        </button>
+        <span className="w-px bg-slate-200 mx-1" />
+        <button onClick={() => onChange({ ...edit, trim: detectSpeechBounds(samples) })} className={`${buttonClass} bg-white border border-slate-200 text-slate-700 hover:border-blue-300`}>
+          Trim silence
+        </button>
+        <button onClick={() => applySelection(range => ({ trim: range }))} disabled={!selection} className={`${buttonClass} bg-white border border-slate-200 text-slate-700 hover:border-blue-300`}>
+          Trim to selection
+        </button>
+        <button onClick={() => applySelection(range => ({ cuts: [...edit.cuts, range] }))} disabled={!selection} className={`${buttonClass} bg-red-50 border border-red-100 text-red-600 hover:bg-red-100`}>
+          Cut selection
+        </button>
+        <button onClick={() => applySelection(range => ({ regions: [...edit.regions, range] }))} disabled={!selection} className={`${buttonClass} bg-emerald-50 border border-emerald-100 text-emerald-700 hover:bg-emerald-100`}>
+          Add region
+        </button>
+        <button onClick={() => onChange(createAudioEdit(duration))} className={`${buttonClass} text-slate-500 hover:bg-slate-100`}>
+          Reset
+        </button>
+      </div>
+
+      {(trimmed || edit.cuts.length > 0 || edit.regions.length > 0) && (
+        <div className="flex flex-wrap gap-2 mt-3 text-[11px] font-semibold">
+          {trimmed && (
+            <span className="px-2 py-0.5 rounded-md bg-slate-200 text-slate-600">
+              Trimmed to {formatClock(edit.trim.start)}–{formatClock(edit.trim.end)}
+            </span>
+          )}
+          {edit.regions.map((region, i) => (
+            <span key={`region-${i}`} className="px-2 py-0.5 rounded-md bg-emerald-100 text-emerald-700">
+              Region {formatClock(region.start)}–{formatClock(region.end)}
+              <button onClick={() => removeAt('regions', i)} className="ml-1 hover:text-emerald-900">×</button>
+            </span>
+          ))}
+          {edit.cuts.map((cut, i) => (
+            <span key={`cut-${i}`} className="px-2 py-0.5 rounded-md bg-red-100 text-red-600">
+              Cut {formatClock(cut.start)}–{formatClock(cut.end)}
+              <button onClick={() => removeAt('cuts', i)} className="ml-1 hover:text-red-800">×</button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-slate-500 mt-3">
+        Drag across the waveform to select. {edit.regions.length > 0 ? 'Only the green regions' : 'Everything not trimmed or cut'} will be transcribed:
+        <span className="font-bold text-slate-700"> {formatClock(getKeptDuration(edit))} of {formatClock(duration)}</span>
+      </p>
+    </div>
+  );
+};
+
+export default WaveformEditor;
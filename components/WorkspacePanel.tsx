@@ -0,0 +1,359 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityEntry, ReviewStatus, Workspace, WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from '../types';
+import {
+  acceptInvitation,
+  createWorkspace,
+  deleteInvitation,
+  deleteWorkspace,
+  inviteToWorkspace,
+  listActivity,
+  listInvitations,
+  listWorkspaceMembers,
+  removeWorkspaceMember,
+  renameWorkspace,
+  updateMemberRole,
+} from '../services/supabaseService';
+import { refreshWorkspaces, subscribeWorkspaces } from '../services/workspaceService';
+import { REVIEW_STATUS_LABELS, WORKSPACE_ROLES } from '../utils/review';
+
+interface WorkspacePanelProps {
+  workspaceId: string | null;
+  userId: string;
+  onWorkspaceChange: (workspaceId: string | null) => void;
+}
+
+const roleLabel = (role: WorkspaceRole) => WORKSPACE_ROLES.find(r => r.role === role)!.label;
+
+const statusLabel = (status?: string) => REVIEW_STATUS_LABELS[status as ReviewStatus] ?? status;
+
+// Read after the actor's email, e.g. "amina@example.com approved ..."
+const describeActivity = ({ action, details, actor_email }: ActivityEntry): string => {
+  const title = details.title ? `"${details.title}"` : 'a transcript';
+  switch (action) {
+    case 'transcription_added': return `added ${title}`;
+    case 'transcription_edited': return `edited ${title}`;
+    case 'transcription_deleted': return `deleted ${title}`;
+    case 'status_changed': return `moved ${title} from ${statusLabel(details.from)} to ${statusLabel(details.to)}`;
+    case 'assigned': return details.assignee ? `assigned ${title} to ${details.assignee}` : `unassigned ${title}`;
+    case 'member_invited': return `invited ${details.email} as ${details.role && roleLabel(details.role)}`;
+    case 'member_joined': return `joined as ${details.role && roleLabel(details.role)}`;
+    case 'member_removed': return details.email === actor_email ? 'left the workspace' : `removed ${details.email}`;
+    case 'role_changed': return `changed ${details.email} from ${roleLabel(details.from as WorkspaceRole)} to ${roleLabel(details.to as WorkspaceRole)}`;
+  }
+};
+
+const fieldClass = "px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none";
+const sectionTitle = "text-xs font-bold text-slate-400 uppercase tracking-widest mb-3";
+
+/**
+ * Team workspaces: invitations waiting for the user, creating a workspace, and for the
+ * active one its members, invitations and activity feed.
+ */
+const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ workspaceId, userId, onWorkspaceChange }) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [myInvitations, setMyInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [newName, setNewName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeWorkspaces(setWorkspaces), []);
+
+  const workspace = workspaces.find(w => w.id === workspaceId);
+  const myRole = members.find(member => member.user_id === userId)?.role;
+  const isOwner = myRole === 'owner';
+
+  const loadMine = useCallback(() => {
+    listInvitations().then(setMyInvitations).catch(err => setError("Failed to load invitations: " + err.message));
+  }, []);
+
+  const loadWorkspace = useCallback(async () => {
+    if (!workspaceId) return;
+    try {
+      const loaded = await listWorkspaceMembers(workspaceId);
+      setMembers(loaded);
+      setActivity(await listActivity(workspaceId));
+      // Only owners can see the invitations that are still open
+      const owner = loaded.some(member => member.user_id === userId && member.role === 'owner');
+      setInvitations(owner ? await listInvitations(workspaceId) : []);
+    } catch (err: any) {
+      setError("Failed to load workspace: " + err.message);
+    }
+  }, [workspaceId, userId]);
+
+  useEffect(loadMine, [loadMine]);
+
+  useEffect(() => {
+    setMembers([]);
+    setInvitations([]);
+    setActivity([]);
+    loadWorkspace();
+  }, [loadWorkspace]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(`${failure}: ${err.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    run(async () => {
+      const created = await createWorkspace(name);
+      await refreshWorkspaces();
+      setNewName('');
+      onWorkspaceChange(created.id);
+    }, "Failed to create workspace");
+  };
+
+  const handleAccept = (invitation: WorkspaceInvitation) => run(async () => {
+    const joined = await acceptInvitation(invitation.id);
+    await refreshWorkspaces();
+    loadMine();
+    onWorkspaceChange(joined);
+  }, "Failed to accept invitation");
+
+  const handleDecline = (invitation: WorkspaceInvitation) => run(async () => {
+    await deleteInvitation(invitation.id);
+    loadMine();
+  }, "Failed to decline invitation");
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workspaceId || !inviteEmail.trim()) return;
+    run(async () => {
+      await inviteToWorkspace(workspaceId, inviteEmail, inviteRole);
+      setInviteEmail('');
+      await loadWorkspace();
+    }, "Failed to invite");
+  };
+
+  const handleRevoke = (invitation: WorkspaceInvitation) => run(async () => {
+    await deleteInvitation(invitation.id);
+    await loadWorkspace();
+  }, "Failed to revoke invitation");
+
+  const handleRoleChange = (member: WorkspaceMember, role: WorkspaceRole) => run(async () => {
+    await updateMemberRole(member.workspace_id, member.user_id, role);
+    await refreshWorkspaces();
+    await loadWorkspace();
+  }, "Failed to change role");
+
+  const handleRemove = (member: WorkspaceMember) => {
+    const leaving = member.user_id === userId;
+    if (!confirm(leaving ? `Leave ${workspace?.name}?` : `Remove ${member.email} from ${workspace?.name}?`)) return;
+    run(async () => {
+      await removeWorkspaceMember(member.workspace_id, member.user_id);
+      await refreshWorkspaces();
+      if (leaving) onWorkspaceChange(null);
+      else await loadWorkspace();
+    }, leaving ? "Failed to leave workspace" : "Failed to remove member");
+  };
+
+  const handleRename = () => {
+    if (!workspace) return;
+    const name = prompt('Rename workspace', workspace.name)?.trim();
+    if (!name || name === workspace.name) return;
+    run(async () => {
+      await renameWorkspace(workspace.id, name);
+      await refreshWorkspaces();
+    }, "Failed to rename workspace");
+  };
+
+  const handleDelete = () => {
+    if (!workspace) return;
+    if (!confirm(`Delete ${workspace.name}? Its transcripts go back to the members who saved them.`)) return;
+    run(async () => {
+      await deleteWorkspace(workspace.id);
+      await refreshWorkspaces();
+      onWorkspaceChange(null);
+    }, "Failed to delete workspace");
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-100 text-red-600 text-sm rounded-lg font-medium">
+          {error}
+        </div>
+      )}
+
+      {myInvitations.length > 0 && (
+        <div className="p-6 bg-blue-50 rounded-2xl border border-blue-200">
+          <h3 className={sectionTitle}>Invitations</h3>
+          <ul className="space-y-2">
+            {myInvitations.map(invitation => (
+              <li key={invitation.id} className="flex items-center gap-3 text-sm">
+                <span className="flex-1">
+                  Join <span className="font-bold">{invitation.workspaces?.name ?? 'a workspace'}</span> as {roleLabel(invitation.role).toLowerCase()}
+                </span>
+                <button
+                  onClick={() => handleAccept(invitation)}
+                  disabled={busy}
+                  className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-xs font-bold disabled:opacity-50"
+                >
+                  Accept
+                </button>
+                <button
+                  onClick={() => handleDecline(invitation)}
+                  disabled={busy}
+                  className="px-3 py-1 text-xs font-bold text-slate-500 hover:text-red-600 disabled:opacity-50"
+                >
+                  Decline
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="p-6 bg-white rounded-2xl shadow-xl border border-slate-200">
+        <h3 className={sectionTitle}>New workspace</h3>
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Team or client name"
+            className={`${fieldClass} flex-1`}
+          />
+          <button
+            type="submit"
+            disabled={busy || !newName.trim()}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold transition-colors disabled:opacity-50"
+          >
+            Create
+          </button>
+        </form>
+        {!workspace && (
+          <p className="mt-3 text-xs text-slate-400">
+            {workspaces.length ? 'Choose a workspace in the header to manage its members.' : 'You are not in any workspace yet; your transcripts are private.'}
+          </p>
+        )}
+      </div>
+
+      {workspace && (
+        <div className="p-6 bg-white rounded-2xl shadow-xl border border-slate-200">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">{workspace.name}</h2>
+              {myRole && <p className="text-slate-500 text-sm">You are {roleLabel(myRole).toLowerCase()}</p>}
+            </div>
+            {isOwner && (
+              <div className="flex gap-2 text-xs">
+                <button onClick={handleRename} className="px-2 py-1 font-bold text-slate-500 hover:text-blue-600">Rename</button>
+                <button onClick={handleDelete} className="px-2 py-1 font-bold text-slate-500 hover:text-red-600">Delete</button>
+              </div>
+            )}
+          </div>
+
+          <h3 className={sectionTitle}>Members</h3>
+          <ul className="space-y-2 mb-6">
+            {members.map(member => (
+              <li key={member.user_id} className="flex items-center gap-3 text-sm">
+                <span className="flex-1 font-medium text-slate-700">
+                  {member.email}{member.user_id === userId && <span className="text-slate-400"> (you)</span>}
+                </span>
+                {isOwner ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => handleRoleChange(member, e.target.value as WorkspaceRole)}
+                    disabled={busy}
+                    className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs font-semibold text-slate-600"
+                  >
+                    {WORKSPACE_ROLES.map(({ role, label }) => <option key={role} value={role}>{label}</option>)}
+                  </select>
+                ) : (
+                  <span className="text-xs font-semibold text-slate-500">{roleLabel(member.role)}</span>
+                )}
+                {(isOwner || member.user_id === userId) && (
+                  <button
+                    onClick={() => handleRemove(member)}
+                    disabled={busy}
+                    className="px-2 py-1 text-xs font-bold text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                  >
+                    {member.user_id === userId ? 'Leave' : 'Remove'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {isOwner && (
+            <>
+              <h3 className={sectionTitle}>Invite</h3>
+              <form onSubmit={handleInvite} className="flex flex-wrap gap-2 mb-2">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="colleague@example.com"
+                  className={`${fieldClass} flex-1 min-w-[12rem]`}
+                />
+                <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)} className={fieldClass}>
+                  {WORKSPACE_ROLES.map(({ role, label }) => <option key={role} value={role}>{label}</option>)}
+                </select>
+                <button
+                  type="submit"
+                  disabled={busy || !inviteEmail.trim()}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold transition-colors disabled:opacity-50"
+                >
+                  Invite
+                </button>
+              </form>
+              <p className="text-xs text-slate-400 mb-4">
+                {WORKSPACE_ROLES.find(r => r.role === inviteRole)!.description}. The invitation appears here for them once they sign in with this email address.
+              </p>
+              {invitations.length > 0 && (
+                <ul className="space-y-1 mb-6">
+                  {invitations.map(invitation => (
+                    <li key={invitation.id} className="flex items-center gap-3 text-sm text-slate-500">
+                      <span className="flex-1">{invitation.email} · {roleLabel(invitation.role)} · pending</span>
+                      <button
+                        onClick={() => handleRevoke(invitation)}
+                        disabled={busy}
+                        className="px-2 py-1 text-xs font-bold text-slate-400 hover:text-red-600 disabled:opacity-50"
+                      >
+                        Revoke
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+
+          <div className="flex items-center justify-between mb-3">
+            <h3 className={`${sectionTitle} mb-0`}>Activity</h3>
+            <button onClick={loadWorkspace} className="text-xs font-bold text-slate-400 hover:text-blue-600">Refresh</button>
+          </div>
+          {activity.length === 0 ? (
+            <p className="text-sm text-slate-400">No activity yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {activity.map(entry => (
+                <li key={entry.id} className="text-sm text-slate-700">
+                  <span className="font-semibold">{entry.actor_email ?? 'Someone'}</span> {describeActivity(entry)}
+                  <span className="block text-[11px] text-slate-400">{new Date(entry.created_at).toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspacePanel;
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ConfigError, readConfig } from './config';
+
+const hosted = {
+  VITE_SUPABASE_URL: 'https://project.supabase.co',
+  VITE_SUPABASE_ANON_KEY: 'anon-key',
+};
+
+const problems = (env: Record<string, string>) => {
+  try {
+    readConfig(env);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigError);
+    return (error as ConfigError).problems;
+  }
+  throw new Error('readConfig accepted the configuration');
+};
+
+describe('readConfig', () => {
+  it('fills in defaults for a hosted project', () => {
+    expect(readConfig(hosted)).toEqual({
+      supabase: { url: 'https://project.supabase.co', anonKey: 'anon-key', local: false },
+      provider: 'gemini',
+      gemini: { model: 'gemini-3-flash-preview' },
+      whisper: undefined,
+      features: { liveTranscription: true, analysis: true, usageDashboard: true },
+    });
+  });
+
+  it('falls back to the local stack when VITE_SUPABASE_LOCAL is set', () => {
+    const config = readConfig({ VITE_SUPABASE_LOCAL: 'yes' });
+    expect(config.supabase).toMatchObject({ url: 'http://127.0.0.1:54321', local: true });
+    expect(config.supabase.anonKey).not.toBe('');
+  });
+
+  it('reads flags and the Whisper settings', () => {
+    const config = readConfig({
+      ...hosted,
+      VITE_TRANSCRIPTION_PROVIDER: 'whisper',
+      VITE_WHISPER_API_URL: ' http://localhost:9000/v1 ',
+      VITE_WHISPER_MODEL: 'large-v3',
+      VITE_FEATURE_ANALYSIS: 'FALSE',
+      VITE_FEATURE_USAGE_DASHBOARD: '0',
+    });
+    expect(config.whisper).toEqual({ url: 'http://localhost:9000/v1', apiKey: undefined, model: 'large-v3' });
+    expect(config.features).toEqual({ liveTranscription: true, analysis: false, usageDashboard: false });
+  });
+
+  it('lists every problem at once', () => {
+    expect(problems({
+      VITE_SUPABASE_URL: 'ftp://project',
+      VITE_TRANSCRIPTION_PROVIDER: 'openai',
+      VITE_FEATURE_ANALYSIS: 'maybe',
+    })).toEqual([
+      'VITE_SUPABASE_URL must be an http(s) URL, not "ftp://project".',
+      'VITE_SUPABASE_ANON_KEY is not set.',
+      'VITE_TRANSCRIPTION_PROVIDER must be one of gemini, mock, whisper, not "openai".',
+      'VITE_FEATURE_ANALYSIS must be true or false, not "maybe".',
+    ]);
+  });
+
+  it('requires the Whisper URL for the whisper provider', () => {
+    expect(problems({ ...hosted, VITE_TRANSCRIPTION_PROVIDER: 'whisper', VITE_SUPABASE_URL: ' ' })).toEqual([
+      'VITE_SUPABASE_URL is not set.',
+      'VITE_WHISPER_API_URL is not set.',
+    ]);
+  });
+});
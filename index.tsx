@@ -1,7 +1,7 @@
-
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import App from './App';
+import { ConfigError, getConfig } from './config';
+import ConfigErrorScreen from './components/ConfigErrorScreen';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +9,25 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+
+// Checked before the app is loaded, because its services connect as soon as they are imported
+let problems: string[] = [];
+try {
+  getConfig();
+} catch (error) {
+  if (!(error instanceof ConfigError)) throw error;
+  console.error(error.message);
+  problems = error.problems;
+}
+
+if (problems.length) {
+  root.render(<ConfigErrorScreen problems={problems} />);
+} else {
+  import('./App').then(({ default: App }) => {
+    root.render(
+      <React.StrictMode>
+        <App />
+      </React.StrictMode>
+    );
+  });
+}
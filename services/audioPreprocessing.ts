@@ -0,0 +1,56 @@
+import { PreprocessingOptions, PreprocessingSummary } from "../types";
+import { decodeToMono, encodeWav, normalizeLoudness, reduceNoise } from "../utils/audio";
+import { detectAudioFormat, describeAudioFormat } from "../utils/audioFormat";
+import { encodeOggOpus } from "../utils/oggOpus";
+
+export const DEFAULT_PREPROCESSING: PreprocessingOptions = {
+  normalize: true,
+  noiseSuppression: false,
+};
+
+export interface PreprocessedAudio {
+  blob: Blob;
+  summary: PreprocessingSummary;
+}
+
+/**
+ * Prepares audio for upload: decodes it to 16 kHz mono, optionally suppresses noise and
+ * normalizes loudness, then re-encodes it as Ogg Opus (WAV where the browser lacks an
+ * Opus encoder). Audio the browser cannot decode is passed through, labelled with its
+ * real format; so is the original when re-encoding alone would not make it smaller.
+ */
+export async function preprocessAudio(blob: Blob, options: PreprocessingOptions): Promise<PreprocessedAudio> {
+  const format = await detectAudioFormat(blob);
+  const original = format && blob.type !== format.mimeType ? new Blob([blob], { type: format.mimeType }) : blob;
+  const originalFormat = describeAudioFormat(format, blob.type);
+  const passThrough = (): PreprocessedAudio => ({
+    blob: original,
+    summary: { originalSize: blob.size, originalFormat, processedSize: original.size, processedFormat: originalFormat },
+  });
+
+  let samples: Float32Array;
+  try {
+    samples = await decodeToMono(original);
+  } catch (error) {
+    console.warn("Could not decode audio for preprocessing:", error);
+    return passThrough();
+  }
+
+  if (options.noiseSuppression) reduceNoise(samples);
+  if (options.normalize) normalizeLoudness(samples);
+
+  const opus = await encodeOggOpus(samples);
+  const processed = opus || encodeWav(samples);
+  const filtered = options.noiseSuppression || options.normalize;
+  if (!filtered && processed.size >= original.size) return passThrough();
+
+  return {
+    blob: processed,
+    summary: {
+      originalSize: blob.size,
+      originalFormat,
+      processedSize: processed.size,
+      processedFormat: opus ? 'Ogg / Opus' : 'WAV / PCM',
+    },
+  };
+}
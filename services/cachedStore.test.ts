@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createCachedStore } from './cachedStore';
+
+describe('createCachedStore', () => {
+  it('loads once until refreshed and notifies subscribers', async () => {
+    let version = 0;
+    const load = vi.fn(async () => [++version]);
+    const store = createCachedStore(load, 'numbers');
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    expect(await store.get()).toEqual([1]);
+    expect(await store.get()).toEqual([1]);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenLastCalledWith([1]);
+
+    await store.refresh();
+    expect(listener).toHaveBeenLastCalledWith([2]);
+
+    unsubscribe();
+    await store.refresh();
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('resolves to an empty list when loading fails and tries again next time', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const load = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValueOnce(['term']);
+    const store = createCachedStore<string>(load, 'glossary');
+
+    expect(await store.get()).toEqual([]);
+    expect(warn).toHaveBeenCalledWith('Could not load glossary:', expect.any(Error));
+    expect(await store.get()).toEqual(['term']);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,45 @@
+export interface CachedStore<T> {
+  get: () => Promise<T[]>;
+  refresh: () => Promise<void>;
+  subscribe: (listener: (items: T[]) => void) => () => void;
+}
+
+/**
+ * A list loaded once and shared by every caller until it is refreshed. Resolves to an
+ * empty list when it cannot be loaded (e.g. offline) and loads again on the next call,
+ * so a missing list never blocks the caller. `name` labels the warning.
+ */
+export const createCachedStore = <T>(load: () => Promise<T[]>, name: string): CachedStore<T> => {
+  let cached: Promise<T[]> | null = null;
+  const listeners = new Set<(items: T[]) => void>();
+
+  const get = (): Promise<T[]> => {
+    if (!cached) {
+      cached = load().catch(error => {
+        console.warn(`Could not load ${name}:`, error);
+        cached = null;
+        return [];
+      });
+    }
+    return cached;
+  };
+
+  // Drops the cached list, loads it again and notifies subscribers
+  const refresh = async () => {
+    cached = null;
+    const items = await get();
+    listeners.forEach(listener => listener(items));
+  };
+
+  const subscribe = (listener: (items: T[]) => void): (() => void) => {
+    listeners.add(listener);
+    get().then(items => {
+      if (listeners.has(listener)) listener(items);
+    });
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { get, refresh, subscribe };
+};
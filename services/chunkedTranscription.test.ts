@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { planChunks, stitch, transcribeLongAudio } from './chunkedTranscription';
+import { transcriptionProvider } from './transcriptionProvider';
+import { decodeToMono } from '../utils/audio';
+import { ChunkStatus } from '../types';
+
+vi.mock('./transcriptionProvider', () => ({ transcriptionProvider: { transcribeAmharic: vi.fn() } }));
+vi.mock('./glossaryService', () => ({ getGlossary: async () => [] }));
+vi.mock('../utils/oggOpus', () => ({ encodeOggOpus: async () => null }));
+vi.mock('../utils/audio', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/audio')>()),
+  decodeToMono: vi.fn(),
+  blobToBase64: async () => 'AAAA',
+}));
+
+// A low rate keeps long recordings small; 50 ms frames are five samples
+const RATE = 100;
+
+// Steady noise with silent gaps (in seconds) where the planner should cut
+const recording = (seconds: number, gaps: number[] = []) => {
+  const samples = new Float32Array(seconds * RATE).map((_, i) => (i % 2 ? 0.5 : -0.5));
+  for (const gap of gaps) samples.fill(0, (gap - 0.1) * RATE, (gap + 0.1) * RATE);
+  return samples;
+};
+
+describe('planChunks', () => {
+  it('keeps a short recording in one chunk', () => {
+    expect(planChunks(recording(60), RATE)).toEqual([{ index: 0, start: 0, end: 60, ownStart: 0, ownEnd: 60 }]);
+  });
+
+  it('cuts long recordings at the quietest point near each boundary, with overlap', () => {
+    const chunks = planChunks(recording(400, [170, 345]), RATE);
+    expect(chunks).toHaveLength(3);
+    expect(chunks.map(chunk => chunk.ownStart)).toEqual([0, expect.closeTo(170, 0), expect.closeTo(345, 0)]);
+    expect(chunks[2].ownEnd).toBe(400);
+    chunks.slice(1).forEach((chunk, i) => {
+      expect(chunk.ownStart).toBe(chunks[i].ownEnd);
+      expect(chunk.start).toBeCloseTo(chunk.ownStart - 2);
+      expect(chunks[i].end).toBeCloseTo(chunks[i].ownEnd + 2);
+    });
+  });
+});
+
+describe('stitch', () => {
+  const chunks = [
+    { index: 0, start: 0, end: 102, ownStart: 0, ownEnd: 100 },
+    { index: 1, start: 98, end: 202, ownStart: 100, ownEnd: 200 },
+    { index: 2, start: 198, end: 250, ownStart: 200, ownEnd: 250 },
+  ];
+
+  it('moves segments onto the full timeline and keeps each overlap once', () => {
+    const output = stitch(chunks, [
+      { text: '', segments: [{ start: 0, end: 5, text: 'a' }, { start: 97, end: 101, text: 'b' }] },
+      { text: '', segments: [{ start: 0, end: 3, text: 'b' }, { start: 10, end: 20, text: 'c' }] },
+      { text: '', segments: [{ start: 0, end: 3, text: 'c' }, { start: 10, end: 52, text: 'd' }] },
+    ]);
+    expect(output.segments).toEqual([
+      { start: 0, end: 5, text: 'a' },
+      { start: 97, end: 101, text: 'b' },
+      { start: 108, end: 118, text: 'c' },
+      // The last chunk also keeps what runs past its end
+      { start: 208, end: 250, text: 'd' },
+    ]);
+    expect(output.text).toBe('a\nb\nc\nd');
+  });
+
+  it('skips silent chunks without losing the timing of the others', () => {
+    const output = stitch(chunks, [
+      { text: '', segments: [{ start: 0, end: 5, text: 'a' }] },
+      { text: '', segments: [] },
+      { text: '', segments: [{ start: 10, end: 20, text: 'd' }] },
+    ]);
+    expect(output.segments).toEqual([{ start: 0, end: 5, text: 'a' }, { start: 208, end: 218, text: 'd' }]);
+  });
+
+  it('falls back to joining the text when a chunk has no timing', () => {
+    const output = stitch(chunks, [
+      { text: 'a', segments: [{ start: 0, end: 5, text: 'a' }] },
+      { text: '  ', segments: [] },
+      { text: 'untimed', segments: [] },
+    ]);
+    expect(output).toEqual({ text: 'a\nuntimed', segments: [] });
+  });
+});
+
+describe('transcribeLongAudio', () => {
+  const transcribe = vi.mocked(transcriptionProvider.transcribeAmharic);
+
+  beforeEach(() => {
+    transcribe.mockReset();
+    vi.mocked(decodeToMono).mockResolvedValue(new Float32Array(16000 * 10));
+  });
+
+  it('sends a short recording as it is and reports progress', async () => {
+    const output = { text: 'ሰላም', segments: [{ start: 0, end: 2, text: 'ሰላም' }] };
+    transcribe.mockResolvedValue(output);
+    const onProgress = vi.fn();
+    const audio = new Blob(['audio'], { type: 'audio/webm' });
+
+    expect(await transcribeLongAudio(audio, onProgress)).toEqual(output);
+    expect(transcribe).toHaveBeenCalledWith('AAAA', 'audio/webm', [], expect.any(Object));
+    expect(onProgress.mock.calls.at(-1)![0]).toMatchObject([{ status: ChunkStatus.DONE }]);
+  });
+
+  it('reports a recording without speech as an empty result', async () => {
+    transcribe.mockResolvedValue({ text: '', segments: [] });
+    await expect(transcribeLongAudio(new Blob(['audio']), () => {})).rejects.toMatchObject({ kind: 'empty_result' });
+  });
+});
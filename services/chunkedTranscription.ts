@@ -0,0 +1,181 @@
+import { transcriptionProvider } from "./transcriptionProvider";
+import { getGlossary } from "./glossaryService";
+import { ProviderError, throwIfCancelled } from "./providerErrors";
+import { ChunkProgress, ChunkStatus, TranscriptionOutput, TranscriptSegment } from "../types";
+import { blobToBase64, decodeToMono, encodeWav, findQuietestPoint, SPEECH_SAMPLE_RATE } from "../utils/audio";
+import { encodeOggOpus } from "../utils/oggOpus";
+import { applyGlossary } from "../utils/glossary";
+
+const TARGET_CHUNK_SECONDS = 180;
+const SILENCE_SEARCH_SECONDS = 20;
+const OVERLAP_SECONDS = 2;
+const MAX_CONCURRENCY = 3;
+
+export interface AudioChunk {
+  index: number;
+  // Range sent to the model, including the overlap on both sides
+  start: number;
+  end: number;
+  // Range this chunk is responsible for when stitching
+  ownStart: number;
+  ownEnd: number;
+}
+
+/**
+ * Splits audio into ~TARGET_CHUNK_SECONDS chunks, cutting at the quietest point
+ * near each boundary so words are not split, with OVERLAP_SECONDS of context on each side.
+ */
+export const planChunks = (samples: Float32Array, sampleRate = SPEECH_SAMPLE_RATE): AudioChunk[] => {
+  const duration = samples.length / sampleRate;
+  const cuts = [0];
+
+  while (duration - cuts[cuts.length - 1] > TARGET_CHUNK_SECONDS + SILENCE_SEARCH_SECONDS) {
+    const target = cuts[cuts.length - 1] + TARGET_CHUNK_SECONDS;
+    cuts.push(findQuietestPoint(samples, target - SILENCE_SEARCH_SECONDS, target + SILENCE_SEARCH_SECONDS, sampleRate));
+  }
+  cuts.push(duration);
+
+  return cuts.slice(0, -1).map((ownStart, index) => {
+    const ownEnd = cuts[index + 1];
+    return {
+      index,
+      start: Math.max(0, ownStart - OVERLAP_SECONDS),
+      end: Math.min(duration, ownEnd + OVERLAP_SECONDS),
+      ownStart,
+      ownEnd,
+    };
+  });
+};
+
+/**
+ * Shifts each chunk's segments onto the full recording's timeline and drops the
+ * ones whose midpoint falls in a neighbour's part of the overlap. Chunks in which
+ * nothing was recognised (e.g. silence) are left out.
+ */
+export const stitch = (chunks: AudioChunk[], outputs: TranscriptionOutput[]): TranscriptionOutput => {
+  const spoken = chunks
+    .map((chunk, i) => ({ chunk, output: outputs[i], isLast: i === chunks.length - 1 }))
+    .filter(({ output }) => output.segments.length > 0 || output.text.trim());
+
+  if (spoken.some(({ output }) => output.segments.length === 0)) {
+    // Without timing there is no way to locate the overlap, so keep every chunk's text
+    return { text: spoken.map(({ output }) => output.text).join("\n"), segments: [] };
+  }
+
+  const segments: TranscriptSegment[] = [];
+  spoken.forEach(({ chunk, output, isLast }) => {
+    for (const segment of output.segments) {
+      const start = segment.start + chunk.start;
+      const end = segment.end + chunk.start;
+      const midpoint = (start + end) / 2;
+      if (midpoint >= chunk.ownStart && (isLast || midpoint < chunk.ownEnd)) {
+        segments.push({ ...segment, start, end });
+      }
+    }
+  });
+
+  return { text: segments.map(s => s.text).join("\n"), segments };
+};
+
+/**
+ * Transcribes audio of any length. Long recordings are split at silence into
+ * overlapping chunks that are transcribed in parallel (the provider retries transient
+ * failures) and stitched back together, then the user's glossary corrects known misspellings.
+ * `onProgress` receives a fresh snapshot whenever a chunk changes state; aborting `signal`
+ * stops every chunk and rejects with a cancelled ProviderError.
+ */
+export async function transcribeLongAudio(
+  blob: Blob,
+  onProgress: (chunks: ChunkProgress[]) => void,
+  signal?: AbortSignal
+): Promise<TranscriptionOutput> {
+  let samples: Float32Array | null = null;
+  try {
+    samples = await decodeToMono(blob);
+  } catch (error) {
+    // Formats the browser cannot decode still go to the provider as a single request
+    console.warn("Could not decode audio for chunking:", error);
+  }
+
+  const chunks = samples
+    ? planChunks(samples)
+    : [{ index: 0, start: 0, end: 0, ownStart: 0, ownEnd: Infinity }];
+
+  const progress: ChunkProgress[] = chunks.map(chunk => ({
+    index: chunk.index,
+    start: chunk.start,
+    end: chunk.end,
+    status: ChunkStatus.PENDING,
+    attempt: 0,
+  }));
+  const update = (index: number, changes: Partial<ChunkProgress>) => {
+    progress[index] = { ...progress[index], ...changes };
+    onProgress([...progress]);
+  };
+  onProgress([...progress]);
+
+  const glossary = await getGlossary();
+  throwIfCancelled(signal);
+
+  const transcribeChunk = async (chunk: AudioChunk): Promise<TranscriptionOutput> => {
+    // A single chunk is the whole recording, so send the original file untouched
+    let audio = blob;
+    if (chunks.length > 1) {
+      const chunkSamples = samples!.subarray(
+        Math.floor(chunk.start * SPEECH_SAMPLE_RATE),
+        Math.floor(chunk.end * SPEECH_SAMPLE_RATE)
+      );
+      audio = (await encodeOggOpus(chunkSamples)) || encodeWav(chunkSamples);
+    }
+    const base64 = await blobToBase64(audio);
+
+    update(chunk.index, { status: ChunkStatus.TRANSCRIBING, attempt: 1 });
+    try {
+      const output = await transcriptionProvider.transcribeAmharic(base64, audio.type, glossary, {
+        signal,
+        onRetry: attempt => update(chunk.index, { status: ChunkStatus.RETRYING, attempt }),
+      });
+      update(chunk.index, { status: ChunkStatus.DONE });
+      return output;
+    } catch (error) {
+      update(chunk.index, { status: ChunkStatus.FAILED });
+      throw error;
+    }
+  };
+
+  const outputs: TranscriptionOutput[] = new Array(chunks.length);
+  let nextChunk = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && nextChunk < chunks.length) {
+      const chunk = chunks[nextChunk++];
+      try {
+        outputs[chunk.index] = await transcribeChunk(chunk);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENCY, chunks.length) }, worker));
+  } catch (error) {
+    // Classified failures already say what went wrong and what to do about it
+    if (error instanceof ProviderError && error.kind !== 'unknown') throw error;
+    const failedChunk = progress.find(p => p.status === ChunkStatus.FAILED);
+    throw new ProviderError(
+      'unknown',
+      chunks.length > 1 && failedChunk
+        ? `Failed to transcribe part ${failedChunk.index + 1} of ${chunks.length}. Please try again.`
+        : "Failed to transcribe audio. Please try again."
+    );
+  }
+
+  const output = chunks.length === 1 ? outputs[0] : stitch(chunks, outputs);
+  if (!output.text.trim()) {
+    throw new ProviderError('empty_result', "No speech was recognised in this recording.");
+  }
+  return applyGlossary(output, glossary);
+}
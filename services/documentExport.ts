@@ -0,0 +1,82 @@
+import notoSansEthiopicUrl from "@fontsource/noto-sans-ethiopic/files/noto-sans-ethiopic-ethiopic-400-normal.woff?url";
+import notoSansUrl from "@fontsource/noto-sans/files/noto-sans-latin-400-normal.woff?url";
+import { TranscriptionResult } from "../types";
+import { toDocumentBlocks, toJsonExport, toMarkdown, toPlainText } from "../utils/exportFormats";
+import { toDocx } from "../utils/docx";
+import { parseTrueType, toPdf, TrueTypeFont, unpackWoff } from "../utils/pdf";
+import { downloadBlob } from "../utils/download";
+import { TRANSLATION_LANGUAGES } from "../utils/languages";
+
+export type ExportFormat = 'txt' | 'docx' | 'pdf' | 'md' | 'json';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'txt', label: 'Text' },
+  { format: 'docx', label: 'Word' },
+  { format: 'pdf', label: 'PDF' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+];
+
+/**
+ * The export formats for a set of transcripts, with the reason a format cannot be used.
+ * The PDF writer draws characters one by one and cannot shape Arabic, so PDF is
+ * unavailable when any transcript has a right-to-left translation.
+ */
+export const exportFormatsFor = (results: TranscriptionResult[]): { format: ExportFormat; label: string; unavailable?: string }[] => {
+  const rightToLeft = TRANSLATION_LANGUAGES.filter(language =>
+    language.rtl && results.some(result => result.translations[language.code]?.trim())
+  );
+  if (!rightToLeft.length) return EXPORT_FORMATS;
+  const unavailable = `PDF export cannot lay out ${rightToLeft.map(language => language.name).join(' or ')} text. Use Word or JSON for transcripts with that translation.`;
+  return EXPORT_FORMATS.map(entry => entry.format === 'pdf' ? { ...entry, unavailable } : entry);
+};
+
+// Embedded in PDFs in this order: Fidel first, then Latin for everything it lacks.
+// The Ethiopic and Latin subsets are bundled with the app and fetched from it on first use.
+const PDF_FONTS = [
+  { name: 'NotoSansEthiopic-Regular', url: notoSansEthiopicUrl },
+  { name: 'NotoSans-Regular', url: notoSansUrl },
+];
+
+let pdfFonts: Promise<TrueTypeFont[]> | null = null;
+
+const loadPdfFonts = (): Promise<TrueTypeFont[]> => {
+  if (!pdfFonts) {
+    pdfFonts = Promise.all(PDF_FONTS.map(async ({ name, url }) => {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Could not load the ${name} font (${response.status}).`);
+      return parseTrueType(await unpackWoff(await response.arrayBuffer()), name);
+    })).catch(error => {
+      // Let the next export try again
+      pdfFonts = null;
+      throw error;
+    });
+  }
+  return pdfFonts;
+};
+
+/**
+ * Renders one or more transcripts as a single document. Several transcripts become
+ * sections of one file (an array in JSON), each starting on a new page.
+ */
+export async function exportTranscriptions(results: TranscriptionResult[], format: ExportFormat): Promise<Blob> {
+  const unavailable = exportFormatsFor(results).find(entry => entry.format === format)?.unavailable;
+  if (unavailable) throw new Error(unavailable);
+  switch (format) {
+    case 'docx':
+      return toDocx(toDocumentBlocks(results));
+    case 'pdf':
+      return toPdf(toDocumentBlocks(results), await loadPdfFonts());
+    case 'md':
+      return new Blob([toMarkdown(results)], { type: 'text/markdown;charset=utf-8' });
+    case 'json':
+      return new Blob([toJsonExport(results)], { type: 'application/json' });
+    case 'txt':
+      return new Blob([results.map(toPlainText).join('\n\n----------------------------------------\n\n')], { type: 'text/plain;charset=utf-8' });
+  }
+}
+
+export async function downloadTranscriptions(results: TranscriptionResult[], format: ExportFormat, baseName = 'amharic-transcription') {
+  const blob = await exportTranscriptions(results, format);
+  downloadBlob(blob, `${baseName}-${new Date().getTime()}.${format}`);
+}
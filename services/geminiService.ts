@@ -1,73 +1,164 @@
-import { GoogleGenAI } from "@google/genai";
-import { AudioPart } from "../types";
+import { FunctionsFetchError, FunctionsRelayError } from "@supabase/supabase-js";
+import { TranscriptionOutput, TranscriptSegment, TranscriptionProvider, ProviderCapabilities, LanguageCode, GlossaryTerm, TranscriptAnalysis, UsageOperation, RequestOptions } from "../types";
+import { normalizeAnalysis } from "../utils/analysis";
+import { FunctionCallError, invokeFunction } from "./supabaseService";
+import { UsageQuotaError, notifyUsage } from "./usageService";
+import { ProviderError, ProviderErrorKind, cancelledError, withRetry } from "./providerErrors";
+import { getConfig } from "../config";
 
-export class GeminiTranscriptionService {
-  private ai: GoogleGenAI;
+// Edge Function in supabase/functions/gemini that holds the API key
+const PROXY_FUNCTION = 'gemini';
 
-  constructor() {
-    // Fix: Using process.env.API_KEY directly as required by the library guidelines
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+// Gemini's limit for a request with inline audio
+const MAX_INLINE_AUDIO_BYTES = 20 * 1024 * 1024;
+
+// The proxy's error codes that map directly onto an error kind
+const PROXY_ERROR_KINDS: Record<string, ProviderErrorKind> = {
+  unauthorized: 'auth',
+  rate_limited: 'rate_limit',
+  payload_too_large: 'payload_too_large',
+  safety_blocked: 'safety_blocked',
+  empty_result: 'empty_result',
+  model_unavailable: 'unavailable',
+};
+
+/**
+ * Classifies a failed proxy call. The proxy's own refusals keep its message;
+ * anything else gets `failure`.
+ */
+const toProviderError = (error: unknown, failure: string, signal?: AbortSignal): ProviderError => {
+  if (error instanceof ProviderError) return error;
+  if (signal?.aborted) return cancelledError();
+  if (error instanceof FunctionCallError) {
+    const { code, quota, retryAfter } = error.details ?? {};
+    if (code === 'quota_exceeded' && quota?.status && quota.metric) return new UsageQuotaError(quota.status, quota.metric);
+    if (code && PROXY_ERROR_KINDS[code]) return new ProviderError(PROXY_ERROR_KINDS[code], error.message, retryAfter);
+    // Replies from the gateway in front of the function, which carry no code
+    if (error.status === 413) return new ProviderError('payload_too_large', "The audio is too large to send in one request.");
+    if (error.status === 503 || error.status === 504) return new ProviderError('unavailable', failure);
+    return new ProviderError('unknown', failure);
+  }
+  if (error instanceof FunctionsFetchError || error instanceof FunctionsRelayError || error instanceof TypeError) {
+    return new ProviderError('network', failure);
+  }
+  return new ProviderError('unknown', failure);
+};
+
+interface ProxyRequest {
+  operation: UsageOperation;
+  audio?: { data: string; mimeType: string };
+  text?: string;
+  target?: LanguageCode;
+  glossary?: GlossaryTerm[];
+}
+
+/**
+ * Gemini, reached through the gemini Edge Function so the API key stays on the server.
+ * The function builds the prompts and enforces the signed-in user's rate limit and quota;
+ * this client only sends the inputs and parses the replies.
+ */
+export class GeminiTranscriptionService implements TranscriptionProvider {
+  readonly id = 'gemini';
+  readonly label = 'Gemini';
+  readonly capabilities: ProviderCapabilities = {
+    timestamps: true,
+    speakerLabels: true,
+    translation: true,
+    analysis: true,
+  };
+
+  constructor(readonly model: string = getConfig().gemini.model) {}
+
+  /**
+   * Transcribes Amharic audio into timestamped segments.
+   */
+  async transcribeAmharic(base64Audio: string, mimeType: string, glossary?: GlossaryTerm[], options?: RequestOptions): Promise<TranscriptionOutput> {
+    // Base64 takes four characters for every three bytes
+    if (base64Audio.length * 0.75 > MAX_INLINE_AUDIO_BYTES) {
+      throw new ProviderError('payload_too_large', "The audio is larger than the 20 MB Gemini accepts in one request.");
+    }
+    const text = await this.request(
+      { operation: 'transcribe', audio: { data: base64Audio, mimeType }, glossary },
+      "Failed to transcribe audio.",
+      options
+    );
+    return this.parseSegments(text);
   }
 
   /**
-   * Transcribes Amharic audio using Gemini 3 Flash.
+   * Reads the model's segments. Audio without speech gives an empty transcript.
    */
-  async transcribeAmharic(base64Audio: string, mimeType: string): Promise<string> {
-    const audioPart: AudioPart = {
-      inlineData: {
-        mimeType: mimeType,
-        data: base64Audio,
-      },
+  private parseSegments(raw: string): TranscriptionOutput {
+    let segments: TranscriptSegment[];
+    try {
+      segments = (JSON.parse(raw).segments || [])
+        .filter((s: TranscriptSegment) => s.text?.trim())
+        .map((s: TranscriptSegment) => ({
+          start: Math.max(0, Number(s.start) || 0),
+          end: Math.max(Number(s.start) || 0, Number(s.end) || 0),
+          text: s.text.trim(),
+          ...(s.speaker ? { speaker: s.speaker } : {}),
+        }));
+    } catch {
+      // The model ignored the schema; keep its output as untimed text
+      return { text: raw, segments: [] };
+    }
+
+    return {
+      text: segments.map(s => s.text).join("\n"),
+      segments,
     };
+  }
 
-    const prompt = `You are a professional Amharic transcriber. 
-    Transcribe the provided audio content exactly into Amharic text. 
-    Do not provide translations or summaries, only the verbatim transcription.
-    If the audio is silent or unintelligible, state that clearly.`;
+  /**
+   * Translates Amharic text into the target language.
+   */
+  async translate(amharicText: string, target: LanguageCode, glossary?: GlossaryTerm[], options?: RequestOptions): Promise<string> {
+    return this.request(
+      { operation: 'translate', text: amharicText, target, glossary },
+      "Failed to translate text.",
+      options
+    );
+  }
 
+  /**
+   * Summarises an Amharic transcript and extracts its action items, topics and named entities,
+   * in both Amharic and English.
+   */
+  async analyze(amharicText: string, glossary?: GlossaryTerm[], options?: RequestOptions): Promise<TranscriptAnalysis> {
+    const text = await this.request({ operation: 'analyze', text: amharicText, glossary }, "Failed to analyze the transcript.", options);
     try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: { parts: [audioPart, { text: prompt }] },
-        config: {
-          temperature: 0.2,
-          topP: 0.8,
-          topK: 40,
-        }
-      });
-
-      return response.text || "No transcription available.";
+      return normalizeAnalysis(JSON.parse(text));
     } catch (error) {
-      console.error("Transcription Error:", error);
-      throw new Error("Failed to transcribe audio. Please check your connection or API key.");
+      console.error("Analysis Error:", error);
+      throw new ProviderError('unknown', "Failed to analyze the transcript.");
     }
   }
 
   /**
-   * Translates Amharic text to English.
+   * Sends one request to the proxy and returns the model's text, retrying transient
+   * failures. Errors are thrown as ProviderErrors; see toProviderError.
    */
-  async translateToEnglish(amharicText: string): Promise<string> {
-    const prompt = `You are a professional translator. Translate the following Amharic text into clear, fluent English. 
-    Maintain the original meaning and tone.
-    
-    Amharic Text:
-    ${amharicText}`;
+  private async request({ glossary, ...request }: ProxyRequest, failure: string, { signal, onRetry }: RequestOptions = {}): Promise<string> {
+    const body = {
+      ...request,
+      model: this.model,
+      glossary: glossary?.map(({ term, variants, english }) => ({ term, variants, english })),
+    };
 
-    try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: {
-          temperature: 0.3,
-        }
-      });
+    const text = await withRetry(async () => {
+      try {
+        const { text } = await invokeFunction<{ text: string }>(PROXY_FUNCTION, body, signal);
+        return text;
+      } catch (error) {
+        const providerError = toProviderError(error, failure, signal);
+        if (providerError.kind !== 'cancelled') console.error(`Gemini ${request.operation} Error:`, error);
+        throw providerError;
+      }
+    }, { signal, onRetry });
 
-      return response.text || "Translation failed.";
-    } catch (error) {
-      console.error("Translation Error:", error);
-      throw new Error("Failed to translate text.");
-    }
+    notifyUsage();
+    if (!text) throw new ProviderError('empty_result', "The model returned an empty response.");
+    return text;
   }
 }
-
-export const geminiService = new GeminiTranscriptionService();
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { GlossaryTerm } from "../types";
+import { createCachedStore } from "./cachedStore";
+import { listGlossaryTerms } from "./supabaseService";
+
+const store = createCachedStore(listGlossaryTerms, "glossary");
+
+/**
+ * The signed-in user's glossary, loaded once and shared by every transcription and
+ * translation request. Resolves to an empty list when it cannot be loaded (e.g. offline),
+ * so a missing glossary never blocks transcription.
+ */
+export const getGlossary = (): Promise<GlossaryTerm[]> => store.get();
+
+/**
+ * Drops the cached glossary after it was edited and notifies subscribers.
+ */
+export const refreshGlossary = (): Promise<void> => store.refresh();
+
+export const subscribeGlossary = (listener: (terms: GlossaryTerm[]) => void): (() => void) => store.subscribe(listener);
@@ -0,0 +1,418 @@
+import { TranscriptionStatus, TranscriptionResult, ChunkProgress, PreprocessingOptions, PreprocessingSummary } from "../types";
+import { transcribeLongAudio } from "./chunkedTranscription";
+import { transcriptionProvider } from "./transcriptionProvider";
+import { preprocessAudio } from "./audioPreprocessing";
+import { saveTranscription, saveVersions, updateTranscription, uploadAudio } from "./supabaseService";
+import { ProviderErrorKind, cancelledError, errorKind, isTransientError } from "./providerErrors";
+import { getAudioDuration } from "../utils/audio";
+
+const DB_NAME = 'amharic-voice';
+const DB_VERSION = 1;
+const STORE = 'jobs';
+
+const MAX_CONCURRENT_JOBS = 2;
+const MAX_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 5 * 60_000;
+
+export type JobKind = 'transcribe' | 'save';
+
+/**
+ * A unit of work persisted in IndexedDB so it survives reloads and network drops.
+ *
+ * Transcribe jobs: QUEUED → TRANSCRIBING → COMPLETED | ERROR, keeping the audio and,
+ * once done, the (editable) transcript. Save jobs: QUEUED → SAVING → SAVED | ERROR,
+ * holding a snapshot of the result to write to Supabase.
+ */
+export interface QueuedJob {
+  id: string;
+  kind: JobKind;
+  // The user who queued it; only they see it and only their session runs it
+  userId: string;
+  status: TranscriptionStatus;
+  createdAt: number;
+  updatedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  error?: string;
+  // What kind of failure `error` is, when the provider could tell
+  errorKind?: ProviderErrorKind;
+  audio?: Blob;
+  // Transcribe jobs: original file name, and the batch upload the job belongs to
+  name?: string;
+  batchId?: string;
+  // Transcribe jobs: how to clean up the audio first, and what that did once it has run.
+  // The cleaned-up copy is only sent to the provider; `audio` stays the original recording
+  preprocessing?: PreprocessingOptions;
+  preprocessed?: PreprocessingSummary;
+  processedAudio?: Blob;
+  result?: TranscriptionResult;
+  // Save jobs: the transcribe job whose transcript is being saved
+  sourceJobId?: string;
+  // In-memory only; not worth a write per chunk
+  progress?: ChunkProgress[];
+}
+
+type JobListener = (jobs: QueuedJob[]) => void;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE)) {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    }
+  };
+  return requestToPromise(request);
+};
+
+const backoff = (attempts: number) => Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempts - 1));
+
+// The audio lives on the job itself; no need to store it twice
+const stripAudio = ({ audioBlob: _audioBlob, ...result }: TranscriptionResult): TranscriptionResult => result;
+
+/**
+ * Runs up to MAX_CONCURRENT_JOBS of the signed-in user's queued jobs at a time while the
+ * browser is online, retrying failures with exponential backoff and immediately once
+ * connectivity returns. Other users' jobs stay in IndexedDB until they sign in again.
+ */
+class JobQueue {
+  private db: Promise<IDBDatabase>;
+  private jobs = new Map<string, QueuedJob>();
+  private listeners = new Set<JobListener>();
+  private loaded: Promise<void>;
+  private activeJobs = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  // Aborts the running transcribe jobs, by job id
+  private controllers = new Map<string, AbortController>();
+  // Whose jobs are listed and run; null while signed out, which pauses the queue
+  private userId: string | null = null;
+
+  constructor() {
+    this.db = openDatabase();
+    this.loaded = this.load();
+    window.addEventListener('online', () => this.retryWaiting());
+  }
+
+  /**
+   * Switches to the jobs of the user who just signed in, or pauses when signed out.
+   * Running jobs of the previous user are stopped and wait for their next session.
+   */
+  setUser(userId: string | null) {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    this.controllers.forEach(controller => controller.abort());
+    this.emit();
+    this.run();
+  }
+
+  subscribe(listener: JobListener): () => void {
+    this.listeners.add(listener);
+    listener(this.snapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getJob(id: string): QueuedJob | undefined {
+    const job = this.jobs.get(id);
+    return job && this.owns(job) ? job : undefined;
+  }
+
+  async enqueueTranscription(
+    audio: Blob,
+    options: { name?: string; batchId?: string; preprocessing?: PreprocessingOptions } = {}
+  ): Promise<QueuedJob> {
+    return this.add({ kind: 'transcribe', audio, ...options });
+  }
+
+  /**
+   * Queues a save of `result`. A save still waiting for the same transcript is replaced,
+   * so repeated clicks while offline produce a single write.
+   */
+  async enqueueSave(result: TranscriptionResult, sourceJobId?: string): Promise<QueuedJob> {
+    await this.loaded;
+    const waiting = this.ownJobs().find(job =>
+      job.kind === 'save' &&
+      job.status === TranscriptionStatus.QUEUED &&
+      (sourceJobId ? job.sourceJobId === sourceJobId : !!result.id && job.result?.id === result.id)
+    );
+    if (waiting) await this.remove(waiting.id);
+
+    // Without a source job the save carries its own copy of the audio to upload
+    const audio = !sourceJobId && !result.storedAudio ? result.audioBlob : undefined;
+    return this.add({ kind: 'save', result: stripAudio(result), sourceJobId, audio });
+  }
+
+  /**
+   * Persists edits to a transcribe job's transcript.
+   */
+  async updateResult(id: string, result: TranscriptionResult) {
+    if (!this.jobs.has(id)) return;
+    await this.update(id, { result: stripAudio(result) });
+  }
+
+  async retry(id: string) {
+    if (!this.getJob(id)) return;
+    await this.update(id, { status: TranscriptionStatus.QUEUED, attempts: 0, nextAttemptAt: Date.now(), error: undefined, errorKind: undefined });
+    this.run();
+  }
+
+  /**
+   * Stops a transcribe job that is running or waiting to retry. The job is kept,
+   * marked as cancelled, so it can still be retried or removed.
+   */
+  async cancel(id: string) {
+    const job = this.getJob(id);
+    if (job?.kind !== 'transcribe') return;
+    if (job.status === TranscriptionStatus.TRANSCRIBING) {
+      // execute() records the cancellation once the work has stopped
+      this.controllers.get(id)?.abort();
+    } else if (job.status === TranscriptionStatus.QUEUED) {
+      const { message, kind } = cancelledError();
+      await this.update(id, { status: TranscriptionStatus.ERROR, error: message, errorKind: kind });
+    }
+  }
+
+  async remove(id: string) {
+    this.jobs.delete(id);
+    const db = await this.db;
+    await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(id));
+    this.emit();
+  }
+
+  /**
+   * Removes finished jobs (completed transcriptions and successful saves).
+   */
+  async clearFinished() {
+    const finished = this.ownJobs().filter(job =>
+      job.status === TranscriptionStatus.COMPLETED || job.status === TranscriptionStatus.SAVED
+    );
+    await Promise.all(finished.map(job => this.remove(job.id)));
+  }
+
+  private owns(job: QueuedJob): boolean {
+    return !!this.userId && job.userId === this.userId;
+  }
+
+  private ownJobs(): QueuedJob[] {
+    return [...this.jobs.values()].filter(job => this.owns(job));
+  }
+
+  private snapshot(): QueuedJob[] {
+    return this.ownJobs().sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  private emit() {
+    const jobs = this.snapshot();
+    this.listeners.forEach(listener => listener(jobs));
+  }
+
+  private async load() {
+    const db = await this.db;
+    const stored = await requestToPromise(
+      db.transaction(STORE, 'readonly').objectStore(STORE).getAll() as IDBRequest<QueuedJob[]>
+    );
+
+    for (const job of stored) {
+      // Jobs from before the queue recorded their owner cannot be attributed to anyone
+      if (job.status === TranscriptionStatus.SAVED || !job.userId) {
+        // Successful saves are only kept around for the session that made them
+        await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(job.id));
+        continue;
+      }
+      // Work interrupted by closing the tab goes back in the queue
+      if (job.status === TranscriptionStatus.TRANSCRIBING || job.status === TranscriptionStatus.SAVING) {
+        job.status = TranscriptionStatus.QUEUED;
+        job.nextAttemptAt = Date.now();
+      }
+      this.jobs.set(job.id, job);
+    }
+
+    this.emit();
+    this.run();
+  }
+
+  private async add(fields: Pick<QueuedJob, 'kind'> & Partial<QueuedJob>): Promise<QueuedJob> {
+    await this.loaded;
+    if (!this.userId) throw new Error("Sign in to queue work.");
+    const now = Date.now();
+    const job: QueuedJob = {
+      id: crypto.randomUUID(),
+      userId: this.userId,
+      status: TranscriptionStatus.QUEUED,
+      createdAt: now,
+      updatedAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+      ...fields,
+    };
+    await this.put(job);
+    this.run();
+    return job;
+  }
+
+  private async update(id: string, changes: Partial<QueuedJob>, persist = true) {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    const updated = { ...job, ...changes, updatedAt: Date.now() };
+    if (persist) {
+      await this.put(updated);
+    } else {
+      this.jobs.set(id, updated);
+      this.emit();
+    }
+  }
+
+  private async put(job: QueuedJob) {
+    this.jobs.set(job.id, job);
+    this.emit();
+    const { progress: _progress, ...stored } = job;
+    const db = await this.db;
+    await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).put(stored));
+  }
+
+  private retryWaiting() {
+    const now = Date.now();
+    for (const job of this.jobs.values()) {
+      if (job.status === TranscriptionStatus.QUEUED) job.nextAttemptAt = now;
+    }
+    this.run();
+  }
+
+  private run() {
+    clearTimeout(this.timer);
+    let job: QueuedJob | undefined;
+    while (this.userId && navigator.onLine && this.activeJobs < MAX_CONCURRENT_JOBS && (job = this.nextDueJob())) {
+      this.activeJobs++;
+      // execute() marks the job as running synchronously, so it is not picked twice
+      this.execute(job).finally(() => {
+        this.activeJobs--;
+        this.run();
+      });
+    }
+    this.scheduleNext();
+  }
+
+  private nextDueJob(): QueuedJob | undefined {
+    const now = Date.now();
+    return this.ownJobs()
+      .filter(job => job.status === TranscriptionStatus.QUEUED && job.nextAttemptAt <= now)
+      .sort((a, b) => a.createdAt - b.createdAt)[0];
+  }
+
+  private scheduleNext() {
+    const waiting = this.ownJobs().filter(job => job.status === TranscriptionStatus.QUEUED);
+    if (!waiting.length || !navigator.onLine) return;
+    const next = Math.min(...waiting.map(job => job.nextAttemptAt));
+    this.timer = setTimeout(() => this.run(), Math.max(0, next - Date.now()));
+  }
+
+  /**
+   * Stops a save once its owner has signed out, so nothing is written to another account.
+   */
+  private checkOwner(job: QueuedJob) {
+    if (!this.owns(job)) throw new Error("Signed out before the save finished.");
+  }
+
+  private async execute(job: QueuedJob) {
+    const attempts = job.attempts + 1;
+    await this.update(job.id, {
+      status: job.kind === 'transcribe' ? TranscriptionStatus.TRANSCRIBING : TranscriptionStatus.SAVING,
+      attempts,
+      progress: undefined,
+    });
+
+    const controller = new AbortController();
+    if (job.kind === 'transcribe') this.controllers.set(job.id, controller);
+
+    try {
+      if (job.kind === 'transcribe') {
+        let audio = job.processedAudio || job.audio!;
+        if (job.preprocessing && !job.preprocessed) {
+          // Kept with the job so a retry does not redo this
+          const processed = await preprocessAudio(job.audio!, job.preprocessing);
+          audio = processed.blob;
+          await this.update(job.id, { processedAudio: audio, preprocessed: processed.summary });
+        }
+
+        const { text, segments } = await transcribeLongAudio(audio, progress => {
+          this.update(job.id, { progress }, false);
+        }, controller.signal);
+        await this.update(job.id, {
+          status: TranscriptionStatus.COMPLETED,
+          error: undefined,
+          errorKind: undefined,
+          // Only needed for transcription; the original is what gets saved
+          processedAudio: undefined,
+          result: {
+            text,
+            segments,
+            translations: {},
+            timestamp: new Date(),
+            provider: transcriptionProvider.id,
+            model: transcriptionProvider.model,
+            modelOutput: { text, segments, translations: {} },
+          },
+        });
+      } else {
+        const source = job.sourceJobId ? this.jobs.get(job.sourceJobId) : undefined;
+        let result = job.result!;
+
+        const audio = source?.audio || job.audio;
+        if (!result.storedAudio && audio) {
+          this.checkOwner(job);
+          const storedAudio = await uploadAudio(audio, await getAudioDuration(audio));
+          result = { ...result, storedAudio };
+          // Remember the upload so a retry does not upload the audio again
+          await this.update(job.id, { result });
+        }
+
+        // Rows opened from history are updated in place; the row may have been
+        // deleted meanwhile, in which case it is saved again as a new one
+        this.checkOwner(job);
+        let rows = result.id ? await updateTranscription(result.id, result) : [];
+        if (!rows.length) {
+          rows = await saveTranscription(result);
+        }
+        const id = rows[0]?.id;
+        result = { ...result, id };
+        // Remember the row so a retry updates it rather than inserting another
+        await this.update(job.id, { result });
+        if (id) await saveVersions(id, result);
+        await this.update(job.id, { status: TranscriptionStatus.SAVED, error: undefined, errorKind: undefined, result });
+
+        const latestSource = source && this.jobs.get(source.id);
+        if (latestSource?.result) {
+          await this.update(latestSource.id, { result: { ...latestSource.result, id, storedAudio: result.storedAudio } });
+        }
+      }
+    } catch (error: any) {
+      if (!this.owns(job)) {
+        // Interrupted by a sign-out: resume in the owner's next session without using up an attempt
+        await this.update(job.id, { status: TranscriptionStatus.QUEUED, attempts: job.attempts, nextAttemptAt: Date.now() });
+        return;
+      }
+      if (controller.signal.aborted) error = cancelledError();
+      // Saves fail on Supabase errors, which are worth retrying; transcriptions are
+      // only retried when the provider says the failure is transient
+      const retryable = job.kind === 'save' || isTransientError(error);
+      const willRetry = attempts < MAX_ATTEMPTS && retryable;
+      await this.update(job.id, {
+        status: willRetry ? TranscriptionStatus.QUEUED : TranscriptionStatus.ERROR,
+        error: error?.message || "Unknown error",
+        errorKind: errorKind(error),
+        nextAttemptAt: Date.now() + backoff(attempts),
+      });
+    } finally {
+      this.controllers.delete(job.id);
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
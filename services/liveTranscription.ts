@@ -0,0 +1,151 @@
+import { transcriptionProvider } from "./transcriptionProvider";
+import { getGlossary } from "./glossaryService";
+import { blobToBase64, encodeWav, findQuietestPoint, resampleToSpeechRate, SPEECH_SAMPLE_RATE } from "../utils/audio";
+
+// Every pass is a metered request, so passes start at most this often however fast audio arrives
+const MIN_PASS_INTERVAL_MS = 15000;
+
+// Once the unsettled tail grows past this, its older part is transcribed as final text
+const SETTLE_AFTER_SECONDS = 20;
+const MIN_SETTLED_SECONDS = 10;
+const MIN_TAIL_SECONDS = 1;
+
+// Hands each render quantum of microphone input to the main thread
+const CAPTURE_PROCESSOR = `
+registerProcessor("live-capture", class extends AudioWorkletProcessor {
+  process([input]) {
+    if (input[0]) this.port.postMessage(input[0].slice());
+    return true;
+  }
+});
+`;
+
+export interface LiveTranscript {
+  finalText: string;
+  interimText: string;
+}
+
+/**
+ * Produces a running transcript while recording. Microphone input is captured as raw
+ * samples, so only the audio after the last settled point is kept and sent: each pass
+ * re-transcribes that tail as interim text, and when it gets long it is cut at a quiet
+ * point and the older part becomes final and is dropped.
+ */
+export class LiveTranscriber {
+  private context: AudioContext;
+  private node: AudioWorkletNode | null = null;
+  // Unsettled samples at the context's rate
+  private tail: Float32Array[] = [];
+  private captured = false;
+  private transcript: LiveTranscript = { finalText: "", interimText: "" };
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private stopped = false;
+
+  constructor(stream: MediaStream, private onUpdate: (transcript: LiveTranscript) => void) {
+    this.context = new AudioContext();
+    this.capture(stream).catch(error => console.warn("Live transcription could not start:", error));
+    this.schedule(MIN_PASS_INTERVAL_MS);
+  }
+
+  /**
+   * Stops capturing and further passes, and promotes whatever interim text is showing to final.
+   */
+  stop() {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.node?.disconnect();
+    this.context.close().catch(() => {});
+    this.tail = [];
+    this.publish({
+      finalText: [this.transcript.finalText, this.transcript.interimText].filter(Boolean).join(" "),
+      interimText: "",
+    }, true);
+  }
+
+  private async capture(stream: MediaStream) {
+    const url = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR], { type: "text/javascript" }));
+    try {
+      await this.context.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    if (this.stopped) return;
+    this.node = new AudioWorkletNode(this.context, "live-capture", { numberOfOutputs: 0 });
+    this.node.port.onmessage = (event: MessageEvent<Float32Array>) => {
+      this.tail.push(event.data);
+      this.captured = true;
+    };
+    this.context.createMediaStreamSource(stream).connect(this.node);
+  }
+
+  private publish(transcript: LiveTranscript, force = false) {
+    if (this.stopped && !force) return;
+    this.transcript = transcript;
+    this.onUpdate(transcript);
+  }
+
+  /**
+   * Passes run one after another from a timer, so a slow request delays the next pass
+   * instead of overlapping it, and a pass is skipped when nothing new was captured.
+   */
+  private schedule(delay: number) {
+    this.timer = setTimeout(async () => {
+      const startedAt = Date.now();
+      if (this.captured) {
+        this.captured = false;
+        await this.pass();
+      }
+      if (!this.stopped) this.schedule(Math.max(0, MIN_PASS_INTERVAL_MS - (Date.now() - startedAt)));
+    }, delay);
+  }
+
+  private async pass() {
+    try {
+      const rate = this.context.sampleRate;
+      let samples = await resampleToSpeechRate(this.takeTail(), rate);
+      let duration = samples.length / SPEECH_SAMPLE_RATE;
+
+      if (duration > SETTLE_AFTER_SECONDS) {
+        const cut = findQuietestPoint(samples, MIN_SETTLED_SECONDS, duration - MIN_TAIL_SECONDS);
+        const settled = await this.transcribe(samples.subarray(0, Math.floor(cut * SPEECH_SAMPLE_RATE)));
+        if (this.stopped) return;
+        // Audio captured during the request stays after the cut
+        this.tail = [this.takeTail().subarray(Math.floor(cut * rate))];
+        samples = samples.subarray(Math.floor(cut * SPEECH_SAMPLE_RATE));
+        duration -= cut;
+        this.publish({
+          finalText: [this.transcript.finalText, settled].filter(Boolean).join(" "),
+          interimText: "",
+        });
+      }
+
+      if (duration < MIN_TAIL_SECONDS) return;
+      const interimText = await this.transcribe(samples);
+      this.publish({ ...this.transcript, interimText });
+    } catch (error) {
+      // Live text is only a preview; the batch pass after recording is authoritative
+      console.warn("Live transcription pass failed:", error);
+    }
+  }
+
+  /**
+   * The unsettled samples as one array, which also becomes the only stored piece.
+   */
+  private takeTail(): Float32Array {
+    if (this.tail.length === 1) return this.tail[0];
+    const joined = new Float32Array(this.tail.reduce((length, piece) => length + piece.length, 0));
+    let offset = 0;
+    for (const piece of this.tail) {
+      joined.set(piece, offset);
+      offset += piece.length;
+    }
+    this.tail = [joined];
+    return joined;
+  }
+
+  private async transcribe(samples: Float32Array): Promise<string> {
+    const wav = encodeWav(samples);
+    const { segments } = await transcriptionProvider.transcribeAmharic(await blobToBase64(wav), wav.type, await getGlossary());
+    return segments.map(segment => segment.text).join(" ");
+  }
+}
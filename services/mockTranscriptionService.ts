@@ -0,0 +1,97 @@
+import { TranscriptionOutput, TranscriptionProvider, ProviderCapabilities, LanguageCode, TranscriptAnalysis, GlossaryTerm, RequestOptions } from "../types";
+import { abortableDelay } from "./providerErrors";
+
+// Amharic sample sentences with their English translations; other targets get a tagged echo
+const PHRASES: [string, string][] = [
+  ["ሰላም፣ እንኳን ደህና መጣችሁ።", "Hello, welcome."],
+  ["ዛሬ ስለ ፕሮጀክቱ እንነጋገራለን።", "Today we will talk about the project."],
+  ["ስብሰባው ነገ ጠዋት ይጀምራል።", "The meeting starts tomorrow morning."],
+  ["እባክዎ ትንሽ ይጠብቁ።", "Please wait a moment."],
+  ["ይህ የሙከራ ቅጂ ነው።", "This is a test recording."],
+  ["አመሰግናለሁ።", "Thank you."],
+];
+
+// Fixed parts of the canned analysis; the summary is taken from the transcript itself
+const ANALYSIS: TranscriptAnalysis = {
+  am: {
+    summary: "",
+    actionItems: [{ task: "የስብሰባውን ማስታወሻ ማጋራት", owner: "Speaker 1" }, { task: "የፕሮጀክቱን እቅድ መከለስ" }],
+    topics: ["ፕሮጀክት", "ስብሰባ"],
+    entities: [{ name: "አበበ", type: "person" }, { name: "አዲስ አበባ", type: "place" }, { name: "ኢትዮ ቴሌኮም", type: "organization" }],
+  },
+  en: {
+    summary: "",
+    actionItems: [{ task: "Share the meeting notes", owner: "Speaker 1" }, { task: "Review the project plan" }],
+    topics: ["Project", "Meeting"],
+    entities: [{ name: "Abebe", type: "person" }, { name: "Addis Ababa", type: "place" }, { name: "Ethio Telecom", type: "organization" }],
+  },
+};
+
+const SEGMENT_SECONDS = 4;
+const SIMULATED_LATENCY_MS = 300;
+
+/**
+ * FNV-1a over (a sample of) the input, so the same audio always yields the same transcript.
+ */
+const hash = (value: string): number => {
+  const step = Math.max(1, Math.floor(value.length / 4096));
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += step) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/**
+ * Offline provider for development and tests. Returns canned Amharic sentences
+ * picked deterministically from the audio content; needs no network or API key.
+ */
+export class MockTranscriptionService implements TranscriptionProvider {
+  readonly id = 'mock';
+  readonly label = 'Mock';
+  readonly model = 'mock';
+  readonly capabilities: ProviderCapabilities = {
+    timestamps: true,
+    speakerLabels: true,
+    translation: true,
+    analysis: true,
+  };
+
+  async transcribeAmharic(base64Audio: string, _mimeType: string, _glossary?: GlossaryTerm[], options?: RequestOptions): Promise<TranscriptionOutput> {
+    await abortableDelay(SIMULATED_LATENCY_MS, options?.signal);
+
+    const seed = hash(base64Audio);
+    const count = 2 + (seed % 3);
+    const segments = Array.from({ length: count }, (_, i) => ({
+      start: i * SEGMENT_SECONDS,
+      end: (i + 1) * SEGMENT_SECONDS,
+      speaker: `Speaker ${(i % 2) + 1}`,
+      text: PHRASES[(seed + i) % PHRASES.length][0],
+    }));
+
+    return { text: segments.map(s => s.text).join("\n"), segments };
+  }
+
+  async translate(amharicText: string, target: LanguageCode, _glossary?: GlossaryTerm[], options?: RequestOptions): Promise<string> {
+    await abortableDelay(SIMULATED_LATENCY_MS, options?.signal);
+
+    return amharicText
+      .split("\n")
+      .map(line => {
+        const english = target === 'en' ? PHRASES.find(([amharic]) => amharic === line.trim())?.[1] : undefined;
+        return english ?? (line.trim() && `[${target.toUpperCase()}] ${line.trim()}`);
+      })
+      .join("\n");
+  }
+
+  async analyze(amharicText: string, _glossary?: GlossaryTerm[], options?: RequestOptions): Promise<TranscriptAnalysis> {
+    const lines = amharicText.split("\n").map(line => line.trim()).filter(Boolean).slice(0, 2);
+    const english = await this.translate(lines.join("\n"), 'en', undefined, options);
+
+    return {
+      am: { ...ANALYSIS.am, summary: lines.join(" ") },
+      en: { ...ANALYSIS.en, summary: english.split("\n").join(" ") },
+    };
+  }
+}
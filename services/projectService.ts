@@ -0,0 +1,18 @@
+import { Project } from "../types";
+import { createCachedStore } from "./cachedStore";
+import { listProjects } from "./supabaseService";
+
+const store = createCachedStore(listProjects, "projects");
+
+/**
+ * The signed-in user's projects, loaded once and shared by the save flow and the history
+ * filters. Resolves to an empty list when they cannot be loaded.
+ */
+export const getProjects = (): Promise<Project[]> => store.get();
+
+/**
+ * Drops the cached projects after one was created, renamed or deleted and notifies subscribers.
+ */
+export const refreshProjects = (): Promise<void> => store.refresh();
+
+export const subscribeProjects = (listener: (projects: Project[]) => void): (() => void) => store.subscribe(listener);
@@ -0,0 +1,93 @@
+export type ProviderErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate_limit'
+  | 'payload_too_large'
+  | 'safety_blocked'
+  | 'network'
+  | 'unavailable'
+  | 'empty_result'
+  | 'cancelled'
+  | 'unknown';
+
+// Failures that may go away on their own, so the request is worth sending again
+const TRANSIENT_KINDS: ProviderErrorKind[] = ['network', 'rate_limit', 'unavailable'];
+
+const DEFAULT_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+
+/**
+ * A failed provider request, classified so callers can decide whether to retry
+ * and the UI can tell the user what to do about it.
+ */
+export class ProviderError extends Error {
+  constructor(
+    readonly kind: ProviderErrorKind,
+    message: string,
+    // Seconds the server asked us to wait before trying again
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+
+  get transient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+export const errorKind = (error: unknown): ProviderErrorKind | undefined =>
+  error instanceof ProviderError ? error.kind : undefined;
+
+export const isTransientError = (error: unknown): boolean =>
+  error instanceof ProviderError && error.transient;
+
+export const cancelledError = () => new ProviderError('cancelled', "Cancelled.");
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw cancelledError();
+};
+
+/**
+ * Waits `ms`, or rejects with a cancelled error as soon as `signal` aborts.
+ */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface RetryOptions {
+  attempts?: number;
+  signal?: AbortSignal;
+  // Called before each retry with the number of the attempt about to be made
+  onRetry?: (attempt: number, error: ProviderError) => void;
+}
+
+/**
+ * Runs `request`, retrying transient failures with exponential backoff and jitter
+ * (or after the server's Retry-After). Anything else is thrown straight away.
+ */
+export async function withRetry<T>(request: () => Promise<T>, { attempts = DEFAULT_ATTEMPTS, signal, onRetry }: RetryOptions = {}): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(signal);
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= attempts || !isTransientError(error) || signal?.aborted) throw error;
+      const { retryAfter } = error as ProviderError;
+      const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+      onRetry?.(attempt + 1, error as ProviderError);
+      await abortableDelay(retryAfter ? retryAfter * 1000 : backoff * (0.5 + Math.random() / 2), signal);
+    }
+  }
+}
@@ -1,10 +1,17 @@
 
-import { createClient, User, Session } from '@supabase/supabase-js';
+import { createClient, FunctionsHttpError, User, Session } from '@supabase/supabase-js';
+import { ActivityEntry, DailyUsage, UsageQuotaStatus, Project, ReviewStatus, Workspace, WorkspaceInvitation, WorkspaceMember, WorkspaceRole, TranscriptionRecord, TranscriptionResult, TranscriptionVersion, TranscriptSnapshot, Translations, StoredAudio, GlossaryTerm, GlossaryTermInput } from '../types';
+import { searchTerms } from '../utils/search';
+import { sameSnapshot, toSnapshot, versionToSnapshot } from '../utils/versions';
+import { normalizeAnalysis } from '../utils/analysis';
+import { UsageMetric } from '../utils/usage';
+import { getConfig } from '../config';
 
-const SUPABASE_URL = 'https://zvcmuednvteoflmcxynj.supabase.co';
-const SUPABASE_ANON_KEY = 'sb_publishable_RmHLZwJkG2j-8U2TZVdeVg_4EfJF-Sc';
+const AUDIO_BUCKET = 'transcription-audio';
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
 
-export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+const { url, anonKey } = getConfig().supabase;
+export const supabase = createClient(url, anonKey);
 
 // Auth Functions
 export const signUp = (email: string, password: string) => 
@@ -20,8 +27,31 @@ export const getCurrentUser = async () => {
   return user;
 };
 
+/**
+ * Row columns written for a transcription result. Audio columns are only written once
+ * the audio has been uploaded, so an update never detaches a stored recording.
+ */
+const resultColumns = (result: TranscriptionResult) => ({
+  amharic_text: result.text,
+  // english_text is kept alongside the translations map for older clients
+  english_text: result.translations.en ?? null,
+  translations: result.translations,
+  segments: result.segments?.length ? result.segments : null,
+  ...(result.storedAudio ? {
+    audio_path: result.storedAudio.path,
+    audio_duration: result.storedAudio.duration ?? null,
+    audio_mime_type: result.storedAudio.mimeType,
+  } : {}),
+  ...(result.model ? { provider: result.provider ?? null, model: result.model } : {}),
+  title: result.title?.trim() || null,
+  project_id: result.projectId ?? null,
+  tags: result.tags ?? [],
+  workspace_id: result.workspaceId ?? null,
+  analysis: result.analysis ?? null,
+});
+
 // Data Functions
-export async function saveTranscription(amharic: string, english?: string) {
+export async function saveTranscription(result: TranscriptionResult) {
   const user = await getCurrentUser();
   if (!user) throw new Error("User must be logged in to save data.");
 
@@ -29,8 +59,7 @@ export async function saveTranscription(amharic: string, english?: string) {
     .from('transcriptions')
     .insert([
       { 
-        amharic_text: amharic, 
-        english_text: english,
+        ...resultColumns(result),
         user_id: user.id,
         created_at: new Date().toISOString()
       },
@@ -40,3 +69,548 @@ export async function saveTranscription(amharic: string, english?: string) {
   if (error) throw error;
   return data;
 }
+
+export interface TranscriptionQuery {
+  page: number;
+  pageSize: number;
+  from?: string;
+  to?: string;
+  // Words that must all appear in the title, the Amharic text or the English translation
+  search?: string;
+  // A project id, or null for transcriptions not filed in any project
+  projectId?: string | null;
+  tag?: string;
+  // A workspace's transcriptions; the user's private ones when not set
+  workspaceId?: string | null;
+  status?: ReviewStatus;
+  assigneeId?: string;
+}
+
+export async function listTranscriptions({ page, pageSize, from, to, search, projectId, tag, workspaceId, status, assigneeId }: TranscriptionQuery) {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("User must be logged in to view history.");
+
+  let query = supabase
+    .from('transcriptions')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(page * pageSize, (page + 1) * pageSize - 1);
+
+  query = workspaceId
+    ? query.eq('workspace_id', workspaceId)
+    : query.eq('user_id', user.id).is('workspace_id', null);
+
+  // Date filters come from <input type="date"> values (YYYY-MM-DD, local time)
+  if (from) query = query.gte('created_at', new Date(`${from}T00:00:00`).toISOString());
+  if (to) query = query.lte('created_at', new Date(`${to}T23:59:59.999`).toISOString());
+  // search_text holds the title, text and English translation, folded like searchTerms (see utils/search.ts)
+  for (const term of searchTerms(search || '')) {
+    query = query.ilike('search_text', `%${term.replace(/[\\%_]/g, '\\$&')}%`);
+  }
+  if (projectId === null) query = query.is('project_id', null);
+  else if (projectId) query = query.eq('project_id', projectId);
+  if (tag) query = query.contains('tags', [tag]);
+  if (status) query = query.eq('status', status);
+  if (assigneeId) query = query.eq('assignee_id', assigneeId);
+
+  const { data, error, count } = await query;
+
+  if (error) throw error;
+  return { rows: (data || []) as TranscriptionRecord[], total: count || 0 };
+}
+
+export async function updateTranscription(id: string, result: TranscriptionResult) {
+  const { data, error } = await supabase
+    .from('transcriptions')
+    .update(resultColumns(result))
+    .eq('id', id)
+    .select();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Files the transcriptions in a project, or takes them out of any project with null.
+ */
+export async function moveTranscriptions(ids: string[], projectId: string | null) {
+  const { error } = await supabase
+    .from('transcriptions')
+    .update({ project_id: projectId })
+    .in('id', ids);
+
+  if (error) throw error;
+}
+
+export async function addTranscriptionTags(ids: string[], tags: string[]) {
+  const { error } = await supabase.rpc('add_transcription_tags', { transcription_ids: ids, new_tags: tags });
+
+  if (error) throw error;
+}
+
+export async function listTranscriptionTags(): Promise<string[]> {
+  const { data, error } = await supabase.rpc('list_transcription_tags');
+
+  if (error) throw error;
+  return (data || []) as string[];
+}
+
+/**
+ * Moves a workspace transcript through review or (un)assigns it. Kept apart from the
+ * content columns so saving an edit never undoes a reviewer's decision.
+ */
+export async function updateReview(id: string, changes: { status?: ReviewStatus; assignee_id?: string | null }) {
+  const { error } = await supabase
+    .from('transcriptions')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Deletes a transcription, then its audio. The row goes first so a failed delete never
+ * loses the recording; the database lists the audio of deleted rows until it is removed.
+ */
+export async function deleteTranscription(record: TranscriptionRecord) {
+  const { error } = await supabase
+    .from('transcriptions')
+    .delete()
+    .eq('id', record.id);
+
+  if (error) throw error;
+  await removeDeletedAudio();
+}
+
+/**
+ * Removes the audio of transcriptions the user deleted, including any left over from an
+ * earlier removal that failed. The transcripts are already gone, so failures are only logged.
+ */
+async function removeDeletedAudio() {
+  const { data, error } = await supabase.from('deleted_transcription_audio').select('audio_path');
+  if (error) {
+    console.warn("Could not list deleted audio:", error);
+    return;
+  }
+  const paths = (data || []).map(row => row.audio_path as string);
+  if (!paths.length) return;
+
+  const { error: storageError } = await supabase.storage.from(AUDIO_BUCKET).remove(paths);
+  if (storageError) {
+    console.warn("Could not remove deleted audio:", storageError);
+    return;
+  }
+  const { error: clearError } = await supabase.from('deleted_transcription_audio').delete().in('audio_path', paths);
+  if (clearError) console.warn("Could not clear deleted audio:", clearError);
+}
+
+// Version Functions
+export async function listVersions(transcriptionId: string): Promise<TranscriptionVersion[]> {
+  const { data, error } = await supabase
+    .from('transcription_versions')
+    .select('*')
+    .eq('transcription_id', transcriptionId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as TranscriptionVersion[];
+}
+
+const versionColumns = ({ text, translations, segments }: TranscriptSnapshot) => ({
+  amharic_text: text,
+  translations,
+  segments: segments?.length ? segments : null,
+});
+
+/**
+ * Records a save in the transcript's history: the model output (updated as its
+ * translations arrive) and, when the content changed since the last version, a revision.
+ */
+export async function saveVersions(transcriptionId: string, result: TranscriptionResult) {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("User must be logged in to save data.");
+
+  if (result.modelOutput) {
+    const { data, error } = await supabase
+      .from('transcription_versions')
+      .update(versionColumns(result.modelOutput))
+      .eq('transcription_id', transcriptionId)
+      .eq('kind', 'model')
+      .select('id');
+    if (error) throw error;
+
+    if (!data?.length) {
+      const { error: insertError } = await supabase
+        .from('transcription_versions')
+        .insert([{ ...versionColumns(result.modelOutput), transcription_id: transcriptionId, user_id: user.id, kind: 'model' }]);
+      if (insertError) throw insertError;
+    }
+  }
+
+  const versions = await listVersions(transcriptionId);
+  const latest = versions[versions.length - 1];
+  const snapshot = toSnapshot(result);
+  if (latest && sameSnapshot(versionToSnapshot(latest), snapshot)) return;
+
+  const { error } = await supabase
+    .from('transcription_versions')
+    .insert([{ ...versionColumns(snapshot), transcription_id: transcriptionId, user_id: user.id, kind: 'revision' }]);
+  if (error) throw error;
+}
+
+// Storage Functions
+export async function uploadAudio(blob: Blob, duration?: number): Promise<StoredAudio> {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("User must be logged in to upload audio.");
+
+  // Objects live under the owner's id so storage policies can scope access per user
+  const mimeType = blob.type || 'audio/webm';
+  const extension = mimeType.split('/')[1]?.split(';')[0] || 'webm';
+  const path = `${user.id}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .upload(path, blob, { contentType: mimeType });
+
+  if (error) throw error;
+  return { path, mimeType, duration };
+}
+
+export async function getAudioUrl(path: string): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+export async function fetchStoredAudio(path: string): Promise<Blob> {
+  const { data, error } = await supabase.storage.from(AUDIO_BUCKET).download(path);
+
+  if (error) throw error;
+  return data;
+}
+
+export const getRecordAudio = (record: TranscriptionRecord): StoredAudio | undefined =>
+  record.audio_path ? {
+    path: record.audio_path,
+    mimeType: record.audio_mime_type || 'audio/webm',
+    duration: record.audio_duration ?? undefined,
+  } : undefined;
+
+/**
+ * A saved row as an editable result.
+ */
+export const recordToResult = (record: TranscriptionRecord): TranscriptionResult => ({
+  id: record.id,
+  text: record.amharic_text,
+  translations: getRecordTranslations(record),
+  segments: record.segments || undefined,
+  timestamp: new Date(record.created_at),
+  storedAudio: getRecordAudio(record),
+  provider: record.provider ?? undefined,
+  model: record.model ?? undefined,
+  title: record.title ?? undefined,
+  projectId: record.project_id,
+  tags: record.tags ?? [],
+  workspaceId: record.workspace_id,
+  status: record.status,
+  assigneeId: record.assignee_id,
+  analysis: record.analysis ? normalizeAnalysis(record.analysis) : undefined,
+});
+
+/**
+ * Translations stored on a row; rows saved before the translations column only have english_text.
+ */
+export const getRecordTranslations = (record: TranscriptionRecord): Translations =>
+  record.translations && Object.keys(record.translations).length > 0
+    ? record.translations
+    : record.english_text ? { en: record.english_text } : {};
+
+// Project Functions
+export async function listProjects(): Promise<Project[]> {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("User must be logged in to view projects.");
+
+  const { data, error } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as Project[];
+}
+
+export async function createProject(name: string): Promise<Project> {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("User must be logged in to create a project.");
+
+  const { data, error } = await supabase
+    .from('projects')
+    .insert([{ name, user_id: user.id }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Project;
+}
+
+export async function renameProject(id: string, name: string) {
+  const { error } = await supabase
+    .from('projects')
+    .update({ name })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function deleteProject(id: string) {
+  const { error } = await supabase
+    .from('projects')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+// Workspace Functions
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("User must be logged in to view workspaces.");
+
+  // Invitees can also read a workspace's name, so go through the membership
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('workspaces(*)')
+    .eq('user_id', user.id);
+
+  if (error) throw error;
+  return ((data || []) as unknown as { workspaces: Workspace }[])
+    .map(row => row.workspaces)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function createWorkspace(name: string): Promise<Workspace> {
+  const { data, error } = await supabase.rpc('create_workspace', { workspace_name: name });
+
+  if (error) throw error;
+  return data as Workspace;
+}
+
+export async function renameWorkspace(id: string, name: string) {
+  const { error } = await supabase
+    .from('workspaces')
+    .update({ name })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function deleteWorkspace(id: string) {
+  const { error } = await supabase
+    .from('workspaces')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function listWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .order('email', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as WorkspaceMember[];
+}
+
+export async function updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole) {
+  const { error } = await supabase
+    .from('workspace_members')
+    .update({ role })
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+export async function removeWorkspaceMember(workspaceId: string, userId: string) {
+  const { error } = await supabase
+    .from('workspace_members')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Invitations the workspace's owners have sent, or with no workspace, the ones waiting
+ * for the signed-in user.
+ */
+export async function listInvitations(workspaceId?: string): Promise<WorkspaceInvitation[]> {
+  let query = supabase
+    .from('workspace_invitations')
+    .select('*, workspaces(name)')
+    .order('created_at', { ascending: false });
+
+  if (workspaceId) {
+    query = query.eq('workspace_id', workspaceId);
+  } else {
+    const user = await getCurrentUser();
+    if (!user?.email) throw new Error("User must be logged in to view invitations.");
+    query = query.eq('email', user.email.toLowerCase());
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data || []) as WorkspaceInvitation[];
+}
+
+export async function inviteToWorkspace(workspaceId: string, email: string, role: WorkspaceRole) {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("User must be logged in to invite members.");
+
+  const { error } = await supabase
+    .from('workspace_invitations')
+    .upsert([{ workspace_id: workspaceId, email: email.trim().toLowerCase(), role, invited_by: user.id }], { onConflict: 'workspace_id,email' });
+
+  if (error) throw error;
+}
+
+export async function acceptInvitation(id: string): Promise<string> {
+  const { data, error } = await supabase.rpc('accept_workspace_invitation', { invitation_id: id });
+
+  if (error) throw error;
+  return data as string;
+}
+
+// Revokes an invitation, or declines it when it is for the signed-in user
+export async function deleteInvitation(id: string) {
+  const { error } = await supabase
+    .from('workspace_invitations')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function listActivity(workspaceId: string, limit = 50): Promise<ActivityEntry[]> {
+  const { data, error } = await supabase
+    .from('workspace_activity')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as ActivityEntry[];
+}
+
+// Usage Functions
+export async function getUsageStatus(): Promise<UsageQuotaStatus[]> {
+  const { data, error } = await supabase.rpc('usage_status');
+
+  if (error) throw error;
+  return (data || []) as UsageQuotaStatus[];
+}
+
+export async function getDailyUsage(days: number): Promise<DailyUsage[]> {
+  const { data, error } = await supabase.rpc('daily_usage', { days });
+
+  if (error) throw error;
+  return (data || []) as DailyUsage[];
+}
+
+// Edge Functions
+
+/**
+ * The JSON an Edge Function replies with when it refuses a request. It is not validated,
+ * so any field may be missing.
+ */
+export interface FunctionErrorBody {
+  error?: string;
+  code?: string;
+  retryAfter?: number;
+  quota?: { status: UsageQuotaStatus; metric: UsageMetric };
+}
+
+/**
+ * A non-2xx reply from an Edge Function, with the JSON body it replied with.
+ */
+export class FunctionCallError extends Error {
+  constructor(message: string, readonly status: number, readonly details: FunctionErrorBody | null) {
+    super(message);
+    this.name = 'FunctionCallError';
+  }
+}
+
+/**
+ * Calls an Edge Function as the signed-in user; the client sends their session token.
+ */
+export async function invokeFunction<T>(name: string, body: object, signal?: AbortSignal): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body, signal });
+
+  if (error instanceof FunctionsHttpError) {
+    const response = error.context as Response;
+    const body: unknown = await response.json().catch(() => null);
+    const details = body && typeof body === 'object' ? body as FunctionErrorBody : null;
+    throw new FunctionCallError(details?.error || error.message, response.status, details);
+  }
+  if (error) throw error;
+  return data as T;
+}
+
+// Glossary Functions
+export async function listGlossaryTerms(): Promise<GlossaryTerm[]> {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("User must be logged in to view the glossary.");
+
+  const { data, error } = await supabase
+    .from('glossary_terms')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('term', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as GlossaryTerm[];
+}
+
+/**
+ * Inserts terms, or updates the variants and English of terms that already exist.
+ */
+export async function upsertGlossaryTerms(terms: GlossaryTermInput[]): Promise<GlossaryTerm[]> {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("User must be logged in to edit the glossary.");
+
+  const { data, error } = await supabase
+    .from('glossary_terms')
+    .upsert(terms.map(term => ({ ...term, user_id: user.id })), { onConflict: 'user_id,term' })
+    .select();
+
+  if (error) throw error;
+  return (data || []) as GlossaryTerm[];
+}
+
+export async function updateGlossaryTerm(id: string, term: GlossaryTermInput) {
+  const { error } = await supabase
+    .from('glossary_terms')
+    .update(term)
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function deleteGlossaryTerm(id: string) {
+  const { error } = await supabase
+    .from('glossary_terms')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,23 @@
+import { TranscriptionProvider } from "../types";
+import { GeminiTranscriptionService } from "./geminiService";
+import { MockTranscriptionService } from "./mockTranscriptionService";
+import { WhisperTranscriptionService } from "./whisperService";
+import { getConfig } from "../config";
+
+/**
+ * Builds the provider named by VITE_TRANSCRIPTION_PROVIDER ('gemini' by default, 'mock' or 'whisper').
+ */
+const createTranscriptionProvider = (): TranscriptionProvider => {
+  const { provider, gemini, whisper } = getConfig();
+  switch (provider) {
+    case 'mock':
+      return new MockTranscriptionService();
+    case 'whisper':
+      // config.ts refuses to load without VITE_WHISPER_API_URL when Whisper is selected
+      return new WhisperTranscriptionService(whisper!.url, whisper!.apiKey, whisper!.model);
+    default:
+      return new GeminiTranscriptionService(gemini.model);
+  }
+};
+
+export const transcriptionProvider = createTranscriptionProvider();
@@ -0,0 +1,36 @@
+import { UsageQuotaStatus } from "../types";
+import { USAGE_METRIC_LABELS, USAGE_PERIOD_LABELS, UsageMetric, formatUsage, usageLimit } from "../utils/usage";
+import { ProviderError } from "./providerErrors";
+
+type UsageListener = () => void;
+
+const listeners = new Set<UsageListener>();
+
+/**
+ * The server refused a request because the user has used up a daily or monthly quota.
+ */
+export class UsageQuotaError extends ProviderError {
+  constructor(readonly status: UsageQuotaStatus, readonly metric: UsageMetric) {
+    const limit = formatUsage(metric, Number(usageLimit(status, metric)));
+    super(
+      'quota',
+      `${USAGE_PERIOD_LABELS[status.period]} ${USAGE_METRIC_LABELS[metric].toLowerCase()} quota reached (${limit}). ` +
+      `It resets at ${new Date(status.resets_at).toLocaleString()}.`
+    );
+    this.name = 'UsageQuotaError';
+  }
+}
+
+/**
+ * Tells subscribers that a request was metered, so the dashboard can refresh.
+ */
+export const notifyUsage = () => {
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeUsage = (listener: UsageListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
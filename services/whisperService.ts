@@ -0,0 +1,109 @@
+import { TranscriptionOutput, TranscriptSegment, TranscriptionProvider, ProviderCapabilities, LanguageCode, GlossaryTerm, TranscriptAnalysis, RequestOptions } from "../types";
+import { base64ToBlob } from "../utils/audio";
+import { ProviderError, cancelledError, withRetry } from "./providerErrors";
+
+// Whisper only looks at the last 224 tokens of the prompt
+const WHISPER_PROMPT_CHARS = 400;
+
+interface WhisperSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const UNREACHABLE = "Failed to transcribe audio. Please check that the Whisper endpoint is reachable.";
+
+/**
+ * Classifies an error reply from the Whisper server by its status.
+ */
+const responseError = (response: Response): ProviderError => {
+  const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new ProviderError('auth', "The Whisper endpoint rejected the API key.");
+    case 413:
+      return new ProviderError('payload_too_large', "The audio is too large for the Whisper endpoint.");
+    case 429:
+      return new ProviderError('rate_limit', "The Whisper endpoint is rate limiting requests.", retryAfter);
+    default:
+      return response.status >= 500
+        ? new ProviderError('unavailable', `Whisper endpoint responded with ${response.status}.`, retryAfter)
+        : new ProviderError('unknown', `Whisper endpoint responded with ${response.status}.`);
+  }
+};
+
+/**
+ * Adapter for a self-hosted, OpenAI-compatible Whisper server
+ * (POST {baseUrl}/audio/transcriptions with verbose_json output).
+ */
+export class WhisperTranscriptionService implements TranscriptionProvider {
+  readonly id = 'whisper';
+  readonly label = 'Whisper';
+  readonly capabilities: ProviderCapabilities = {
+    timestamps: true,
+    speakerLabels: false,
+    translation: false,
+    analysis: false,
+  };
+
+  constructor(
+    private baseUrl: string,
+    private apiKey?: string,
+    readonly model: string = 'whisper-1'
+  ) {}
+
+  async transcribeAmharic(base64Audio: string, mimeType: string, glossary?: GlossaryTerm[], { signal, onRetry }: RequestOptions = {}): Promise<TranscriptionOutput> {
+    const form = new FormData();
+    form.append('file', base64ToBlob(base64Audio, mimeType), `audio.${mimeType.split('/')[1]?.split(';')[0] || 'webm'}`);
+    form.append('model', this.model);
+    form.append('language', 'am');
+    form.append('response_format', 'verbose_json');
+    if (glossary?.length) {
+      // Whisper has no instructions, but spellings seen in the prompt bias its decoding
+      form.append('prompt', glossary.map(term => term.term).join(', ').slice(0, WHISPER_PROMPT_CHARS));
+    }
+
+    const json = await withRetry(async () => {
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/audio/transcriptions`, {
+          method: 'POST',
+          headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+          body: form,
+          signal,
+        });
+      } catch (error) {
+        if (signal?.aborted) throw cancelledError();
+        console.error("Transcription Error:", error);
+        throw new ProviderError('network', UNREACHABLE);
+      }
+      if (!response.ok) throw responseError(response);
+      return response.json().catch(() => {
+        throw new ProviderError('unknown', "The Whisper endpoint did not reply with JSON.");
+      });
+    }, { signal, onRetry });
+
+    const segments: TranscriptSegment[] = (json.segments || []).map((s: WhisperSegment) => ({
+      start: s.start,
+      end: s.end,
+      text: s.text.trim(),
+    }));
+    if (!segments.length && json.text === undefined) {
+      throw new ProviderError('empty_result', "The Whisper endpoint returned no transcript.");
+    }
+
+    return {
+      text: segments.map(s => s.text).join("\n") || json.text?.trim() || "",
+      segments,
+    };
+  }
+
+  async translate(_amharicText: string, _target: LanguageCode): Promise<string> {
+    throw new Error("Text translation is not supported by the Whisper provider.");
+  }
+
+  async analyze(_amharicText: string): Promise<TranscriptAnalysis> {
+    throw new Error("Transcript analysis is not supported by the Whisper provider.");
+  }
+}
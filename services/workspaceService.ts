@@ -0,0 +1,38 @@
+import { Workspace, WorkspaceMember } from "../types";
+import { createCachedStore } from "./cachedStore";
+import { listWorkspaceMembers, listWorkspaces } from "./supabaseService";
+
+const store = createCachedStore(listWorkspaces, "workspaces");
+const members = new Map<string, Promise<WorkspaceMember[]>>();
+
+/**
+ * Workspaces the signed-in user belongs to, loaded once and shared by the header switcher,
+ * the history and the review panel. Resolves to an empty list when they cannot be loaded.
+ */
+export const getWorkspaces = (): Promise<Workspace[]> => store.get();
+
+/**
+ * Drops the cached workspaces and members after a change and notifies subscribers.
+ */
+export const refreshWorkspaces = (): Promise<void> => {
+  members.clear();
+  return store.refresh();
+};
+
+export const subscribeWorkspaces = (listener: (workspaces: Workspace[]) => void): (() => void) => store.subscribe(listener);
+
+/**
+ * Members of a workspace, cached until the next refreshWorkspaces.
+ */
+export const getWorkspaceMembers = (workspaceId: string): Promise<WorkspaceMember[]> => {
+  let loaded = members.get(workspaceId);
+  if (!loaded) {
+    loaded = listWorkspaceMembers(workspaceId).catch(error => {
+      console.warn("Could not load workspace members:", error);
+      members.delete(workspaceId);
+      return [];
+    });
+    members.set(workspaceId, loaded);
+  }
+  return loaded;
+};
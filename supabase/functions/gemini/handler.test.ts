@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createHandler, HandlerDeps, QuotaStatus } from './handler.ts';
+import { ModelError, StubModel } from './model.ts';
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const TOKEN = 'session-token';
+
+const quota = (overrides: Partial<QuotaStatus> = {}): QuotaStatus => ({
+  period: 'day',
+  max_requests: 200,
+  max_audio_seconds: null,
+  max_tokens: null,
+  requests: 10,
+  audio_seconds: 0,
+  tokens: 0,
+  resets_at: '2026-10-20T00:00:00Z',
+  ...overrides,
+});
+
+const stubDeps = (overrides: Partial<HandlerDeps> = {}) => ({
+  model: new StubModel(),
+  models: ['gemini-default', 'gemini-other'],
+  authenticate: vi.fn(async (token: string) => token === TOKEN ? USER_ID : null),
+  takeRateLimit: vi.fn(async () => 0),
+  quotaStatus: vi.fn(async () => [quota()]),
+  recordUsage: vi.fn(async () => {}),
+  ...overrides,
+});
+
+const post = (body: unknown, token: string | null = TOKEN) =>
+  new Request('http://localhost/functions/v1/gemini', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+const translate = { operation: 'translate', text: 'ሰላም', target: 'en' };
+
+describe('createHandler', () => {
+  it('rejects requests without a valid session', async () => {
+    const deps = stubDeps();
+    const handler = createHandler(deps);
+
+    const missing = await handler(post(translate, null));
+    expect(missing.status).toBe(401);
+    expect(await missing.json()).toMatchObject({ code: 'unauthorized' });
+    expect(deps.authenticate).not.toHaveBeenCalled();
+
+    expect((await handler(post(translate, 'forged'))).status).toBe(401);
+    expect(deps.takeRateLimit).not.toHaveBeenCalled();
+  });
+
+  it('only accepts POST', async () => {
+    const response = await createHandler(stubDeps())(new Request('http://localhost/functions/v1/gemini'));
+    expect(response.status).toBe(405);
+    expect(await response.json()).toMatchObject({ code: 'invalid_request' });
+  });
+
+  it('answers CORS preflight requests', async () => {
+    const response = await createHandler(stubDeps())(new Request('http://localhost/functions/v1/gemini', { method: 'OPTIONS' }));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Methods')).toBe('POST, OPTIONS');
+  });
+
+  it.each([
+    ['a body that is not JSON', '{', 'The request body must be JSON.'],
+    ['an unknown operation', { operation: 'summarize', text: 'ሰላም' }, 'operation must be transcribe, translate or analyze.'],
+    ['a model that is not offered', { ...translate, model: 'gemini-secret' }, 'Model gemini-secret is not available.'],
+    ['audio without data', { operation: 'transcribe', audio: { mimeType: 'audio/webm' } }, 'audio.data and audio.mimeType are required.'],
+    ['empty text', { operation: 'analyze', text: '  ' }, 'text is required.'],
+    ['an unsupported target language', { ...translate, target: 'xx' }, 'target must be one of'],
+  ])('rejects %s', async (_, body, error) => {
+    const deps = stubDeps();
+    const response = await createHandler(deps)(post(body));
+    expect(response.status).toBe(400);
+    const reply = await response.json();
+    expect(reply.code).toBe('invalid_request');
+    expect(reply.error).toContain(error);
+    expect(deps.takeRateLimit).not.toHaveBeenCalled();
+  });
+
+  it('rejects audio over the inline limit before calling the model', async () => {
+    const deps = stubDeps({ model: { generate: vi.fn() } });
+    const data = 'A'.repeat(Math.ceil((20 * 1024 * 1024) / 0.75) + 4);
+    const response = await createHandler(deps)(post({ operation: 'transcribe', audio: { data, mimeType: 'audio/webm' } }));
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ code: 'payload_too_large' });
+    expect(deps.model.generate).not.toHaveBeenCalled();
+  });
+
+  it('passes on the rate limit with a Retry-After header', async () => {
+    const deps = stubDeps({ takeRateLimit: vi.fn(async () => 12) });
+    const response = await createHandler(deps)(post(translate));
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('12');
+    expect(await response.json()).toMatchObject({ code: 'rate_limited', retryAfter: 12 });
+    expect(deps.takeRateLimit).toHaveBeenCalledWith(USER_ID);
+    expect(deps.quotaStatus).not.toHaveBeenCalled();
+    expect(deps.recordUsage).not.toHaveBeenCalled();
+  });
+
+  it('refuses requests once a quota is used up', async () => {
+    const monthly = quota({ period: 'month', max_requests: null, max_tokens: 1000, tokens: 1000 });
+    const deps = stubDeps({ quotaStatus: vi.fn(async () => [quota(), monthly]) });
+    const response = await createHandler(deps)(post(translate));
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ code: 'quota_exceeded', quota: { status: monthly, metric: 'tokens' } });
+    expect(deps.quotaStatus).toHaveBeenCalledWith(TOKEN);
+    expect(deps.recordUsage).not.toHaveBeenCalled();
+  });
+
+  it('transcribes with the default model and records the usage', async () => {
+    const deps = stubDeps();
+    const response = await createHandler(deps)(post({ operation: 'transcribe', audio: { data: 'UklGRg==', mimeType: 'audio/wav' } }));
+    expect(response.status).toBe(200);
+    const reply = await response.json();
+    expect(reply.model).toBe('gemini-default');
+    expect(JSON.parse(reply.text).segments).toHaveLength(2);
+    expect(deps.recordUsage).toHaveBeenCalledWith(USER_ID, expect.objectContaining({
+      provider: 'gemini',
+      model: 'gemini-default',
+      operation: 'transcribe',
+      audio_seconds: 8,
+    }));
+  });
+
+  it('still answers when the usage cannot be recorded', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const deps = stubDeps({ recordUsage: vi.fn(async () => { throw new Error('database down'); }) });
+    const response = await createHandler(deps)(post({ ...translate, model: 'gemini-other' }));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ text: '[stub translation]', model: 'gemini-other' });
+    expect(deps.recordUsage).toHaveBeenCalledOnce();
+    error.mockRestore();
+  });
+
+  it('maps model errors to their status codes', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const deps = stubDeps({ model: { generate: vi.fn(async () => { throw new ModelError('safety_blocked', 'Blocked: SAFETY'); }) } });
+    const response = await createHandler(deps)(post(translate));
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({ code: 'safety_blocked' });
+    expect(deps.recordUsage).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
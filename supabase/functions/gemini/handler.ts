@@ -0,0 +1,174 @@
+import { GenerateContentParameters } from "npm:@google/genai@^1.34.0";
+import { Model, ModelError, ModelErrorCode, UsageCounts } from "./model.ts";
+import { GlossaryInput, LANGUAGE_NAMES, Operation, analysisRequest, transcriptionRequest, translationRequest } from "./prompts.ts";
+
+// Mirrors public.usage_status(); null limits are unlimited
+export interface QuotaStatus {
+  period: 'day' | 'month';
+  max_requests: number | null;
+  max_audio_seconds: number | null;
+  max_tokens: number | null;
+  requests: number;
+  audio_seconds: number;
+  tokens: number;
+  resets_at: string;
+}
+
+export interface UsageRecord extends UsageCounts {
+  provider: string;
+  model: string;
+  operation: Operation;
+}
+
+/**
+ * Everything the handler needs from the outside world, so it can run against stubs.
+ */
+export interface HandlerDeps {
+  model: Model;
+  // Models clients may ask for; the first is used when a request names none
+  models: string[];
+  // The user the session token belongs to, or null when it is missing, expired or forged
+  authenticate(token: string): Promise<string | null>;
+  // Seconds until the user may send another request, 0 when this one may go ahead
+  takeRateLimit(userId: string): Promise<number>;
+  quotaStatus(token: string): Promise<QuotaStatus[]>;
+  recordUsage(userId: string, usage: UsageRecord): Promise<void>;
+}
+
+interface RequestBody {
+  operation?: Operation;
+  model?: string;
+  audio?: { data?: string; mimeType?: string };
+  text?: string;
+  target?: string;
+  glossary?: GlossaryInput[];
+}
+
+export const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers },
+  });
+
+// Gemini's limit for a request with inline audio
+const MAX_INLINE_AUDIO_BYTES = 20 * 1024 * 1024;
+
+const MODEL_ERRORS: Record<ModelErrorCode, { status: number; error: string }> = {
+  safety_blocked: { status: 422, error: "The model declined to process this content because of its safety filters." },
+  empty_result: { status: 502, error: "The model returned an empty response." },
+  payload_too_large: { status: 413, error: "The audio is too large for the model to process in one request." },
+  model_unavailable: { status: 503, error: "The model is temporarily unavailable. Please try again shortly." },
+};
+
+const QUOTA_METRICS = [
+  { metric: 'requests', limit: 'max_requests' },
+  { metric: 'audio_seconds', limit: 'max_audio_seconds' },
+  { metric: 'tokens', limit: 'max_tokens' },
+] as const;
+
+const exceededQuota = (statuses: QuotaStatus[]) => {
+  for (const status of statuses) {
+    const exceeded = QUOTA_METRICS.find(({ metric, limit }) => status[limit] !== null && Number(status[metric]) >= Number(status[limit]));
+    if (exceeded) return { status, metric: exceeded.metric };
+  }
+  return null;
+};
+
+/**
+ * The model request for a client request, or an error message when the body is incomplete.
+ */
+const buildRequest = (body: RequestBody, model: string): GenerateContentParameters | string => {
+  switch (body.operation) {
+    case 'transcribe':
+      if (!body.audio?.data || !body.audio.mimeType) return "audio.data and audio.mimeType are required.";
+      return transcriptionRequest(model, { data: body.audio.data, mimeType: body.audio.mimeType }, body.glossary);
+    case 'translate':
+      if (!body.text?.trim()) return "text is required.";
+      if (!body.target || !LANGUAGE_NAMES[body.target]) return `target must be one of ${Object.keys(LANGUAGE_NAMES).join(', ')}.`;
+      return translationRequest(model, body.text, body.target, body.glossary);
+    case 'analyze':
+      if (!body.text?.trim()) return "text is required.";
+      return analysisRequest(model, body.text, body.glossary);
+    default:
+      return "operation must be transcribe, translate or analyze.";
+  }
+};
+
+/**
+ * Transcribes, translates or analyzes for a signed-in user: checks their session, rate
+ * limit and quota, sends the request to the model with the server's key, and records
+ * the usage. Replies with { text, model }, or { error, code } and an HTTP error status.
+ */
+export const createHandler = (deps: HandlerDeps) => async (req: Request): Promise<Response> => {
+  try {
+    return await handle(deps, req);
+  } catch (error) {
+    console.error("Proxy Error:", error);
+    return json(500, { error: "Something went wrong on the server.", code: 'server_error' });
+  }
+};
+
+const handle = async (deps: HandlerDeps, req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: CORS_HEADERS });
+  if (req.method !== 'POST') return json(405, { error: "Use POST.", code: 'invalid_request' });
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') || '';
+  const userId = token ? await deps.authenticate(token) : null;
+  if (!userId) {
+    return json(401, { error: "Your session has expired. Please sign in again.", code: 'unauthorized' });
+  }
+
+  let body: RequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { error: "The request body must be JSON.", code: 'invalid_request' });
+  }
+
+  // Base64 takes four characters for every three bytes
+  if ((body.audio?.data?.length || 0) * 0.75 > MAX_INLINE_AUDIO_BYTES) {
+    return json(413, { error: "The audio is larger than the 20 MB the model accepts in one request.", code: 'payload_too_large' });
+  }
+
+  const model = body.model || deps.models[0];
+  if (!deps.models.includes(model)) {
+    return json(400, { error: `Model ${model} is not available.`, code: 'invalid_request' });
+  }
+  const request = buildRequest(body, model);
+  if (typeof request === 'string') return json(400, { error: request, code: 'invalid_request' });
+
+  const retryAfter = await deps.takeRateLimit(userId);
+  if (retryAfter > 0) {
+    return json(
+      429,
+      { error: `Too many requests. Please try again in ${retryAfter} seconds.`, code: 'rate_limited', retryAfter },
+      { 'Retry-After': String(retryAfter) }
+    );
+  }
+
+  const quota = exceededQuota(await deps.quotaStatus(token));
+  if (quota) return json(429, { error: "Usage quota reached.", code: 'quota_exceeded', quota });
+
+  let text: string;
+  try {
+    const response = await deps.model.generate(body.operation!, request);
+    text = response.text;
+    await deps.recordUsage(userId, { provider: 'gemini', model, operation: body.operation!, ...response.usage })
+      .catch(error => console.error("Could not record usage:", error));
+  } catch (error) {
+    console.error("Model Error:", error);
+    if (error instanceof ModelError) {
+      const { status, error: message } = MODEL_ERRORS[error.code];
+      return json(status, { error: message, code: error.code });
+    }
+    return json(502, { error: "The model request failed.", code: 'model_error' });
+  }
+
+  return json(200, { text, model });
+};
@@ -0,0 +1,57 @@
+import { createClient } from "npm:@supabase/supabase-js@^2.48.1";
+import { GeminiModel, StubModel } from "./model.ts";
+import { createHandler } from "./handler.ts";
+
+// Provided by the Edge Functions runtime, and by `supabase functions serve` locally
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
+// Set GEMINI_STUB=true to answer with canned output instead of calling Gemini
+const useStub = Deno.env.get('GEMINI_STUB') === 'true';
+if (!useStub && !GEMINI_API_KEY) {
+  throw new Error("GEMINI_API_KEY must be set, or GEMINI_STUB=true to use the stub model.");
+}
+
+const RATE_LIMIT_REQUESTS = Number(Deno.env.get('RATE_LIMIT_REQUESTS')) || 30;
+const RATE_LIMIT_WINDOW_SECONDS = Number(Deno.env.get('RATE_LIMIT_WINDOW_SECONDS')) || 60;
+
+// Service role: bypasses row level security to record usage and count requests
+const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } });
+
+Deno.serve(createHandler({
+  model: useStub ? new StubModel() : new GeminiModel(GEMINI_API_KEY!),
+  models: (Deno.env.get('GEMINI_MODELS') || 'gemini-3-flash-preview').split(',').map(model => model.trim()).filter(Boolean),
+
+  async authenticate(token) {
+    const { data, error } = await admin.auth.getUser(token);
+    return error ? null : data.user?.id ?? null;
+  },
+
+  async takeRateLimit(userId) {
+    const { data, error } = await admin.rpc('take_rate_limit', {
+      requester: userId,
+      max_requests: RATE_LIMIT_REQUESTS,
+      window_seconds: RATE_LIMIT_WINDOW_SECONDS,
+    });
+    if (error) throw error;
+    return data as number;
+  },
+
+  async quotaStatus(token) {
+    // As the user, so usage_status() reports on them
+    const client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+    const { data, error } = await client.rpc('usage_status');
+    if (error) throw error;
+    return data || [];
+  },
+
+  async recordUsage(userId, usage) {
+    const { error } = await admin.from('usage_events').insert([{ ...usage, user_id: userId }]);
+    if (error) throw error;
+  },
+}));
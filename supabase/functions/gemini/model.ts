@@ -0,0 +1,126 @@
+import { ApiError, FinishReason, GenerateContentParameters, GoogleGenAI, MediaModality } from "npm:@google/genai@^1.34.0";
+import { Operation } from "./prompts.ts";
+
+// Gemini represents each second of audio as 32 tokens
+const AUDIO_TOKENS_PER_SECOND = 32;
+
+export interface UsageCounts {
+  audio_seconds: number;
+  prompt_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+}
+
+export interface ModelResponse {
+  text: string;
+  usage: UsageCounts;
+}
+
+export type ModelErrorCode = 'safety_blocked' | 'empty_result' | 'payload_too_large' | 'model_unavailable';
+
+/**
+ * A model failure the client can act on, as opposed to a bug or an unexpected reply.
+ */
+export class ModelError extends Error {
+  constructor(readonly code: ModelErrorCode, message: string) {
+    super(message);
+    this.name = 'ModelError';
+  }
+}
+
+// Reasons a response stops early because of content policy rather than length or errors
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+// Statuses from the Gemini API that clear up on their own
+const UNAVAILABLE_STATUSES = [429, 500, 503, 504];
+
+/**
+ * What the endpoint sends requests to: Gemini in production, StubModel for local testing.
+ */
+export interface Model {
+  generate(operation: Operation, params: GenerateContentParameters): Promise<ModelResponse>;
+}
+
+export class GeminiModel implements Model {
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generate(_operation: Operation, params: GenerateContentParameters): Promise<ModelResponse> {
+    let response;
+    try {
+      response = await this.ai.models.generateContent(params);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        if (error.status === 413 || (error.status === 400 && /size|too large|exceeds/i.test(error.message))) {
+          throw new ModelError('payload_too_large', error.message);
+        }
+        if (UNAVAILABLE_STATUSES.includes(error.status)) throw new ModelError('model_unavailable', error.message);
+      }
+      throw error;
+    }
+
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+      throw new ModelError('safety_blocked', `Blocked: ${blockReason || finishReason}`);
+    }
+    if (!response.text) throw new ModelError('empty_result', `Empty response (finish reason ${finishReason})`);
+
+    const usage = response.usageMetadata;
+    const audioTokens = usage?.promptTokensDetails?.find(detail => detail.modality === MediaModality.AUDIO)?.tokenCount || 0;
+    return {
+      text: response.text,
+      usage: {
+        audio_seconds: audioTokens / AUDIO_TOKENS_PER_SECOND,
+        prompt_tokens: usage?.promptTokenCount || 0,
+        // Thinking tokens are billed as output
+        output_tokens: (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0),
+        total_tokens: usage?.totalTokenCount || 0,
+      },
+    };
+  }
+}
+
+/**
+ * Canned replies in the shape Gemini gives for each operation, so the endpoint can be run
+ * and tested locally without an API key. Usage is estimated from the request size.
+ */
+export class StubModel implements Model {
+  async generate(operation: Operation, params: GenerateContentParameters): Promise<ModelResponse> {
+    const request = JSON.stringify(params.contents);
+    const text = operation === 'transcribe'
+      ? JSON.stringify({
+        segments: [
+          { start: 0, end: 4, speaker: "Speaker 1", text: "ሰላም፣ እንኳን ደህና መጣችሁ።" },
+          { start: 4, end: 8, speaker: "Speaker 2", text: "ዛሬ ስለ ፕሮጀክቱ እንነጋገራለን።" },
+        ],
+      })
+      : operation === 'analyze'
+        ? JSON.stringify({
+          am: { summary: "የሙከራ ማጠቃለያ።", actionItems: [{ task: "ማስታወሻ ማጋራት", owner: "Speaker 1" }], topics: ["ሙከራ"], entities: [{ name: "አዲስ አበባ", type: "place" }] },
+          en: { summary: "A stub summary.", actionItems: [{ task: "Share the notes", owner: "Speaker 1" }], topics: ["Testing"], entities: [{ name: "Addis Ababa", type: "place" }] },
+        })
+        : "[stub translation]";
+
+    const promptTokens = Math.ceil(request.length / 4);
+    const outputTokens = Math.ceil(text.length / 4);
+    return {
+      text,
+      usage: {
+        audio_seconds: operation === 'transcribe' ? 8 : 0,
+        prompt_tokens: promptTokens,
+        output_tokens: outputTokens,
+        total_tokens: promptTokens + outputTokens,
+      },
+    };
+  }
+}
@@ -0,0 +1,178 @@
+import { GenerateContentParameters, Type } from "npm:@google/genai@^1.34.0";
+
+export type Operation = 'transcribe' | 'translate' | 'analyze';
+
+export interface GlossaryInput {
+  term: string;
+  variants: string[];
+  english: string | null;
+}
+
+// Keeps prompts a reasonable size for very large glossaries
+const MAX_PROMPT_TERMS = 200;
+
+// Translation targets the app offers; mirrors utils/languages.ts
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  om: 'Afaan Oromo',
+  ti: 'Tigrinya',
+  ar: 'Arabic',
+  fr: 'French',
+};
+
+const SEGMENTS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: "Segment start time in seconds" },
+          end: { type: Type.NUMBER, description: "Segment end time in seconds" },
+          speaker: { type: Type.STRING, description: "Speaker label such as 'Speaker 1', consistent for each voice throughout the audio" },
+          text: { type: Type.STRING, description: "Verbatim Amharic text of the segment" },
+        },
+        required: ["start", "end", "text"],
+        propertyOrdering: ["start", "end", "speaker", "text"],
+      },
+    },
+  },
+  required: ["segments"],
+};
+
+const ANALYSIS_CONTENT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "Summary of the recording in three to five sentences" },
+    actionItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          task: { type: Type.STRING, description: "What was agreed or asked to be done" },
+          owner: { type: Type.STRING, description: "Who will do it, only if the recording says so" },
+        },
+        required: ["task"],
+        propertyOrdering: ["task", "owner"],
+      },
+    },
+    topics: { type: Type.ARRAY, items: { type: Type.STRING, description: "A key topic in a few words" } },
+    entities: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          type: { type: Type.STRING, enum: ["person", "place", "organization"] },
+        },
+        required: ["name", "type"],
+        propertyOrdering: ["name", "type"],
+      },
+    },
+  },
+  required: ["summary", "actionItems", "topics", "entities"],
+  propertyOrdering: ["summary", "actionItems", "topics", "entities"],
+};
+
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    am: { ...ANALYSIS_CONTENT_SCHEMA, description: "The analysis written in Amharic" },
+    en: { ...ANALYSIS_CONTENT_SCHEMA, description: "The same analysis written in English" },
+  },
+  required: ["am", "en"],
+  propertyOrdering: ["am", "en"],
+};
+
+/**
+ * Glossary section appended to transcription and translation prompts.
+ */
+const glossaryPrompt = (glossary: GlossaryInput[] | undefined, mode: 'transcription' | 'translation'): string => {
+  const terms = (glossary || []).filter(term => mode === 'transcription' || term.english).slice(0, MAX_PROMPT_TERMS);
+  if (!terms.length) return '';
+
+  const lines = terms.map(term => mode === 'transcription'
+    ? `- ${term.term}${term.variants.length ? ` (not: ${term.variants.join(', ')})` : ''}`
+    : `- ${term.term} = ${term.english}`);
+  const intro = mode === 'transcription'
+    ? 'Use exactly these spellings for the following names and terms whenever they are spoken:'
+    : 'Translate the following names and terms exactly as given:';
+  return `\n\n${intro}\n${lines.join('\n')}`;
+};
+
+/**
+ * Verbatim Amharic transcription into timestamped, speaker-labelled segments.
+ */
+export const transcriptionRequest = (
+  model: string,
+  audio: { data: string; mimeType: string },
+  glossary?: GlossaryInput[]
+): GenerateContentParameters => {
+  const prompt = `You are a professional Amharic transcriber.
+    Transcribe the provided audio content exactly into Amharic text.
+    Do not provide translations or summaries, only the verbatim transcription.
+    Split the transcription into subtitle-sized segments of one or two sentences,
+    each with its start and end time in seconds from the beginning of the audio.
+    Recordings are often interviews or conversations between two to five people.
+    Label every segment with who is speaking: "Speaker 1" for the first voice heard,
+    "Speaker 2" for the next new voice, and so on, reusing the same label every time
+    that person speaks. Start a new segment whenever the speaker changes.
+    If the audio is silent or unintelligible, state that clearly.${glossaryPrompt(glossary, 'transcription')}`;
+
+  return {
+    model,
+    contents: { parts: [{ inlineData: audio }, { text: prompt }] },
+    config: {
+      temperature: 0.2,
+      topP: 0.8,
+      topK: 40,
+      responseMimeType: "application/json",
+      responseSchema: SEGMENTS_SCHEMA,
+    },
+  };
+};
+
+/**
+ * Translation of Amharic text into one of LANGUAGE_NAMES.
+ */
+export const translationRequest = (
+  model: string,
+  amharicText: string,
+  target: string,
+  glossary?: GlossaryInput[]
+): GenerateContentParameters => {
+  // Glossary entries only carry English equivalents
+  const terms = target === 'en' ? glossaryPrompt(glossary, 'translation') : '';
+  const prompt = `You are a professional translator. Translate the following Amharic text into clear, fluent ${LANGUAGE_NAMES[target]}.
+    Maintain the original meaning and tone. Reply with the translation only.${terms}
+
+    Amharic Text:
+    ${amharicText}`;
+
+  return { model, contents: prompt, config: { temperature: 0.3 } };
+};
+
+/**
+ * Summary, action items, topics and named entities, in Amharic and English.
+ */
+export const analysisRequest = (model: string, amharicText: string, glossary?: GlossaryInput[]): GenerateContentParameters => {
+  const prompt = `You are an analyst reviewing the transcript of an Amharic recording.
+    Write a short summary, list the action items, the key topics, and the people, places
+    and organisations mentioned. Give an action item an owner only when the transcript says
+    who will do it; never guess. Write everything once in Amharic and once in English,
+    with the same items in the same order in both languages.${glossaryPrompt(glossary, 'translation')}
+
+    Amharic Transcript:
+    ${amharicText}`;
+
+  return {
+    model,
+    contents: prompt,
+    config: {
+      temperature: 0.2,
+      responseMimeType: "application/json",
+      responseSchema: ANALYSIS_SCHEMA,
+    },
+  };
+};
@@ -0,0 +1,19 @@
+-- Baseline schema for the transcriptions table the app has been writing to.
+create table if not exists public.transcriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  amharic_text text not null,
+  english_text text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists transcriptions_user_created_idx
+  on public.transcriptions (user_id, created_at desc);
+
+alter table public.transcriptions enable row level security;
+
+create policy "Users manage their own transcriptions"
+  on public.transcriptions
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,8 @@
+-- Translations keyed by language code ('en', 'om', 'ti', 'ar', 'fr').
+-- english_text stays in sync with translations->>'en' for older clients.
+alter table public.transcriptions
+  add column if not exists translations jsonb not null default '{}'::jsonb;
+
+update public.transcriptions
+  set translations = jsonb_build_object('en', english_text)
+  where english_text is not null and translations = '{}'::jsonb;
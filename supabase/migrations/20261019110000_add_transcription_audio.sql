@@ -0,0 +1,22 @@
+-- Original recordings are kept in the private 'transcription-audio' bucket,
+-- one folder per user: <user id>/<uuid>.<ext>
+alter table public.transcriptions
+  add column if not exists audio_path text,
+  add column if not exists audio_duration double precision,
+  add column if not exists audio_mime_type text;
+
+insert into storage.buckets (id, name, public)
+  values ('transcription-audio', 'transcription-audio', false)
+  on conflict (id) do nothing;
+
+create policy "Users can read their own audio"
+  on storage.objects for select
+  using (bucket_id = 'transcription-audio' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload their own audio"
+  on storage.objects for insert
+  with check (bucket_id = 'transcription-audio' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own audio"
+  on storage.objects for delete
+  using (bucket_id = 'transcription-audio' and (storage.foldername(name))[1] = auth.uid()::text);
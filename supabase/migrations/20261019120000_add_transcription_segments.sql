@@ -0,0 +1,4 @@
+-- Timed transcript segments: [{ "start": seconds, "end": seconds, "text": "...", "speaker"?: "..." }].
+-- Used for synced playback and subtitle export; null for rows saved without timing.
+alter table public.transcriptions
+  add column if not exists segments jsonb;
@@ -0,0 +1,19 @@
+-- Per-user glossary: preferred Amharic spellings of names and domain terms, the
+-- misspellings to correct automatically, and an optional English equivalent.
+create table if not exists public.glossary_terms (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  term text not null,
+  variants text[] not null default '{}',
+  english text,
+  created_at timestamptz not null default now(),
+  unique (user_id, term)
+);
+
+alter table public.glossary_terms enable row level security;
+
+create policy "Users manage their own glossary"
+  on public.glossary_terms
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
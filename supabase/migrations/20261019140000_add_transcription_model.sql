@@ -0,0 +1,5 @@
+-- Which provider and model produced the transcript, for export metadata.
+-- Null for rows saved before this column existed.
+alter table public.transcriptions
+  add column if not exists provider text,
+  add column if not exists model text;
@@ -0,0 +1,28 @@
+-- Full-text search over the Amharic transcript and English translation.
+-- Amharic spells several sounds with interchangeable letters (ሀ/ሐ/ኀ, ሰ/ሠ, አ/ዐ, ጸ/ፀ, and
+-- ሀ/ሃ, አ/ኣ), so both the stored text and the query are folded onto one spelling.
+-- The character lists mirror normalizeForSearch in utils/search.ts.
+create or replace function public.normalize_amharic(value text)
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select translate(
+    lower(coalesce(value, '')),
+    'ሃሐሑሒሓሔሕሖሠሡሢሣሤሥሦኀኁኂኃኄኅኆኣዐዑዒዓዔዕዖፀፁፂፃፄፅፆ',
+    'ሀሀሁሂሀሄህሆሰሱሲሳሴስሶሀሁሂሀሄህሆአአኡኢአኤእኦጸጹጺጻጼጽጾ'
+  )
+$$;
+
+alter table public.transcriptions
+  add column if not exists search_text text
+  generated always as (
+    public.normalize_amharic(amharic_text) || E'\n' || public.normalize_amharic(english_text)
+  ) stored;
+
+create extension if not exists pg_trgm;
+
+-- Trigram index so ilike '%term%' does not scan every row
+create index if not exists transcriptions_search_text_idx
+  on public.transcriptions using gin (search_text gin_trgm_ops);
@@ -0,0 +1,33 @@
+-- Versions of each transcript: the raw model output ('model', at most one per
+-- transcript) and every saved revision, so human corrections can be audited and undone.
+create table if not exists public.transcription_versions (
+  id uuid primary key default gen_random_uuid(),
+  transcription_id uuid not null references public.transcriptions (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('model', 'revision')),
+  amharic_text text not null,
+  translations jsonb not null default '{}'::jsonb,
+  segments jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists transcription_versions_transcription_id_idx
+  on public.transcription_versions (transcription_id, created_at);
+
+create unique index if not exists transcription_versions_model_idx
+  on public.transcription_versions (transcription_id)
+  where kind = 'model';
+
+alter table public.transcription_versions enable row level security;
+
+create policy "Users manage versions of their own transcriptions"
+  on public.transcription_versions
+  for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.transcriptions t
+      where t.id = transcription_id and t.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,64 @@
+-- Projects (folders) group a user's transcriptions, e.g. per client. Each transcription
+-- also gets an optional title and free-form tags.
+create table if not exists public.projects (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.projects enable row level security;
+
+create policy "Users manage their own projects"
+  on public.projects
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Deleting a project leaves its transcriptions unfiled rather than deleting them
+alter table public.transcriptions
+  add column if not exists project_id uuid references public.projects (id) on delete set null,
+  add column if not exists title text,
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists transcriptions_project_id_idx on public.transcriptions (project_id);
+create index if not exists transcriptions_tags_idx on public.transcriptions using gin (tags);
+
+-- Search titles as well: generated columns cannot be altered, so recreate it
+drop index if exists public.transcriptions_search_text_idx;
+alter table public.transcriptions drop column if exists search_text;
+alter table public.transcriptions
+  add column search_text text
+  generated always as (
+    public.normalize_amharic(title) || E'\n' ||
+    public.normalize_amharic(amharic_text) || E'\n' ||
+    public.normalize_amharic(english_text)
+  ) stored;
+create index if not exists transcriptions_search_text_idx
+  on public.transcriptions using gin (search_text gin_trgm_ops);
+
+-- Bulk tagging: adds tags to each row, keeping the ones it already has. Runs with the
+-- caller's rights, so row level security limits it to their own transcriptions.
+create or replace function public.add_transcription_tags(transcription_ids uuid[], new_tags text[])
+returns void
+language sql
+security invoker
+as $$
+  update public.transcriptions
+  set tags = array(select distinct tag from unnest(tags || new_tags) as tag order by tag)
+  where id = any(transcription_ids);
+$$;
+
+-- Every tag the caller has used, for the history filter
+create or replace function public.list_transcription_tags()
+returns setof text
+language sql
+stable
+security invoker
+as $$
+  select distinct tag
+  from public.transcriptions, unnest(tags) as tag
+  where user_id = auth.uid()
+  order by tag;
+$$;
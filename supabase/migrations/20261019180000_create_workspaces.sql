@@ -0,0 +1,387 @@
+-- Team workspaces. Transcriptions with a workspace_id belong to the workspace and are
+-- shared with its members by role: owners manage members and everything else, editors
+-- create, edit and review transcripts, viewers only read. Rows without a workspace stay
+-- private to the user who saved them.
+create table if not exists public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.workspace_members (
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  -- Copied from the member's account so teammates can see who is who
+  email text not null,
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_id_idx on public.workspace_members (user_id);
+
+-- Pending invitations, matched to the invitee by the email they sign in with.
+-- Accepting one turns it into a membership and deletes it.
+create table if not exists public.workspace_invitations (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  email text not null check (email = lower(email)),
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  invited_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (workspace_id, email)
+);
+
+create table if not exists public.workspace_activity (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  actor_id uuid references auth.users (id) on delete set null,
+  actor_email text,
+  action text not null,
+  transcription_id uuid references public.transcriptions (id) on delete set null,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists workspace_activity_workspace_created_idx
+  on public.workspace_activity (workspace_id, created_at desc);
+
+-- Review workflow: draft -> in_review -> approved, with an optional assignee
+alter table public.transcriptions
+  add column if not exists workspace_id uuid references public.workspaces (id) on delete set null,
+  add column if not exists status text not null default 'draft'
+    check (status in ('draft', 'in_review', 'approved')),
+  add column if not exists assignee_id uuid references auth.users (id) on delete set null;
+
+create index if not exists transcriptions_workspace_created_idx
+  on public.transcriptions (workspace_id, created_at desc);
+
+-- Role of a user in a workspace, or null when they are not a member. Security definer
+-- so policies on workspace_members can call it without recursing into themselves.
+create or replace function public.workspace_role(ws uuid, member uuid default auth.uid())
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.workspace_members where workspace_id = ws and user_id = member
+$$;
+
+create or replace function public.can_edit_transcription(transcription uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.transcriptions t
+    where t.id = transcription
+      and (
+        (t.workspace_id is null and t.user_id = auth.uid())
+        or public.workspace_role(t.workspace_id) in ('owner', 'editor')
+      )
+  )
+$$;
+
+-- Transcriptions: private rows as before, workspace rows by role
+drop policy if exists "Users manage their own transcriptions" on public.transcriptions;
+
+create policy "Users read their own and their workspaces' transcriptions"
+  on public.transcriptions
+  for select
+  using (
+    (workspace_id is null and user_id = auth.uid())
+    or public.workspace_role(workspace_id) is not null
+  );
+
+create policy "Users and workspace editors create transcriptions"
+  on public.transcriptions
+  for insert
+  with check (
+    user_id = auth.uid()
+    and (workspace_id is null or public.workspace_role(workspace_id) in ('owner', 'editor'))
+    and (assignee_id is null or public.workspace_role(workspace_id, assignee_id) is not null)
+  );
+
+create policy "Users and workspace editors update transcriptions"
+  on public.transcriptions
+  for update
+  using (
+    (workspace_id is null and user_id = auth.uid())
+    or public.workspace_role(workspace_id) in ('owner', 'editor')
+  )
+  with check (
+    ((workspace_id is null and user_id = auth.uid())
+      or public.workspace_role(workspace_id) in ('owner', 'editor'))
+    and (assignee_id is null or public.workspace_role(workspace_id, assignee_id) is not null)
+  );
+
+-- Editors may delete what they saved themselves; owners anything in the workspace
+create policy "Users and workspace owners delete transcriptions"
+  on public.transcriptions
+  for delete
+  using (
+    (workspace_id is null and user_id = auth.uid())
+    or public.workspace_role(workspace_id) = 'owner'
+    or (user_id = auth.uid() and public.workspace_role(workspace_id) = 'editor')
+  );
+
+-- Versions follow the access to their transcription
+drop policy if exists "Users manage versions of their own transcriptions" on public.transcription_versions;
+
+create policy "Users read versions of transcriptions they can read"
+  on public.transcription_versions
+  for select
+  using (exists (select 1 from public.transcriptions t where t.id = transcription_id));
+
+create policy "Editors record versions"
+  on public.transcription_versions
+  for insert
+  with check (user_id = auth.uid() and public.can_edit_transcription(transcription_id));
+
+create policy "Editors update the model output"
+  on public.transcription_versions
+  for update
+  using (public.can_edit_transcription(transcription_id))
+  with check (public.can_edit_transcription(transcription_id));
+
+-- Audio stays in the uploader's folder; members read it through the shared row
+create policy "Workspace members can read shared audio"
+  on storage.objects for select
+  using (
+    bucket_id = 'transcription-audio'
+    and exists (
+      select 1 from public.transcriptions t
+      where t.audio_path = objects.name and t.workspace_id is not null
+    )
+  );
+
+-- Workspaces and members
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.workspace_invitations enable row level security;
+alter table public.workspace_activity enable row level security;
+
+create policy "Members read their workspaces"
+  on public.workspaces for select
+  using (public.workspace_role(id) is not null);
+
+-- So an invitation can show the workspace's name before it is accepted
+create policy "Invitees read the workspaces they are invited to"
+  on public.workspaces for select
+  using (exists (
+    select 1 from public.workspace_invitations i
+    where i.workspace_id = workspaces.id and i.email = lower(auth.jwt() ->> 'email')
+  ));
+
+create policy "Owners rename workspaces"
+  on public.workspaces for update
+  using (public.workspace_role(id) = 'owner')
+  with check (public.workspace_role(id) = 'owner');
+
+create policy "Owners delete workspaces"
+  on public.workspaces for delete
+  using (public.workspace_role(id) = 'owner');
+
+create policy "Members read their teammates"
+  on public.workspace_members for select
+  using (public.workspace_role(workspace_id) is not null);
+
+create policy "Owners change roles"
+  on public.workspace_members for update
+  using (public.workspace_role(workspace_id) = 'owner')
+  with check (public.workspace_role(workspace_id) = 'owner');
+
+create policy "Owners remove members and members leave"
+  on public.workspace_members for delete
+  using (public.workspace_role(workspace_id) = 'owner' or user_id = auth.uid());
+
+create policy "Owners and invitees see invitations"
+  on public.workspace_invitations for select
+  using (public.workspace_role(workspace_id) = 'owner' or email = lower(auth.jwt() ->> 'email'));
+
+create policy "Owners invite"
+  on public.workspace_invitations for insert
+  with check (public.workspace_role(workspace_id) = 'owner' and invited_by = auth.uid());
+
+create policy "Owners revoke and invitees decline invitations"
+  on public.workspace_invitations for delete
+  using (public.workspace_role(workspace_id) = 'owner' or email = lower(auth.jwt() ->> 'email'));
+
+-- Activity is written by the triggers below only
+create policy "Members read workspace activity"
+  on public.workspace_activity for select
+  using (public.workspace_role(workspace_id) is not null);
+
+-- A workspace always keeps an owner; deleting the workspace itself removes them all
+create or replace function public.keep_workspace_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.role = 'owner'
+    and (tg_op = 'DELETE' or new.role <> 'owner')
+    and exists (select 1 from public.workspaces where id = old.workspace_id)
+    and not exists (
+      select 1 from public.workspace_members
+      where workspace_id = old.workspace_id and role = 'owner' and user_id <> old.user_id
+    )
+  then
+    raise exception 'A workspace needs at least one owner.';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+create trigger workspace_members_keep_owner
+  before update or delete on public.workspace_members
+  for each row execute function public.keep_workspace_owner();
+
+create or replace function public.create_workspace(workspace_name text)
+returns public.workspaces
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  created public.workspaces;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to create a workspace.';
+  end if;
+  insert into public.workspaces (name, created_by) values (workspace_name, auth.uid()) returning * into created;
+  insert into public.workspace_members (workspace_id, user_id, role, email)
+    values (created.id, auth.uid(), 'owner', lower(auth.jwt() ->> 'email'));
+  return created;
+end;
+$$;
+
+create or replace function public.accept_workspace_invitation(invitation_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invitation public.workspace_invitations;
+begin
+  select * into invitation from public.workspace_invitations
+    where id = invitation_id and email = lower(auth.jwt() ->> 'email');
+  if not found then
+    raise exception 'This invitation does not exist or is for another email address.';
+  end if;
+  insert into public.workspace_members (workspace_id, user_id, role, email)
+    values (invitation.workspace_id, auth.uid(), invitation.role, invitation.email)
+    on conflict (workspace_id, user_id) do update set role = excluded.role;
+  delete from public.workspace_invitations where id = invitation_id;
+  return invitation.workspace_id;
+end;
+$$;
+
+-- Activity feed
+create or replace function public.log_workspace_activity(
+  ws uuid, action text, transcription uuid default null, details jsonb default '{}'::jsonb
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.workspace_activity (workspace_id, actor_id, actor_email, action, transcription_id, details)
+  values (ws, auth.uid(), lower(auth.jwt() ->> 'email'), action, transcription, details)
+$$;
+
+create or replace function public.log_transcription_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  label jsonb;
+begin
+  if tg_op = 'DELETE' then
+    if old.workspace_id is not null then
+      perform public.log_workspace_activity(old.workspace_id, 'transcription_deleted', null,
+        jsonb_build_object('title', coalesce(old.title, left(old.amharic_text, 60))));
+    end if;
+    return old;
+  end if;
+  if new.workspace_id is null then
+    return new;
+  end if;
+  label := jsonb_build_object('title', coalesce(new.title, left(new.amharic_text, 60)));
+  if tg_op = 'INSERT' or new.workspace_id is distinct from old.workspace_id then
+    perform public.log_workspace_activity(new.workspace_id, 'transcription_added', new.id, label);
+    return new;
+  end if;
+  if new.status is distinct from old.status then
+    perform public.log_workspace_activity(new.workspace_id, 'status_changed', new.id,
+      label || jsonb_build_object('from', old.status, 'to', new.status));
+  end if;
+  if new.assignee_id is distinct from old.assignee_id then
+    perform public.log_workspace_activity(new.workspace_id, 'assigned', new.id,
+      label || jsonb_build_object('assignee', (
+        select email from public.workspace_members
+        where workspace_id = new.workspace_id and user_id = new.assignee_id
+      )));
+  end if;
+  if new.amharic_text is distinct from old.amharic_text or new.translations is distinct from old.translations then
+    perform public.log_workspace_activity(new.workspace_id, 'transcription_edited', new.id, label);
+  end if;
+  return new;
+end;
+$$;
+
+create trigger transcriptions_log_activity
+  after insert or update or delete on public.transcriptions
+  for each row execute function public.log_transcription_activity();
+
+create or replace function public.log_member_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.log_workspace_activity(new.workspace_id, 'member_joined', null,
+      jsonb_build_object('email', new.email, 'role', new.role));
+  elsif tg_op = 'UPDATE' then
+    if new.role is distinct from old.role then
+      perform public.log_workspace_activity(new.workspace_id, 'role_changed', null,
+        jsonb_build_object('email', new.email, 'from', old.role, 'to', new.role));
+    end if;
+  elsif exists (select 1 from public.workspaces where id = old.workspace_id) then
+    perform public.log_workspace_activity(old.workspace_id, 'member_removed', null,
+      jsonb_build_object('email', old.email, 'role', old.role));
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+create trigger workspace_members_log_activity
+  after insert or update or delete on public.workspace_members
+  for each row execute function public.log_member_activity();
+
+create or replace function public.log_invitation_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.log_workspace_activity(new.workspace_id, 'member_invited', null,
+    jsonb_build_object('email', new.email, 'role', new.role));
+  return new;
+end;
+$$;
+
+create trigger workspace_invitations_log_activity
+  after insert on public.workspace_invitations
+  for each row execute function public.log_invitation_activity();
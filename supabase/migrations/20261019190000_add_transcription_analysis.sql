@@ -0,0 +1,4 @@
+-- Summary, action items, topics and named entities of a transcript, in Amharic and English.
+-- Shape: { "am": { "summary", "actionItems": [{ "task", "owner"? }], "topics", "entities": [{ "name", "type" }] }, "en": { ... } }
+alter table public.transcriptions
+  add column if not exists analysis jsonb;
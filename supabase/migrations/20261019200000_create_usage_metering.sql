@@ -0,0 +1,123 @@
+-- Per-user usage of the model: one row per request, with the audio it was sent and the
+-- tokens it consumed, as reported by the model's response.
+create table if not exists public.usage_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  provider text not null,
+  model text not null,
+  operation text not null check (operation in ('transcribe', 'translate', 'analyze')),
+  audio_seconds numeric not null default 0 check (audio_seconds >= 0),
+  prompt_tokens integer not null default 0 check (prompt_tokens >= 0),
+  output_tokens integer not null default 0 check (output_tokens >= 0),
+  total_tokens integer not null default 0 check (total_tokens >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists usage_events_user_created_idx on public.usage_events (user_id, created_at desc);
+
+alter table public.usage_events enable row level security;
+
+-- Usage is append-only from the app; nobody can edit or delete their own records
+create policy "Users read their own usage"
+  on public.usage_events
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users record their own usage"
+  on public.usage_events
+  for insert
+  with check (auth.uid() = user_id);
+
+-- Daily and monthly limits. The row with a null user_id applies to everyone without a
+-- row of their own. A null limit means unlimited. Quotas are managed from the SQL editor
+-- or with the service role key; the app can only read them.
+create table if not exists public.usage_quotas (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  period text not null check (period in ('day', 'month')),
+  max_requests integer,
+  max_audio_seconds numeric,
+  max_tokens bigint,
+  unique nulls not distinct (user_id, period)
+);
+
+alter table public.usage_quotas enable row level security;
+
+create policy "Users read their quotas"
+  on public.usage_quotas
+  for select
+  using (user_id is null or auth.uid() = user_id);
+
+insert into public.usage_quotas (user_id, period, max_requests, max_audio_seconds, max_tokens)
+values
+  (null, 'day', 200, 2 * 3600, 2000000),
+  (null, 'month', 3000, 30 * 3600, 30000000)
+on conflict do nothing;
+
+-- The caller's limits and what they have used so far in the current UTC day and month
+create or replace function public.usage_status()
+returns table (
+  period text,
+  max_requests integer,
+  max_audio_seconds numeric,
+  max_tokens bigint,
+  requests bigint,
+  audio_seconds numeric,
+  tokens bigint,
+  resets_at timestamptz
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    q.period,
+    q.max_requests,
+    q.max_audio_seconds,
+    q.max_tokens,
+    count(e.id),
+    coalesce(sum(e.audio_seconds), 0),
+    coalesce(sum(e.total_tokens), 0),
+    date_trunc(q.period, now(), 'UTC') + ('1 ' || q.period)::interval
+  from (
+    -- The caller's own quota wins over the default for the same period
+    select distinct on (uq.period) uq.*
+    from public.usage_quotas uq
+    where uq.user_id = auth.uid() or uq.user_id is null
+    order by uq.period, uq.user_id nulls last
+  ) q
+  left join public.usage_events e
+    on e.user_id = auth.uid() and e.created_at >= date_trunc(q.period, now(), 'UTC')
+  group by q.period, q.max_requests, q.max_audio_seconds, q.max_tokens
+  order by q.period;
+$$;
+
+-- The caller's usage per UTC day and model over the last `days` days, for the dashboard
+create or replace function public.daily_usage(days integer default 30)
+returns table (
+  day date,
+  model text,
+  requests bigint,
+  audio_seconds numeric,
+  prompt_tokens bigint,
+  output_tokens bigint,
+  total_tokens bigint
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    (e.created_at at time zone 'UTC')::date,
+    e.model,
+    count(*),
+    sum(e.audio_seconds),
+    sum(e.prompt_tokens),
+    sum(e.output_tokens),
+    sum(e.total_tokens)
+  from public.usage_events e
+  where e.user_id = auth.uid()
+    and e.created_at >= date_trunc('day', now(), 'UTC') - make_interval(days => days - 1)
+  group by 1, 2
+  order by 1, 2;
+$$;
@@ -0,0 +1,42 @@
+-- Model requests now go through the gemini Edge Function, which holds the API key,
+-- rate-limits each user and records their usage with the service role.
+
+-- Requests per user in the current fixed window. Only the service role touches it.
+create table if not exists public.api_rate_limits (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  window_start timestamptz not null,
+  requests integer not null
+);
+
+alter table public.api_rate_limits enable row level security;
+
+-- Counts a request from `requester` and returns how many seconds they must wait before
+-- sending another, or 0 when this request is within the limit
+create or replace function public.take_rate_limit(requester uuid, max_requests integer, window_seconds integer)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_window timestamptz := to_timestamp(floor(extract(epoch from now()) / window_seconds) * window_seconds);
+  used integer;
+begin
+  insert into public.api_rate_limits as r (user_id, window_start, requests)
+  values (requester, current_window, 1)
+  on conflict (user_id) do update
+    set requests = case when r.window_start = excluded.window_start then r.requests + 1 else 1 end,
+        window_start = excluded.window_start
+  returning r.requests into used;
+
+  if used <= max_requests then
+    return 0;
+  end if;
+  return greatest(1, ceil(extract(epoch from current_window + make_interval(secs => window_seconds) - now())))::integer;
+end;
+$$;
+
+revoke execute on function public.take_rate_limit(uuid, integer, integer) from public, anon, authenticated;
+
+-- Usage is recorded by the Edge Function only, so clients can no longer write their own
+drop policy if exists "Users record their own usage" on public.usage_events;
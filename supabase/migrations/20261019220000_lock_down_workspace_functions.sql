@@ -0,0 +1,37 @@
+-- The workspace helpers are security definer, so anyone who could call them over RPC
+-- could write activity into any workspace or look up anyone's role in one.
+
+-- Policies call the role helpers as the querying user, who therefore needs to execute them.
+-- The private schema is not exposed through the API, so they can no longer be called over RPC.
+-- Policies refer to functions by identity, so they keep working after the move.
+create schema if not exists private;
+grant usage on schema private to authenticated;
+
+alter function public.workspace_role(uuid, uuid) set schema private;
+alter function public.can_edit_transcription(uuid) set schema private;
+
+-- Its body names workspace_role by schema, so it has to follow the move
+create or replace function private.can_edit_transcription(transcription uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.transcriptions t
+    where t.id = transcription
+      and (
+        (t.workspace_id is null and t.user_id = auth.uid())
+        or private.workspace_role(t.workspace_id) in ('owner', 'editor')
+      )
+  )
+$$;
+
+revoke execute on function private.workspace_role(uuid, uuid) from public, anon;
+revoke execute on function private.can_edit_transcription(uuid) from public, anon;
+grant execute on function private.workspace_role(uuid, uuid) to authenticated;
+grant execute on function private.can_edit_transcription(uuid) to authenticated;
+
+-- Activity is written by the triggers only, which run as the function owner
+revoke execute on function public.log_workspace_activity(uuid, text, uuid, jsonb) from public, anon, authenticated;
@@ -0,0 +1,39 @@
+-- The update policy lets editors change any column of a workspace transcript, including
+-- workspace_id and user_id. An editor could move a teammate's transcript into their own
+-- private history, which would also get around the owner-only delete rule.
+-- Only a workspace owner may move a transcript out of the workspace or change who it belongs to.
+create or replace function public.guard_transcription_ownership()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Requests without a user (the service role, the SQL editor) are not restricted
+  if auth.uid() is null then
+    return new;
+  end if;
+  -- Deleting a workspace sets workspace_id to null on its transcripts
+  if old.workspace_id is not null and not exists (select 1 from public.workspaces where id = old.workspace_id) then
+    return new;
+  end if;
+  if new.user_id is distinct from old.user_id
+    and (old.workspace_id is null or private.workspace_role(old.workspace_id) is distinct from 'owner')
+  then
+    raise exception 'Only a workspace owner can change who a transcript belongs to.';
+  end if;
+  if new.workspace_id is distinct from old.workspace_id
+    and old.workspace_id is not null
+    and private.workspace_role(old.workspace_id) is distinct from 'owner'
+  then
+    raise exception 'Only a workspace owner can move a transcript out of the workspace.';
+  end if;
+  return new;
+end;
+$$;
+
+revoke execute on function public.guard_transcription_ownership() from public, anon, authenticated;
+
+create trigger transcriptions_guard_ownership
+  before update of workspace_id, user_id on public.transcriptions
+  for each row execute function public.guard_transcription_ownership();
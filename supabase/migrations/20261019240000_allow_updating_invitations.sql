@@ -0,0 +1,13 @@
+-- Inviting an address again (for example with another role) upserts the pending invitation,
+-- and the update half of an upsert needs its own policy
+create policy "Owners change invitations"
+  on public.workspace_invitations for update
+  using (private.workspace_role(workspace_id) = 'owner')
+  with check (private.workspace_role(workspace_id) = 'owner' and invited_by = auth.uid());
+
+-- A repeated invitation shows up in the activity feed like the first one
+drop trigger if exists workspace_invitations_log_activity on public.workspace_invitations;
+
+create trigger workspace_invitations_log_activity
+  after insert or update on public.workspace_invitations
+  for each row execute function public.log_invitation_activity();
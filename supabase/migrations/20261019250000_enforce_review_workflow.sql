@@ -0,0 +1,51 @@
+-- The review workflow (draft -> in_review -> approved) was only followed by the app;
+-- an editor could set any status through the API. The database now enforces the moves
+-- in utils/review.ts, and only an owner or the assigned reviewer can approve.
+create or replace function public.enforce_review_workflow()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  reviewer_role text;
+begin
+  -- Private transcripts have no review, and the service role is not restricted
+  if new.workspace_id is null or auth.uid() is null then
+    return new;
+  end if;
+  -- Transcripts added to a workspace start as drafts
+  if tg_op = 'INSERT' or new.workspace_id is distinct from old.workspace_id then
+    new.status := 'draft';
+    return new;
+  end if;
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if (old.status, new.status) not in (
+    ('draft', 'in_review'),
+    ('in_review', 'approved'),
+    ('in_review', 'draft'),
+    ('approved', 'draft')
+  ) then
+    raise exception 'A transcript cannot go from % to %.', old.status, new.status;
+  end if;
+
+  if new.status = 'approved' then
+    reviewer_role := private.workspace_role(new.workspace_id);
+    if reviewer_role is distinct from 'owner'
+      and not (reviewer_role is not distinct from 'editor' and old.assignee_id is not distinct from auth.uid())
+    then
+      raise exception 'Only a workspace owner or the assigned reviewer can approve a transcript.';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+revoke execute on function public.enforce_review_workflow() from public, anon, authenticated;
+
+create trigger transcriptions_enforce_review_workflow
+  before insert or update of status, workspace_id on public.transcriptions
+  for each row execute function public.enforce_review_workflow();
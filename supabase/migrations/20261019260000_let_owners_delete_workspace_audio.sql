@@ -0,0 +1,14 @@
+-- Audio stays in the uploader's folder, so a workspace owner deleting a member's transcript
+-- could remove the row but not its recording. Owners may delete the audio of transcripts in
+-- their workspaces; the app does so before deleting the row, while the row still links them.
+create policy "Workspace owners can delete shared audio"
+  on storage.objects for delete
+  using (
+    bucket_id = 'transcription-audio'
+    and exists (
+      select 1 from public.transcriptions t
+      where t.audio_path = objects.name
+        and t.workspace_id is not null
+        and private.workspace_role(t.workspace_id) = 'owner'
+    )
+  );
@@ -0,0 +1,43 @@
+-- Storage access to shared audio follows the audio_path of a workspace transcript, but the
+-- row policies accepted any path. A member could point a workspace row at someone else's
+-- private recording and then read it, or as owner delete it.
+-- A transcript may only link audio from the folder of the user who sets the path.
+drop policy if exists "Users and workspace editors create transcriptions" on public.transcriptions;
+
+create policy "Users and workspace editors create transcriptions"
+  on public.transcriptions
+  for insert
+  with check (
+    user_id = auth.uid()
+    and (workspace_id is null or private.workspace_role(workspace_id) in ('owner', 'editor'))
+    and (assignee_id is null or private.workspace_role(workspace_id, assignee_id) is not null)
+    and (audio_path is null or (storage.foldername(audio_path))[1] = auth.uid()::text)
+  );
+
+-- A check on the new row cannot tell a kept path from a changed one, so updates are checked here
+create or replace function public.guard_transcription_audio()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Requests without a user (the service role, the SQL editor) are not restricted
+  if auth.uid() is null then
+    return new;
+  end if;
+  if new.audio_path is distinct from old.audio_path
+    and new.audio_path is not null
+    and (storage.foldername(new.audio_path))[1] is distinct from auth.uid()::text
+  then
+    raise exception 'A transcript can only link audio you uploaded.';
+  end if;
+  return new;
+end;
+$$;
+
+revoke execute on function public.guard_transcription_audio() from public, anon, authenticated;
+
+create trigger transcriptions_guard_audio
+  before update of audio_path on public.transcriptions
+  for each row execute function public.guard_transcription_audio();
@@ -0,0 +1,67 @@
+-- Deleting a transcript used to remove its audio first, so a failed row delete lost the
+-- recording while keeping the transcript. The row now goes first, and its audio is listed
+-- here until the user who deleted it has removed the file; a removal that fails is tried
+-- again on their next delete. Storage files can only be removed through the Storage API.
+create table if not exists public.deleted_transcription_audio (
+  audio_path text primary key,
+  deleted_by uuid not null references auth.users(id) on delete cascade,
+  deleted_at timestamptz not null default now()
+);
+
+alter table public.deleted_transcription_audio enable row level security;
+
+create policy "Users see the audio they still have to remove"
+  on public.deleted_transcription_audio for select
+  using (deleted_by = auth.uid());
+
+create policy "Users clear the audio they removed"
+  on public.deleted_transcription_audio for delete
+  using (deleted_by = auth.uid());
+
+create or replace function public.list_deleted_transcription_audio()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Without a user (the service role, account deletion) nobody is left to remove the file
+  if old.audio_path is not null and auth.uid() is not null then
+    insert into public.deleted_transcription_audio (audio_path, deleted_by)
+      values (old.audio_path, auth.uid())
+      on conflict (audio_path) do update set deleted_by = excluded.deleted_by, deleted_at = now();
+  end if;
+  return old;
+end;
+$$;
+
+revoke execute on function public.list_deleted_transcription_audio() from public, anon, authenticated;
+
+create trigger transcriptions_list_deleted_audio
+  after delete on public.transcriptions
+  for each row execute function public.list_deleted_transcription_audio();
+
+-- Owners could delete members' audio while the row still linked it; now they delete it
+-- after the row, as the user who deleted the transcript. Deleting also needs the object
+-- to be readable, which the shared row no longer provides.
+drop policy if exists "Workspace owners can delete shared audio" on storage.objects;
+
+create policy "Users can read the audio of transcripts they deleted"
+  on storage.objects for select
+  using (
+    bucket_id = 'transcription-audio'
+    and exists (
+      select 1 from public.deleted_transcription_audio d
+      where d.audio_path = objects.name and d.deleted_by = auth.uid()
+    )
+  );
+
+create policy "Users can delete the audio of transcripts they deleted"
+  on storage.objects for delete
+  using (
+    bucket_id = 'transcription-audio'
+    and exists (
+      select 1 from public.deleted_transcription_audio d
+      where d.audio_path = objects.name and d.deleted_by = auth.uid()
+    )
+  );
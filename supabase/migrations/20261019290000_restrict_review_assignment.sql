@@ -0,0 +1,33 @@
+-- The assigned editor may approve, so an editor could assign a transcript to themselves
+-- and approve it in the next update. Only workspace owners assign reviewers now.
+create or replace function public.guard_review_assignment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Requests without a user (the service role, the SQL editor) are not restricted
+  if auth.uid() is null then
+    return new;
+  end if;
+  if tg_op = 'INSERT' and new.assignee_id is null
+    or tg_op = 'UPDATE' and new.assignee_id is not distinct from old.assignee_id
+  then
+    return new;
+  end if;
+  -- An owner moving a transcript out of their workspace clears its assignee on the way
+  if private.workspace_role(new.workspace_id) is distinct from 'owner'
+    and not (tg_op = 'UPDATE' and new.assignee_id is null and private.workspace_role(old.workspace_id) is not distinct from 'owner')
+  then
+    raise exception 'Only a workspace owner can assign a transcript for review.';
+  end if;
+  return new;
+end;
+$$;
+
+revoke execute on function public.guard_review_assignment() from public, anon, authenticated;
+
+create trigger transcriptions_guard_review_assignment
+  before insert or update of assignee_id on public.transcriptions
+  for each row execute function public.guard_review_assignment();
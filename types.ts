@@ -6,19 +6,270 @@ export enum TranscriptionStatus {
   TRANSCRIBING = 'TRANSCRIBING',
   TRANSLATING = 'TRANSLATING',
   COMPLETED = 'COMPLETED',
-  ERROR = 'ERROR'
+  ERROR = 'ERROR',
+  // Background job states (see services/jobQueue.ts)
+  QUEUED = 'QUEUED',
+  SAVING = 'SAVING',
+  SAVED = 'SAVED'
+}
+
+export interface TranscriptSegment {
+  start: number; // seconds from the start of the audio
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+export interface TranscriptionOutput {
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+export enum ChunkStatus {
+  PENDING = 'PENDING',
+  TRANSCRIBING = 'TRANSCRIBING',
+  RETRYING = 'RETRYING',
+  DONE = 'DONE',
+  FAILED = 'FAILED'
+}
+
+export interface ChunkProgress {
+  index: number;
+  start: number; // seconds
+  end: number;
+  status: ChunkStatus;
+  attempt: number;
+}
+
+export interface PreprocessingOptions {
+  normalize: boolean;
+  noiseSuppression: boolean;
+}
+
+// Before/after of the preprocessing pass, shown next to the audio
+export interface PreprocessingSummary {
+  originalSize: number; // bytes
+  originalFormat: string;
+  processedSize: number;
+  processedFormat: string;
+}
+
+export type LanguageCode = 'en' | 'om' | 'ti' | 'ar' | 'fr';
+
+export type Translations = Partial<Record<LanguageCode, string>>;
+
+// Audio uploaded to the Supabase Storage bucket alongside a saved transcription
+export interface StoredAudio {
+  path: string;
+  mimeType: string;
+  duration?: number; // seconds
 }
 
 export interface TranscriptionResult {
+  id?: string;
   text: string;
-  translatedText?: string;
+  segments?: TranscriptSegment[];
+  translations: Translations;
   timestamp: Date;
   audioBlob?: Blob;
+  storedAudio?: StoredAudio;
+  provider?: string; // TranscriptionProvider id, e.g. 'gemini'
+  model?: string;
+  // What the model produced, before any edits; saved as the transcript's first version
+  modelOutput?: TranscriptSnapshot;
+  title?: string;
+  projectId?: string | null; // null when not filed in a project
+  tags?: string[];
+  workspaceId?: string | null; // null for a private transcript
+  status?: ReviewStatus;
+  assigneeId?: string | null;
+  analysis?: TranscriptAnalysis;
+}
+
+/**
+ * The editable content of a transcript at one point in its history.
+ */
+export interface TranscriptSnapshot {
+  text: string;
+  translations: Translations;
+  segments?: TranscriptSegment[];
+}
+
+export type EntityType = 'person' | 'place' | 'organization';
+
+export interface ActionItem {
+  task: string;
+  owner?: string; // only when the recording names who will do it
+}
+
+/**
+ * Summary, action items, topics and named entities of a transcript, in one language.
+ */
+export interface AnalysisContent {
+  summary: string;
+  actionItems: ActionItem[];
+  topics: string[];
+  entities: { name: string; type: EntityType }[];
+}
+
+export type AnalysisLanguage = 'am' | 'en';
+
+export type TranscriptAnalysis = Record<AnalysisLanguage, AnalysisContent>;
+
+export interface TranscriptionRecord {
+  id: string;
+  user_id: string;
+  amharic_text: string;
+  english_text: string | null;
+  translations: Translations | null;
+  segments: TranscriptSegment[] | null;
+  audio_path: string | null;
+  audio_duration: number | null;
+  audio_mime_type: string | null;
+  provider: string | null;
+  model: string | null;
+  project_id: string | null;
+  title: string | null;
+  tags: string[];
+  workspace_id: string | null;
+  status: ReviewStatus;
+  assignee_id: string | null;
+  analysis: TranscriptAnalysis | null;
+  created_at: string;
+}
+
+export type ReviewStatus = 'draft' | 'in_review' | 'approved';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface WorkspaceMember {
+  workspace_id: string;
+  user_id: string;
+  role: WorkspaceRole;
+  email: string;
+  created_at: string;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: WorkspaceRole;
+  invited_by: string | null;
+  created_at: string;
+  workspaces?: { name: string }; // joined for the invitee, who cannot read the workspace yet
+}
+
+export type ActivityAction =
+  | 'transcription_added'
+  | 'transcription_edited'
+  | 'transcription_deleted'
+  | 'status_changed'
+  | 'assigned'
+  | 'member_invited'
+  | 'member_joined'
+  | 'member_removed'
+  | 'role_changed';
+
+export interface ActivityEntry {
+  id: string;
+  workspace_id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: ActivityAction;
+  transcription_id: string | null;
+  details: { title?: string; email?: string; role?: WorkspaceRole; assignee?: string | null; from?: string; to?: string };
+  created_at: string;
+}
+
+export type UsageOperation = 'transcribe' | 'translate' | 'analyze';
+
+export type UsagePeriod = 'day' | 'month';
+
+// A user's limits for the current period and what they have used of them; null limits are unlimited
+export interface UsageQuotaStatus {
+  period: UsagePeriod;
+  max_requests: number | null;
+  max_audio_seconds: number | null;
+  max_tokens: number | null;
+  requests: number;
+  audio_seconds: number;
+  tokens: number;
+  resets_at: string;
+}
+
+export interface DailyUsage {
+  day: string; // YYYY-MM-DD, UTC
+  model: string;
+  requests: number;
+  audio_seconds: number;
+  prompt_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+}
+
+export interface Project {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+}
+
+export type VersionKind = 'model' | 'revision';
+
+export interface TranscriptionVersion {
+  id: string;
+  transcription_id: string;
+  user_id: string;
+  kind: VersionKind;
+  amharic_text: string;
+  translations: Translations;
+  segments: TranscriptSegment[] | null;
+  created_at: string;
+}
+
+export interface GlossaryTerm {
+  id: string;
+  user_id: string;
+  term: string; // preferred Amharic spelling
+  variants: string[]; // known misspellings, corrected automatically
+  english: string | null; // preferred English equivalent
+  created_at: string;
+}
+
+export type GlossaryTermInput = Pick<GlossaryTerm, 'term' | 'variants' | 'english'>;
+
+export interface ProviderCapabilities {
+  timestamps: boolean;
+  speakerLabels: boolean;
+  translation: boolean;
+  analysis: boolean;
+}
+
+// Per-request controls for provider calls
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Called before a transient failure is retried, with the number of the attempt about to be made
+  onRetry?: (attempt: number) => void;
 }
 
-export interface AudioPart {
-  inlineData: {
-    mimeType: string;
-    data: string;
-  };
+/**
+ * A speech-to-text backend. The app talks to whichever one is configured
+ * through this interface rather than to a specific service.
+ */
+export interface TranscriptionProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly model: string;
+  readonly capabilities: ProviderCapabilities;
+  transcribeAmharic(base64Audio: string, mimeType: string, glossary?: GlossaryTerm[], options?: RequestOptions): Promise<TranscriptionOutput>;
+  translate(amharicText: string, target: LanguageCode, glossary?: GlossaryTerm[], options?: RequestOptions): Promise<string>;
+  analyze(amharicText: string, glossary?: GlossaryTerm[], options?: RequestOptions): Promise<TranscriptAnalysis>;
 }
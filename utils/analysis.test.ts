@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { isEmptyAnalysis, normalizeAnalysis } from './analysis';
+
+const empty = { summary: '', actionItems: [], topics: [], entities: [] };
+
+describe('normalizeAnalysis', () => {
+  it('fills in missing languages and fields', () => {
+    expect(normalizeAnalysis(null)).toEqual({ am: empty, en: empty });
+    expect(normalizeAnalysis({ en: { summary: ' A meeting. ' } })).toEqual({ am: empty, en: { ...empty, summary: 'A meeting.' } });
+  });
+
+  it('drops blank and malformed entries', () => {
+    const analysis = normalizeAnalysis({
+      am: {
+        summary: 42,
+        actionItems: [{ task: 'ሪፖርት ላክ', owner: ' አበበ ' }, { task: 'ደውል', owner: '' }, { task: ' ' }, 'ደውል'],
+        topics: ['በጀት', ' በጀት ', '', 7],
+        entities: [{ name: 'አዲስ አበባ', type: 'place' }, { name: 'ሰኞ', type: 'date' }, { name: '', type: 'person' }],
+      },
+      en: { actionItems: 'none', topics: null },
+    });
+    expect(analysis.am).toEqual({
+      summary: '',
+      actionItems: [{ task: 'ሪፖርት ላክ', owner: 'አበበ' }, { task: 'ደውል' }],
+      topics: ['በጀት'],
+      entities: [{ name: 'አዲስ አበባ', type: 'place' }],
+    });
+    expect(analysis.en).toEqual(empty);
+  });
+});
+
+describe('isEmptyAnalysis', () => {
+  it('is true only when every field is empty', () => {
+    expect(isEmptyAnalysis(empty)).toBe(true);
+    expect(isEmptyAnalysis({ ...empty, topics: ['በጀት'] })).toBe(false);
+  });
+});
@@ -0,0 +1,42 @@
+import { AnalysisContent, AnalysisLanguage, EntityType, TranscriptAnalysis } from '../types';
+
+export const ANALYSIS_LANGUAGES: { code: AnalysisLanguage; name: string }[] = [
+  { code: 'am', name: 'Amharic' },
+  { code: 'en', name: 'English' },
+];
+
+export const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  person: 'People',
+  place: 'Places',
+  organization: 'Organisations',
+};
+
+const ENTITY_TYPES = Object.keys(ENTITY_TYPE_LABELS) as EntityType[];
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const toContent = (raw: any): AnalysisContent => ({
+  summary: text(raw?.summary),
+  actionItems: list(raw?.actionItems)
+    .map((item: any) => ({ task: text(item?.task), owner: text(item?.owner) }))
+    .filter(item => item.task)
+    .map(({ task, owner }) => (owner ? { task, owner } : { task })),
+  topics: [...new Set(list(raw?.topics).map(text).filter(Boolean))],
+  entities: list(raw?.entities)
+    .map((entity: any) => ({ name: text(entity?.name), type: entity?.type as EntityType }))
+    .filter(entity => entity.name && ENTITY_TYPES.includes(entity.type)),
+});
+
+/**
+ * Analysis as the model or the database returned it, with missing fields filled in
+ * and blank or malformed entries dropped.
+ */
+export const normalizeAnalysis = (raw: any): TranscriptAnalysis => ({
+  am: toContent(raw?.am),
+  en: toContent(raw?.en),
+});
+
+export const isEmptyAnalysis = (content: AnalysisContent): boolean =>
+  !content.summary && !content.actionItems.length && !content.topics.length && !content.entities.length;
@@ -0,0 +1,222 @@
+/**
+ * Sample rate used for audio we decode and re-encode ourselves; plenty for speech.
+ */
+export const SPEECH_SAMPLE_RATE = 16000;
+
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = (reader.result as string).split(',')[1];
+      resolve(base64String);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * Decodes an audio blob and downmixes it to mono at SPEECH_SAMPLE_RATE.
+ */
+export const decodeToMono = async (blob: Blob): Promise<Float32Array> => {
+  const arrayBuffer = await blob.arrayBuffer();
+  // decodeAudioData resamples to the context's rate; the length is irrelevant for decoding
+  const context = new OfflineAudioContext(1, 1, SPEECH_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(arrayBuffer);
+
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
+
+/**
+ * Resamples raw mono samples (such as microphone input at the device's rate) to SPEECH_SAMPLE_RATE.
+ */
+export const resampleToSpeechRate = async (samples: Float32Array, sampleRate: number): Promise<Float32Array> => {
+  if (sampleRate === SPEECH_SAMPLE_RATE || samples.length === 0) return samples;
+  const context = new OfflineAudioContext(1, Math.ceil(samples.length * SPEECH_SAMPLE_RATE / sampleRate), SPEECH_SAMPLE_RATE);
+  const buffer = context.createBuffer(1, samples.length, sampleRate);
+  buffer.getChannelData(0).set(samples);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  return (await context.startRendering()).getChannelData(0);
+};
+
+/**
+ * Duration in seconds. Decodes the audio because MediaRecorder's WebM output
+ * reports an unknown (Infinity) duration to <audio> elements.
+ */
+export const getAudioDuration = async (blob: Blob): Promise<number | undefined> => {
+  try {
+    const samples = await decodeToMono(blob);
+    return samples.length / SPEECH_SAMPLE_RATE;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Encodes mono float samples as a 16-bit PCM WAV blob.
+ */
+export const encodeWav = (samples: Float32Array, sampleRate = SPEECH_SAMPLE_RATE): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);          // fmt chunk size
+  view.setUint16(20, 1, true);           // PCM
+  view.setUint16(22, 1, true);           // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true);           // block align
+  view.setUint16(34, 16, true);          // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * Returns the time (in seconds) of the quietest 50 ms frame between `from` and `to`.
+ */
+export const findQuietestPoint = (
+  samples: Float32Array,
+  from: number,
+  to: number,
+  sampleRate = SPEECH_SAMPLE_RATE
+): number => {
+  const frame = Math.round(sampleRate * 0.05);
+  const start = Math.max(0, Math.floor(from * sampleRate));
+  const end = Math.min(samples.length, Math.floor(to * sampleRate));
+
+  let quietest = start;
+  let lowestEnergy = Infinity;
+  for (let offset = start; offset + frame <= end; offset += frame) {
+    let energy = 0;
+    for (let i = offset; i < offset + frame; i++) energy += samples[i] * samples[i];
+    if (energy < lowestEnergy) {
+      lowestEnergy = energy;
+      quietest = offset + Math.floor(frame / 2);
+    }
+  }
+  return quietest / sampleRate;
+};
+
+const frameLevels = (samples: Float32Array, frame: number): Float32Array => {
+  const levels = new Float32Array(Math.ceil(samples.length / frame));
+  for (let f = 0; f < levels.length; f++) {
+    const start = f * frame;
+    const end = Math.min(samples.length, start + frame);
+    let energy = 0;
+    for (let i = start; i < end; i++) energy += samples[i] * samples[i];
+    levels[f] = Math.sqrt(energy / Math.max(1, end - start));
+  }
+  return levels;
+};
+
+const percentile = (values: Float32Array, fraction: number): number => {
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))] || 0;
+};
+
+/**
+ * Removes rumble, wind and handling noise below `cutoff` Hz (one-pole high-pass), in place.
+ */
+export const highPass = (samples: Float32Array, cutoff = 80, sampleRate = SPEECH_SAMPLE_RATE): Float32Array => {
+  const rc = 1 / (2 * Math.PI * cutoff);
+  const alpha = rc / (rc + 1 / sampleRate);
+  let previousInput = 0;
+  let previousOutput = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const input = samples[i];
+    previousOutput = alpha * (previousOutput + input - previousInput);
+    previousInput = input;
+    samples[i] = previousOutput;
+  }
+  return samples;
+};
+
+/**
+ * Noise suppression for field recordings, in place: a high-pass filter plus a gate that
+ * turns down 20 ms frames close to the noise floor (estimated from the quietest frames),
+ * with gain changes smoothed so speech onsets are not clipped.
+ */
+export const reduceNoise = (samples: Float32Array, sampleRate = SPEECH_SAMPLE_RATE): Float32Array => {
+  highPass(samples, 80, sampleRate);
+
+  const frame = Math.round(sampleRate * 0.02);
+  const levels = frameLevels(samples, frame);
+  const threshold = percentile(levels, 0.15) * 2.5;
+  const floorGain = 0.2; // about -14 dB
+
+  let gain = 1;
+  for (let f = 0; f < levels.length; f++) {
+    const target = levels[f] > threshold ? 1 : floorGain;
+    const start = f * frame;
+    const end = Math.min(samples.length, start + frame);
+    // Open quickly for speech, close slowly so word endings survive
+    const next = target > gain ? target : gain + (target - gain) * 0.3;
+    for (let i = start; i < end; i++) {
+      samples[i] *= gain + ((next - gain) * (i - start)) / (end - start);
+    }
+    gain = next;
+  }
+  return samples;
+};
+
+/**
+ * Scales the audio, in place, so speech sits at about `targetDb` dBFS RMS (measured over
+ * frames louder than the noise floor), without pushing peaks past `peakLimit`.
+ */
+export const normalizeLoudness = (
+  samples: Float32Array,
+  targetDb = -20,
+  peakLimit = 0.95,
+  sampleRate = SPEECH_SAMPLE_RATE
+): Float32Array => {
+  const levels = frameLevels(samples, Math.round(sampleRate * 0.02));
+  const floor = percentile(levels, 0.15);
+  let energy = 0;
+  let count = 0;
+  for (const level of levels) {
+    if (level > floor * 2) {
+      energy += level * level;
+      count++;
+    }
+  }
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  if (!count || !peak) return samples;
+
+  const speechRms = Math.sqrt(energy / count);
+  const gain = Math.min(10 ** (targetDb / 20) / speechRms, peakLimit / peak, 20);
+  for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+  return samples;
+};
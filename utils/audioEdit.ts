@@ -0,0 +1,152 @@
+import { decodeToMono, encodeWav, SPEECH_SAMPLE_RATE } from './audio';
+
+export interface TimeRange {
+  start: number; // seconds
+  end: number;
+}
+
+/**
+ * Edits made in the waveform editor. When regions are picked only those are kept;
+ * otherwise everything between the trim points is. Cuts are removed either way.
+ */
+export interface AudioEdit {
+  duration: number;
+  trim: TimeRange;
+  cuts: TimeRange[];
+  regions: TimeRange[];
+}
+
+// Ranges shorter than this are dropped rather than sent as a blip of audio
+const MIN_RANGE_SECONDS = 0.05;
+// Short fades where pieces are joined, so cuts don't click
+const JOIN_FADE_SECONDS = 0.01;
+
+const SILENCE_FRAME_SECONDS = 0.02;
+const SILENCE_PADDING_SECONDS = 0.25;
+
+export const createAudioEdit = (duration: number): AudioEdit => ({
+  duration,
+  trim: { start: 0, end: duration },
+  cuts: [],
+  regions: [],
+});
+
+export const normalizeRange = (a: number, b: number): TimeRange => ({ start: Math.min(a, b), end: Math.max(a, b) });
+
+const mergeRanges = (ranges: TimeRange[]): TimeRange[] => {
+  const merged: TimeRange[] = [];
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+};
+
+const subtractRange = (range: TimeRange, cut: TimeRange): TimeRange[] => {
+  if (cut.end <= range.start || cut.start >= range.end) return [range];
+  return [
+    { start: range.start, end: cut.start },
+    { start: cut.end, end: range.end },
+  ].filter(piece => piece.end > piece.start);
+};
+
+/**
+ * The parts of the audio that survive the edit, in order and without overlaps.
+ */
+export const getKeptRanges = (edit: AudioEdit): TimeRange[] => {
+  const { trim } = edit;
+  let ranges = edit.regions.length
+    ? edit.regions.map(region => ({ start: Math.max(region.start, trim.start), end: Math.min(region.end, trim.end) }))
+    : [trim];
+  ranges = mergeRanges(ranges.filter(range => range.end > range.start));
+  for (const cut of edit.cuts) {
+    ranges = ranges.flatMap(range => subtractRange(range, cut));
+  }
+  return ranges.filter(range => range.end - range.start >= MIN_RANGE_SECONDS);
+};
+
+export const getKeptDuration = (edit: AudioEdit): number =>
+  getKeptRanges(edit).reduce((total, range) => total + range.end - range.start, 0);
+
+export const isAudioEdited = (edit: AudioEdit): boolean => {
+  const ranges = getKeptRanges(edit);
+  return ranges.length !== 1 || ranges[0].start > 0 || ranges[0].end < edit.duration;
+};
+
+/**
+ * Finds where speech starts and ends, judged by 20 ms frames louder than a fraction
+ * of the loudest frame, with a little padding kept on both sides.
+ */
+export const detectSpeechBounds = (samples: Float32Array, sampleRate = SPEECH_SAMPLE_RATE): TimeRange => {
+  const frame = Math.round(sampleRate * SILENCE_FRAME_SECONDS);
+  const levels: number[] = [];
+  for (let offset = 0; offset < samples.length; offset += frame) {
+    let energy = 0;
+    const end = Math.min(samples.length, offset + frame);
+    for (let i = offset; i < end; i++) energy += samples[i] * samples[i];
+    levels.push(Math.sqrt(energy / (end - offset)));
+  }
+
+  const duration = samples.length / sampleRate;
+  const loudest = levels.reduce((max, level) => Math.max(max, level), 0);
+  const threshold = Math.max(0.005, loudest * 0.05);
+  const first = levels.findIndex(level => level > threshold);
+  if (first === -1) return { start: 0, end: duration };
+  let last = levels.length - 1;
+  while (levels[last] <= threshold) last--;
+
+  return {
+    start: Math.max(0, first * SILENCE_FRAME_SECONDS - SILENCE_PADDING_SECONDS),
+    end: Math.min(duration, (last + 1) * SILENCE_FRAME_SECONDS + SILENCE_PADDING_SECONDS),
+  };
+};
+
+/**
+ * Peak amplitude per bucket, for drawing a waveform `buckets` bars wide.
+ */
+export const computePeaks = (samples: Float32Array, buckets: number): Float32Array => {
+  const peaks = new Float32Array(buckets);
+  const size = samples.length / buckets;
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const start = Math.floor(bucket * size);
+    const end = Math.min(samples.length, Math.floor((bucket + 1) * size));
+    let peak = 0;
+    for (let i = start; i < end; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    peaks[bucket] = peak;
+  }
+  return peaks;
+};
+
+/**
+ * Joins the kept ranges of `samples` back to back, fading each piece in and out briefly.
+ */
+export const applyAudioEdit = (samples: Float32Array, edit: AudioEdit, sampleRate = SPEECH_SAMPLE_RATE): Float32Array => {
+  const pieces = getKeptRanges(edit).map(range =>
+    samples.subarray(Math.floor(range.start * sampleRate), Math.floor(range.end * sampleRate))
+  );
+  const output = new Float32Array(pieces.reduce((total, piece) => total + piece.length, 0));
+  const fade = Math.round(sampleRate * JOIN_FADE_SECONDS);
+
+  let offset = 0;
+  for (const piece of pieces) {
+    output.set(piece, offset);
+    const length = Math.min(fade, Math.floor(piece.length / 2));
+    for (let i = 0; i < length; i++) {
+      const gain = i / length;
+      output[offset + i] *= gain;
+      output[offset + piece.length - 1 - i] *= gain;
+    }
+    offset += piece.length;
+  }
+  return output;
+};
+
+/**
+ * Decodes `blob`, applies the edit and re-encodes the result as 16 kHz mono WAV.
+ */
+export const renderAudioEdit = async (blob: Blob, edit: AudioEdit): Promise<Blob> =>
+  encodeWav(applyAudioEdit(await decodeToMono(blob), edit));
@@ -0,0 +1,61 @@
+export interface AudioFormat {
+  container: string;
+  codec?: string;
+  mimeType: string;
+}
+
+// Enough to reach the codec id in the headers of the containers below
+const SNIFF_BYTES = 4096;
+
+const WAV_CODECS: Record<number, string> = { 1: 'PCM', 3: 'PCM float', 6: 'A-law', 7: 'µ-law', 0xfffe: 'PCM' };
+
+const startsWith = (bytes: Uint8Array, signature: string, offset = 0) =>
+  [...signature].every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+const contains = (text: string, ...needles: string[]) => needles.find(needle => text.includes(needle));
+
+/**
+ * Identifies an audio file's container and codec from its leading bytes, since
+ * File.type is guessed from the extension and MediaRecorder output varies by browser.
+ * Returns null for formats we don't recognise.
+ */
+export const detectAudioFormat = async (blob: Blob): Promise<AudioFormat | null> => {
+  const bytes = new Uint8Array(await blob.slice(0, SNIFF_BYTES).arrayBuffer());
+  // Codec ids in these headers are ASCII, so a byte-wise string is enough to search them
+  const text = String.fromCharCode(...bytes);
+
+  if (startsWith(bytes, 'RIFF') && startsWith(bytes, 'WAVE', 8)) {
+    const formatTag = bytes[20] | (bytes[21] << 8);
+    return { container: 'WAV', codec: WAV_CODECS[formatTag], mimeType: 'audio/wav' };
+  }
+  if (startsWith(bytes, 'OggS')) {
+    const codec = contains(text, 'OpusHead') ? 'Opus' : contains(text, 'vorbis') ? 'Vorbis' : contains(text, 'FLAC') ? 'FLAC' : undefined;
+    return { container: 'Ogg', codec, mimeType: codec === 'Opus' ? 'audio/ogg; codecs=opus' : 'audio/ogg' };
+  }
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) {
+    const codec = { A_OPUS: 'Opus', A_VORBIS: 'Vorbis', A_AAC: 'AAC', A_MPEG: 'MP3', A_PCM: 'PCM' }[
+      contains(text, 'A_OPUS', 'A_VORBIS', 'A_AAC', 'A_MPEG', 'A_PCM') || ''
+    ];
+    const isWebm = contains(text, 'webm');
+    return {
+      container: isWebm ? 'WebM' : 'Matroska',
+      codec,
+      mimeType: isWebm ? (codec === 'Opus' ? 'audio/webm; codecs=opus' : 'audio/webm') : 'audio/x-matroska',
+    };
+  }
+  if (startsWith(bytes, 'ftyp', 4)) {
+    const codec = contains(text, 'mp4a') ? 'AAC' : contains(text, 'Opus') ? 'Opus' : contains(text, 'alac') ? 'ALAC' : undefined;
+    return { container: 'MP4', codec, mimeType: 'audio/mp4' };
+  }
+  if (startsWith(bytes, 'fLaC')) return { container: 'FLAC', codec: 'FLAC', mimeType: 'audio/flac' };
+  if (startsWith(bytes, '#!AMR')) return { container: 'AMR', codec: 'AMR', mimeType: 'audio/amr' };
+  // ADTS (AAC) frames sync like MPEG audio but with the layer bits set to zero
+  if (bytes[0] === 0xff && (bytes[1] & 0xf6) === 0xf0) return { container: 'ADTS', codec: 'AAC', mimeType: 'audio/aac' };
+  if (startsWith(bytes, 'ID3') || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) {
+    return { container: 'MP3', codec: 'MP3', mimeType: 'audio/mpeg' };
+  }
+  return null;
+};
+
+export const describeAudioFormat = (format: AudioFormat | null, fallbackMimeType = ''): string =>
+  format ? [format.container, format.codec].filter((part, i, parts) => part && parts.indexOf(part) === i).join(' / ') : fallbackMimeType || 'Unknown';
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { forEachWithConcurrency } from './concurrency';
+
+describe('forEachWithConcurrency', () => {
+  it('keeps at most `limit` calls in flight and finishes every item', async () => {
+    let running = 0;
+    let peak = 0;
+    const done: number[] = [];
+    await forEachWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5 - item));
+      running--;
+      done.push(item);
+    });
+    expect(peak).toBe(2);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('collects failures without stopping the other items', async () => {
+    const done: string[] = [];
+    const failures = await forEachWithConcurrency(['a', 'b', 'c'], 3, async item => {
+      if (item === 'b') throw new Error('broken');
+      done.push(item);
+    });
+    expect(done).toEqual(['a', 'c']);
+    expect(failures).toEqual([{ item: 'b', error: new Error('broken') }]);
+  });
+
+  it('does nothing for an empty list', async () => {
+    expect(await forEachWithConcurrency([], 3, async () => {})).toEqual([]);
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Calls `fn` for every item with at most `limit` calls in flight. Failures are
+ * collected per item instead of stopping the rest.
+ */
+export const forEachWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>
+): Promise<{ item: T; error: unknown }[]> => {
+  const failures: { item: T; error: unknown }[] = [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await fn(item);
+      } catch (error) {
+        failures.push({ item, error });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return failures;
+};
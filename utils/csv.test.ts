@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, newlines and doubled quotes', () => {
+    expect(parseCsv('a,"b, c","say ""ሰላም""\nagain"\r\nd,,e')).toEqual([
+      ['a', 'b, c', 'say "ሰላም"\nagain'],
+      ['d', '', 'e'],
+    ]);
+  });
+
+  it('strips the byte order mark and skips blank rows', () => {
+    expect(parseCsv('\uFEFFterm,english\n\n , \nቡና,coffee')).toEqual([['term', 'english'], ['ቡና', 'coffee']]);
+  });
+
+  it('keeps a last row without a line break', () => {
+    expect(parseCsv('a\nb')).toEqual([['a'], ['b']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the fields that need it', () => {
+    expect(toCsv([['ቡና', 'a,b', 'say "hi"'], ['two\nlines', '']])).toBe(
+      '\uFEFFቡና,"a,b","say ""hi"""\r\n"two\nlines",\r\n'
+    );
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['term', 'variants'], ['ኢትዮጵያ', 'ኢትዮጰያ|"ኢትዮፕያ"'], ['a,b', 'c\r\nd']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
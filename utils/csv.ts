@@ -0,0 +1,51 @@
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Strip a byte order mark left by spreadsheet exports
+  if (rows[0]?.[0]) rows[0][0] = rows[0][0].replace(/^\uFEFF/, '');
+  return rows.filter(r => r.some(value => value.trim()));
+};
+
+const escapeField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Serialises rows as CSV, with a byte order mark so spreadsheet apps read Ethiopic text as UTF-8.
+ */
+export const toCsv = (rows: string[][]): string =>
+  '\uFEFF' + rows.map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
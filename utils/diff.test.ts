@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { DiffPart, diffStats, diffWords } from './diff';
+
+const side = (parts: DiffPart[], kind: 'added' | 'removed') =>
+  parts.filter(part => part.kind === 'equal' || part.kind === kind).map(part => part.text).join('');
+
+describe('diffWords', () => {
+  it('marks replaced words and keeps the whitespace', () => {
+    expect(diffWords('ሰላም ለዓለም ሁሉ', 'ሰላም ለኢትዮጵያ ሁሉ')).toEqual([
+      { kind: 'equal', text: 'ሰላም ' },
+      { kind: 'removed', text: 'ለዓለም' },
+      { kind: 'added', text: 'ለኢትዮጵያ' },
+      { kind: 'equal', text: ' ሁሉ' },
+    ]);
+  });
+
+  it('finds the shortest edit between changes', () => {
+    expect(diffWords('a b c d', 'a c d e')).toEqual([
+      { kind: 'equal', text: 'a ' },
+      { kind: 'removed', text: 'b ' },
+      { kind: 'equal', text: 'c d' },
+      { kind: 'added', text: ' e' },
+    ]);
+  });
+
+  it('rebuilds both texts from its parts', () => {
+    const before = 'የአማርኛ ቋንቋ\nበኢትዮጵያ  ይነገራል። ብዙ ሰዎች ይናገሩታል።';
+    const after = 'አማርኛ ቋንቋ በኢትዮጵያ ይነገራል።\nብዙ ሚሊዮን ሰዎች ይናገሩታል።';
+    const parts = diffWords(before, after);
+    expect(side(parts, 'removed')).toBe(before);
+    expect(side(parts, 'added')).toBe(after);
+  });
+
+  it('handles empty texts', () => {
+    expect(diffWords('', 'a b')).toEqual([{ kind: 'added', text: 'a b' }]);
+    expect(diffWords('a', 'a')).toEqual([{ kind: 'equal', text: 'a' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+
+  it('shows texts with little in common as replaced', () => {
+    const before = Array.from({ length: 2500 }, (_, i) => `a${i}`).join(' ');
+    const after = Array.from({ length: 2500 }, (_, i) => `b${i}`).join(' ');
+    expect(diffWords(`x ${before} y`, `x ${after} y`)).toEqual([
+      { kind: 'equal', text: 'x ' },
+      { kind: 'removed', text: before },
+      { kind: 'added', text: after },
+      { kind: 'equal', text: ' y' },
+    ]);
+  });
+});
+
+describe('diffStats', () => {
+  it('counts words but not whitespace', () => {
+    expect(diffStats(diffWords('a b c d', 'a  c d e f'))).toEqual({ added: 2, removed: 1, unchanged: 3 });
+  });
+});
@@ -0,0 +1,126 @@
+export type DiffKind = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  kind: DiffKind;
+  text: string;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+// Past this many edits the texts have little in common; the rest is shown as replaced
+const MAX_EDITS = 4000;
+
+// Words and the whitespace between them, so joining the tokens gives back the text
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+const isWord = (token: string) => /\S/.test(token);
+
+/**
+ * Myers' shortest edit script between two token lists. Returns the furthest x reached
+ * on each diagonal after each edit, or null when there are more than MAX_EDITS edits.
+ */
+const shortestEdit = (a: string[], b: string[]): Int32Array[] | null => {
+  const trace: Int32Array[] = [];
+  const limit = Math.min(a.length + b.length, MAX_EDITS);
+  for (let d = 0; d <= limit; d++) {
+    // Diagonal k (x - y) is stored at k + d
+    const v = new Int32Array(2 * d + 1);
+    const prev = trace[d - 1];
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (d === 0) x = 0;
+      else if (k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1])) x = prev[k + 1 + d - 1];
+      else x = prev[k - 1 + d - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + d] = x;
+      if (x >= a.length && y >= b.length) {
+        trace.push(v);
+        return trace;
+      }
+    }
+    trace.push(v);
+  }
+  return null;
+};
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[]): DiffPart[] => {
+  const parts: DiffPart[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1]);
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = prev[prevK + d - 1];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      parts.push({ kind: 'equal', text: a[x] });
+    }
+    if (down) parts.push({ kind: 'added', text: b[prevY] });
+    else parts.push({ kind: 'removed', text: a[prevX] });
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0) parts.push({ kind: 'equal', text: a[--x] });
+  return parts.reverse();
+};
+
+const merge = (parts: DiffPart[]): DiffPart[] =>
+  parts.reduce<DiffPart[]>((merged, part) => {
+    const last = merged[merged.length - 1];
+    if (!part.text) return merged;
+    if (last?.kind === part.kind) last.text += part.text;
+    else merged.push({ ...part });
+    return merged;
+  }, []);
+
+/**
+ * Word-level diff of `before` against `after`. Whitespace is kept in the parts, so
+ * concatenating the equal and removed parts gives `before`, and equal and added `after`.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Edits are usually local, so only the middle that differs goes through the diff
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+  const middleA = a.slice(start, a.length - end);
+  const middleB = b.slice(start, b.length - end);
+
+  const trace = shortestEdit(middleA, middleB);
+  const middle = trace
+    ? backtrack(middleA, middleB, trace)
+    : [{ kind: 'removed' as const, text: middleA.join('') }, { kind: 'added' as const, text: middleB.join('') }];
+
+  return merge([
+    { kind: 'equal', text: a.slice(0, start).join('') },
+    ...middle,
+    { kind: 'equal', text: a.slice(a.length - end).join('') },
+  ]);
+};
+
+/**
+ * Words added, removed and kept by a diff; whitespace does not count.
+ */
+export const diffStats = (parts: DiffPart[]): DiffStats => {
+  const stats: DiffStats = { added: 0, removed: 0, unchanged: 0 };
+  for (const part of parts) {
+    const words = tokenize(part.text).filter(isWord).length;
+    stats[part.kind === 'equal' ? 'unchanged' : part.kind] += words;
+  }
+  return stats;
+};
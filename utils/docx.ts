@@ -0,0 +1,128 @@
+import { DocumentBlock } from './exportFormats';
+import { formatClock } from './segments';
+import { getLanguage } from './languages';
+import { createZip } from './zip';
+
+// Ships with Windows and covers both Ethiopic and Latin; Word substitutes elsewhere
+const BODY_FONT = 'Ebrima';
+// Complex-script font, used for right-to-left translations
+const COMPLEX_FONT = 'Arial';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+const CONTENT_TYPES = `${XML_HEADER}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const STYLES = `${XML_HEADER}
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr>
+      <w:rFonts w:ascii="${BODY_FONT}" w:hAnsi="${BODY_FONT}" w:eastAsia="${BODY_FONT}" w:cs="${COMPLEX_FONT}"/>
+      <w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="am-ET"/>
+    </w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+  <w:style w:type="paragraph" w:styleId="Title">
+    <w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>
+    <w:rPr><w:b/><w:sz w:val="36"/><w:szCs w:val="36"/><w:color w:val="1E3A8A"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Heading1">
+    <w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr>
+    <w:rPr><w:b/><w:sz w:val="28"/><w:szCs w:val="28"/><w:color w:val="2563EB"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Meta">
+    <w:name w:val="Metadata"/><w:basedOn w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:spacing w:after="40"/></w:pPr>
+    <w:rPr><w:sz w:val="20"/><w:szCs w:val="20"/><w:color w:val="64748B"/></w:rPr>
+  </w:style>
+</w:styles>`;
+
+const coreProperties = (title: string) => `${XML_HEADER}
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(title)}</dc:title>
+  <dc:language>am-ET</dc:language>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>
+</cp:coreProperties>`;
+
+interface Run {
+  text: string;
+  bold?: boolean;
+  color?: string;
+  rtl?: boolean;
+}
+
+const run = ({ text, bold, color, rtl }: Run) => {
+  const props = `${bold ? '<w:b/><w:bCs/>' : ''}${color ? `<w:color w:val="${color}"/>` : ''}${rtl ? '<w:rtl/>' : ''}`;
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const paragraph = (runs: Run[], style?: string, rtl = false) => {
+  const props = `${style ? `<w:pStyle w:val="${style}"/>` : ''}${rtl ? '<w:bidi/>' : ''}`;
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs.map(run).join('')}</w:p>`;
+};
+
+const blockXml = (block: DocumentBlock): string => {
+  switch (block.kind) {
+    case 'title':
+      return paragraph([{ text: block.text }], 'Title');
+    case 'meta':
+      return paragraph([{ text: `${block.label}: `, bold: true }, { text: block.value }], 'Meta');
+    case 'heading':
+      return paragraph([{ text: block.text }], 'Heading1');
+    case 'paragraph': {
+      const rtl = !!(block.language && getLanguage(block.language).rtl);
+      const runs: Run[] = [];
+      if (block.speaker) runs.push({ text: `${block.speaker} `, bold: true, color: '1D4ED8' });
+      if (block.time !== undefined) runs.push({ text: `${formatClock(block.time)}  `, color: '94A3B8' });
+      runs.push({ text: block.text, rtl });
+      return paragraph(runs, undefined, rtl);
+    }
+    case 'pageBreak':
+      return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+  }
+};
+
+/**
+ * Writes the blocks as a Word document, packaged with the same ZIP writer as batch downloads.
+ */
+export const toDocx = (blocks: DocumentBlock[]): Blob => {
+  const title = blocks.find(block => block.kind === 'title');
+  const body = blocks.map(blockXml).join('');
+  const document = `${XML_HEADER}
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES },
+    { name: '_rels/.rels', data: PACKAGE_RELS },
+    { name: 'docProps/core.xml', data: coreProperties(title?.kind === 'title' ? title.text : 'Amharic Transcription') },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS },
+    { name: 'word/styles.xml', data: STYLES },
+  ], DOCX_MIME_TYPE);
+};
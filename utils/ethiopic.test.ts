@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  fidelToLatin,
+  hasEthiopicNumerals,
+  latinToFidel,
+  parseEthiopicNumber,
+  toArabicDigits,
+  toEthiopicNumber,
+  toEthiopicNumerals,
+} from './ethiopic';
+
+describe('latinToFidel', () => {
+  it('writes syllables and bare consonants', () => {
+    expect(latinToFidel('selam')).toBe('ሰላም');
+  });
+
+  it('uses the separate -wa rows', () => {
+    expect(latinToFidel('qWa')).toBe('ቋ');
+    expect(latinToFidel('QWa')).toBe('ቛ');
+    expect(latinToFidel('^hWa')).toBe('ኋ');
+    expect(latinToFidel('kWa')).toBe('ኳ');
+    expect(latinToFidel('KWa')).toBe('ዃ');
+    expect(latinToFidel('gWa')).toBe('ጓ');
+  });
+
+  it('uses the eighth slot for other -wa forms', () => {
+    expect(latinToFidel('lWa')).toBe('ሏ');
+  });
+});
+
+describe('fidelToLatin', () => {
+  it('romanizes -wa forms so they type back to the same letter', () => {
+    expect(fidelToLatin('ቛ')).toBe('QWa');
+    for (const letter of ['ቋ', 'ቛ', 'ኋ', 'ኳ', 'ዃ', 'ጓ', 'ሏ']) {
+      expect(latinToFidel(fidelToLatin(letter))).toBe(letter);
+    }
+  });
+});
+
+describe('toEthiopicNumber', () => {
+  it('leaves out a multiplier of one before ፻ and ፼', () => {
+    expect(toEthiopicNumber(7)).toBe('፯');
+    expect(toEthiopicNumber(99)).toBe('፺፱');
+    expect(toEthiopicNumber(100)).toBe('፻');
+    expect(toEthiopicNumber(1000)).toBe('፲፻');
+    expect(toEthiopicNumber(10_000)).toBe('፼');
+    expect(toEthiopicNumber(12_345)).toBe('፼፳፫፻፵፭');
+    expect(toEthiopicNumber(1_000_000)).toBe('፻፼');
+  });
+});
+
+describe('parseEthiopicNumber', () => {
+  it('reads back what toEthiopicNumber writes', () => {
+    for (const n of [1, 10, 19, 100, 101, 250, 1984, 10_000, 20_001, 1_234_567, 100_000_000]) {
+      expect(parseEthiopicNumber(toEthiopicNumber(n))).toBe(n);
+    }
+  });
+});
+
+describe('toEthiopicNumerals', () => {
+  it('converts whole numbers and leaves times, decimals and leading zeros alone', () => {
+    expect(toEthiopicNumerals('በ2017 ዓ.ም 3 ሰዓት 10:30 2.5 007')).toBe('በ፳፻፲፯ ዓ.ም ፫ ሰዓት 10:30 2.5 007');
+  });
+});
+
+describe('toArabicDigits', () => {
+  it('converts each run of numerals', () => {
+    expect(toArabicDigits('በ፳፻፲፯ ዓ.ም ፫ ሰዓት')).toBe('በ2017 ዓ.ም 3 ሰዓት');
+    expect(hasEthiopicNumerals('በ2017')).toBe(false);
+    expect(hasEthiopicNumerals('፫')).toBe(true);
+  });
+});
@@ -0,0 +1,198 @@
+// SERA (System for Ethiopic Representation in ASCII) consonants and the first syllable of
+// their row. Each Unicode row holds the seven vowel orders in a fixed sequence.
+const CONSONANTS: [string, number][] = [
+  ['h', 0x1200], ['l', 0x1208], ['H', 0x1210], ['m', 0x1218], ['^s', 0x1220], ['r', 0x1228],
+  ['s', 0x1230], ['x', 0x1238], ['q', 0x1240], ['Q', 0x1250], ['b', 0x1260], ['v', 0x1268],
+  ['t', 0x1270], ['c', 0x1278], ['^h', 0x1280], ['n', 0x1290], ['N', 0x1298], ['k', 0x12a8],
+  ['K', 0x12b8], ['w', 0x12c8], ['`', 0x12d0], ['z', 0x12d8], ['Z', 0x12e0], ['y', 0x12e8],
+  ['d', 0x12f0], ['j', 0x1300], ['g', 0x1308], ['T', 0x1320], ['C', 0x1328], ['P', 0x1330],
+  ['S', 0x1338], ['^S', 0x1340], ['f', 0x1348], ['p', 0x1350],
+];
+
+// Vowel orders ä, u, i, a, e, ə (the bare consonant), o
+const VOWELS = ['e', 'u', 'i', 'a', 'E', 'I', 'o'];
+const SIXTH_ORDER = 5;
+// The glottal row (አ) spells a vowel with no consonant before it
+const GLOTTAL_ROW = 0x12a0;
+
+const LABIALIZED = 'Wa';
+// Most rows put their -wa form in the eighth slot; these keep it in a separate row
+const LABIALIZED_ELSEWHERE: Record<string, number> = { q: 0x124b, Q: 0x125b, '^h': 0x128b, k: 0x12b3, K: 0x12c3, g: 0x1313 };
+const NO_EIGHTH_WA = new Set(['h', '^S', 'w', '`', 'y', ...Object.keys(LABIALIZED_ELSEWHERE)]);
+
+// Longest first, so "::" wins over ":"
+const PUNCTUATION: [string, string][] = [['::', '።'], [':-', '፦'], [':', '፡'], [',', '፣'], [';', '፤']];
+
+// How Ethiopic punctuation reads in romanized text
+const ROMANIZED_PUNCTUATION: Record<string, string> = { '።': '.', '፣': ',', '፤': ';', '፡': ' ', '፦': ':', '፧': '?', '፨': '¶' };
+
+const CONSONANT_ROWS = new Map(CONSONANTS);
+
+const labializedOf = (consonant: string, row: number): number | undefined =>
+  LABIALIZED_ELSEWHERE[consonant] ?? (NO_EIGHTH_WA.has(consonant) ? undefined : row + 7);
+
+const ROMANIZATION = (() => {
+  const map = new Map<string, string>();
+  for (const [consonant, row] of CONSONANTS) {
+    VOWELS.forEach((vowel, order) => {
+      map.set(String.fromCodePoint(row + order), order === SIXTH_ORDER ? consonant : consonant + vowel);
+    });
+    const labialized = labializedOf(consonant, row);
+    if (labialized) map.set(String.fromCodePoint(labialized), consonant + LABIALIZED);
+  }
+  VOWELS.forEach((vowel, order) => map.set(String.fromCodePoint(GLOTTAL_ROW + order), vowel));
+  return map;
+})();
+
+const matchAt = (text: string, index: number, candidates: string[]) =>
+  candidates.find(candidate => text.startsWith(candidate, index));
+
+const matchConsonant = (text: string, index: number): string | undefined => {
+  const consonant = matchAt(text, index, ['^s', '^h', '^S']) ?? text[index];
+  if (CONSONANT_ROWS.has(consonant)) return consonant;
+  // Capitals without a consonant of their own type the lowercase one
+  return CONSONANT_ROWS.has(consonant.toLowerCase()) && !VOWELS.includes(consonant) ? consonant.toLowerCase() : undefined;
+};
+
+const matchVowel = (text: string, index: number): string | undefined => {
+  if (text.startsWith(LABIALIZED, index)) return LABIALIZED;
+  const char = text[index];
+  if (char === undefined) return undefined;
+  if (VOWELS.includes(char)) return char;
+  return ['A', 'U', 'O'].includes(char) ? char.toLowerCase() : undefined;
+};
+
+/**
+ * Converts SERA-style Latin input to Fidel, e.g. "selam" to ሰላም. A consonant without a
+ * vowel is written in its sixth order; "'" separates letters that would otherwise join,
+ * as in "n'a" for ንኣ rather than ና.
+ */
+export const latinToFidel = (latin: string): string => {
+  let output = '';
+  let i = 0;
+  while (i < latin.length) {
+    const punctuation = PUNCTUATION.find(([ascii]) => latin.startsWith(ascii, i));
+    if (punctuation) {
+      output += punctuation[1];
+      i += punctuation[0].length;
+      continue;
+    }
+
+    const consonant = matchConsonant(latin, i);
+    if (consonant) {
+      i += latin.startsWith(consonant, i) ? consonant.length : 1;
+      const row = CONSONANT_ROWS.get(consonant)!;
+      const vowel = matchVowel(latin, i);
+      if (vowel) i += vowel.length;
+      if (vowel === LABIALIZED) {
+        const labialized = labializedOf(consonant, row);
+        output += labialized ? String.fromCodePoint(labialized) : String.fromCodePoint(row + SIXTH_ORDER) + 'ዋ';
+      } else {
+        output += String.fromCodePoint(row + (vowel ? VOWELS.indexOf(vowel) : SIXTH_ORDER));
+      }
+      continue;
+    }
+
+    if (latin[i] === "'") {
+      i++;
+      continue;
+    }
+    const vowel = matchVowel(latin, i);
+    if (vowel && vowel !== LABIALIZED) {
+      output += String.fromCodePoint(GLOTTAL_ROW + VOWELS.indexOf(vowel));
+      i += vowel.length;
+      continue;
+    }
+    output += latin[i++];
+  }
+  return output;
+};
+
+/**
+ * Whether a typed character belongs to the Latin input method, as opposed to spaces,
+ * digits and other characters that end the word being composed. Punctuation typed
+ * right after a digit stays Latin, so times and figures like 10:30 survive.
+ */
+export const isLatinInputChar = (char: string, composed: string, before = ''): boolean => {
+  if (/^[a-zA-Z'`^]$/.test(char)) return true;
+  if (!composed && /\d$/.test(before)) return false;
+  return /^[:,;]$/.test(char) || (char === '-' && composed.endsWith(':'));
+};
+
+/**
+ * Romanizes Fidel with the same SERA conventions as the Latin input method, so a
+ * romanized word can be typed back to get the original. Ethiopic punctuation becomes its
+ * Latin counterpart.
+ */
+export const fidelToLatin = (text: string): string => {
+  let output = '';
+  let previousBare = false;
+  for (const char of text) {
+    const latin = ROMANIZATION.get(char);
+    if (latin === undefined) {
+      output += ROMANIZED_PUNCTUATION[char] ?? char;
+      previousBare = false;
+      continue;
+    }
+    // A sixth-order consonant followed by a vowel would otherwise read as one syllable
+    if (previousBare && matchVowel(latin, 0)) output += "'";
+    output += latin;
+    previousBare = CONSONANT_ROWS.has(latin);
+  }
+  return output;
+};
+
+// ፩–፱, ፲–፺, then ፻ (100) and ፼ (10,000). There is no zero.
+const ONES = 0x1369;
+const TENS = 0x1372;
+const HUNDRED = '፻';
+const TEN_THOUSAND = '፼';
+const ETHIOPIC_NUMBER = /[፩-፼]+/g;
+
+const belowHundred = (n: number): string =>
+  (n >= 10 ? String.fromCodePoint(TENS + Math.floor(n / 10) - 1) : '') + (n % 10 ? String.fromCodePoint(ONES + (n % 10) - 1) : '');
+
+/**
+ * Writes a positive integer in Ethiopic numerals. A multiplier of one is left out
+ * before ፻ and ፼, so 100 is ፻ and 12,345 is ፼፳፫፻፵፭.
+ */
+export const toEthiopicNumber = (n: number): string => {
+  if (n < 100) return belowHundred(n);
+  const [base, mark] = n < 10_000 ? [100, HUNDRED] : [10_000, TEN_THOUSAND];
+  const multiplier = Math.floor(n / base);
+  const rest = n % base;
+  return (multiplier === 1 ? '' : toEthiopicNumber(multiplier)) + mark + (rest ? toEthiopicNumber(rest) : '');
+};
+
+const parseEthiopicPart = (numeral: string, mark: string, base: number, parseRest: (part: string) => number): number => {
+  const split = numeral.lastIndexOf(mark);
+  if (split === -1) return parseRest(numeral);
+  const multiplier = numeral.slice(0, split);
+  return (multiplier ? parseEthiopicNumber(multiplier) : 1) * base + parseRest(numeral.slice(split + 1));
+};
+
+const parseBelowHundred = (numeral: string): number =>
+  [...numeral].reduce((total, char) => {
+    const code = char.codePointAt(0)!;
+    return total + (code >= TENS ? (code - TENS + 1) * 10 : code - ONES + 1);
+  }, 0);
+
+/**
+ * Reads a run of Ethiopic numerals back as a number.
+ */
+export const parseEthiopicNumber = (numeral: string): number =>
+  parseEthiopicPart(numeral, TEN_THOUSAND, 10_000, part =>
+    parseEthiopicPart(part, HUNDRED, 100, parseBelowHundred));
+
+/**
+ * Replaces whole numbers written in Arabic digits with Ethiopic numerals. Ethiopic has no
+ * zero or decimals, so times, decimals and numbers with leading zeros are left alone.
+ */
+export const toEthiopicNumerals = (text: string): string =>
+  text.replace(/\d+(?:[.:,]\d+)*/g, number =>
+    /^[1-9]\d{0,14}$/.test(number) ? toEthiopicNumber(Number(number)) : number);
+
+export const toArabicDigits = (text: string): string =>
+  text.replace(ETHIOPIC_NUMBER, numeral => String(parseEthiopicNumber(numeral)));
+
+export const hasEthiopicNumerals = (text: string): boolean => /[፩-፼]/.test(text);
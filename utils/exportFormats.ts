@@ -0,0 +1,127 @@
+import { LanguageCode, TranscriptionResult } from '../types';
+import { TRANSLATION_LANGUAGES } from './languages';
+import { formatClock, getSpeakers, groupSpeakerTurns, hasSpeakers, segmentsToText, toSpeakerText } from './segments';
+import { fidelToLatin } from './ethiopic';
+
+/**
+ * The Amharic transcript as speaker-tagged paragraphs when speakers were labelled and
+ * the segments still match the text; otherwise the text as edited.
+ */
+export const getAmharicText = (result: TranscriptionResult): string =>
+  result.segments && hasSpeakers(result.segments) && segmentsToText(result.segments) === result.text
+    ? toSpeakerText(result.segments)
+    : result.text;
+
+/**
+ * Plain-text transcript: the Amharic original followed by each translation.
+ */
+export const toPlainText = (result: TranscriptionResult): string => {
+  let content = `Original Amharic:\n${getAmharicText(result)}`;
+  for (const language of TRANSLATION_LANGUAGES) {
+    const translation = result.translations[language.code];
+    if (translation !== undefined) {
+      content += `\n\n${language.name} Translation:\n${translation}`;
+    }
+  }
+  return content;
+};
+
+/**
+ * The Amharic transcript romanized, for readers who do not read Fidel.
+ */
+export const toRomanizedText = (result: TranscriptionResult): string => fidelToLatin(getAmharicText(result));
+
+/**
+ * Length of the recording in seconds: the stored duration, or where the last segment ends.
+ */
+export const getDuration = (result: TranscriptionResult): number | undefined =>
+  result.storedAudio?.duration ?? (result.segments?.length ? result.segments[result.segments.length - 1].end : undefined);
+
+/**
+ * Format-neutral outline of one or more transcripts, rendered by the Markdown, DOCX and
+ * PDF exporters so all three carry the same content.
+ */
+export type DocumentBlock =
+  | { kind: 'title'; text: string }
+  | { kind: 'meta'; label: string; value: string }
+  | { kind: 'heading'; text: string }
+  | { kind: 'paragraph'; text: string; speaker?: string; time?: number; language?: LanguageCode }
+  | { kind: 'pageBreak' };
+
+const paragraphs = (text: string, language?: LanguageCode): DocumentBlock[] =>
+  text.split('\n').filter(line => line.trim()).map(line => ({ kind: 'paragraph', text: line.trim(), language }));
+
+const transcriptBlocks = (result: TranscriptionResult): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [{ kind: 'title', text: result.title || `Transcription, ${result.timestamp.toLocaleString()}` }];
+  if (result.title) blocks.push({ kind: 'meta', label: 'Date', value: result.timestamp.toLocaleString() });
+
+  const duration = getDuration(result);
+  const speakers = result.segments ? getSpeakers(result.segments) : [];
+  const translated = TRANSLATION_LANGUAGES.filter(language => result.translations[language.code] !== undefined);
+  if (duration !== undefined) blocks.push({ kind: 'meta', label: 'Duration', value: formatClock(duration) });
+  if (speakers.length) blocks.push({ kind: 'meta', label: 'Speakers', value: speakers.join(', ') });
+  if (result.model) blocks.push({ kind: 'meta', label: 'Model', value: result.provider ? `${result.model} (${result.provider})` : result.model });
+  if (translated.length) blocks.push({ kind: 'meta', label: 'Translations', value: translated.map(language => language.name).join(', ') });
+  if (result.tags?.length) blocks.push({ kind: 'meta', label: 'Tags', value: result.tags.join(', ') });
+
+  blocks.push({ kind: 'heading', text: 'Amharic' });
+  if (result.segments && hasSpeakers(result.segments) && segmentsToText(result.segments) === result.text) {
+    for (const turn of groupSpeakerTurns(result.segments)) {
+      blocks.push({ kind: 'paragraph', text: turn.text, speaker: turn.speaker, time: turn.start });
+    }
+  } else {
+    blocks.push(...paragraphs(result.text));
+  }
+
+  for (const language of translated) {
+    blocks.push({ kind: 'heading', text: `${language.name} Translation` });
+    blocks.push(...paragraphs(result.translations[language.code]!, language.code));
+  }
+  return blocks;
+};
+
+export const toDocumentBlocks = (results: TranscriptionResult[]): DocumentBlock[] =>
+  results.flatMap((result, i) => [...(i > 0 ? [{ kind: 'pageBreak' } as const] : []), ...transcriptBlocks(result)]);
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]#<>|])/g, '\\$1');
+
+export const toMarkdown = (results: TranscriptionResult[]): string =>
+  toDocumentBlocks(results).map(block => {
+    switch (block.kind) {
+      case 'title': return `# ${escapeMarkdown(block.text)}\n`;
+      case 'meta': return `- **${block.label}:** ${escapeMarkdown(block.value)}`;
+      case 'heading': return `\n## ${escapeMarkdown(block.text)}\n`;
+      case 'paragraph': {
+        const label = [block.speaker && `**${escapeMarkdown(block.speaker)}**`, block.time !== undefined && `\`${formatClock(block.time)}\``]
+          .filter(Boolean).join(' ');
+        return `${label ? `${label}: ` : ''}${escapeMarkdown(block.text)}\n`;
+      }
+      case 'pageBreak': return '\n---\n';
+    }
+  }).join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+
+/**
+ * Everything known about the transcripts, for re-import or processing by other tools.
+ */
+export const toJsonExport = (results: TranscriptionResult[]): string =>
+  JSON.stringify({
+    format: 'amharic-voice-transcriptions',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    transcriptions: results.map(result => ({
+      id: result.id ?? null,
+      title: result.title ?? null,
+      tags: result.tags ?? [],
+      createdAt: result.timestamp.toISOString(),
+      language: 'am',
+      duration: getDuration(result) ?? null,
+      provider: result.provider ?? null,
+      model: result.model ?? null,
+      speakers: result.segments ? getSpeakers(result.segments) : [],
+      text: result.text,
+      segments: result.segments ?? [],
+      translations: result.translations,
+      analysis: result.analysis ?? null,
+      audio: result.storedAudio ?? null,
+    })),
+  }, null, 2);
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { GlossaryTerm } from '../types';
+import { applyGlossary, correctVariants, findGlossaryIssues, glossaryToCsv, parseGlossaryCsv, replaceTerm } from './glossary';
+
+const term = (value: string, variants: string[] = [], english: string | null = null): GlossaryTerm => ({
+  id: value,
+  user_id: 'user',
+  term: value,
+  variants,
+  english,
+  created_at: '2026-10-19T00:00:00Z',
+});
+
+const ethiopia = term('ኢትዮጵያ', ['ኢትዮጲያ'], 'Ethiopia');
+
+describe('replaceTerm', () => {
+  it('replaces whole words only, including next to Ethiopic punctuation', () => {
+    expect(replaceTerm('ቡና፣ ቡናማ ቡና።', 'ቡና', 'ቡን')).toBe('ቡን፣ ቡናማ ቡን።');
+  });
+
+  it('treats the search text literally', () => {
+    expect(replaceTerm('a.b axb', 'a.b', 'c')).toBe('c axb');
+  });
+
+  it('leaves the text alone for an empty term', () => {
+    expect(replaceTerm('ቡና', ' ', 'x')).toBe('ቡና');
+  });
+});
+
+describe('correctVariants', () => {
+  it('replaces every variant with the preferred spelling', () => {
+    expect(correctVariants('ኢትዮጲያ (ኢትዮጲያ) ኢትዮጲያዊ', [ethiopia])).toBe('ኢትዮጵያ (ኢትዮጵያ) ኢትዮጲያዊ');
+  });
+});
+
+describe('applyGlossary', () => {
+  it('corrects the text and each segment', () => {
+    const output = { text: 'ኢትዮጲያ', segments: [{ start: 0, end: 1, text: 'ኢትዮጲያ', speaker: 'A' }] };
+    expect(applyGlossary(output, [ethiopia])).toEqual({
+      text: 'ኢትዮጵያ',
+      segments: [{ start: 0, end: 1, text: 'ኢትዮጵያ', speaker: 'A' }],
+    });
+  });
+
+  it('returns the output as it is without a glossary', () => {
+    const output = { text: 'x', segments: [] };
+    expect(applyGlossary(output, [])).toBe(output);
+  });
+});
+
+describe('findGlossaryIssues', () => {
+  it('flags near misses of a term once each', () => {
+    expect(findGlossaryIssues('ኢትዮጰያ ኢትዮጰያ ኢትዮጵያ', {}, [ethiopia])).toEqual([
+      { term: ethiopia, kind: 'spelling', found: 'ኢትዮጰያ' },
+    ]);
+  });
+
+  it('does not fuzz very short terms or flag other known terms', () => {
+    expect(findGlossaryIssues('ቡኒ ኢትዮጵያ', {}, [term('ቡና'), term('ኢትዮጵያ'), term('ኢትዮጰያ')])).toEqual([]);
+  });
+
+  it('matches multi-word terms', () => {
+    const addis = term('አዲስ አበባ');
+    expect(findGlossaryIssues('ወደ አዲስ አበቤ ሄደ', {}, [addis])).toEqual([{ term: addis, kind: 'spelling', found: 'አዲስ አበቤ' }]);
+  });
+
+  it('flags a term whose English equivalent is missing from the translation', () => {
+    expect(findGlossaryIssues('ኢትዮጵያ', { en: 'The country' }, [ethiopia])).toEqual([{ term: ethiopia, kind: 'translation' }]);
+    expect(findGlossaryIssues('ኢትዮጵያ', { en: 'ETHIOPIA' }, [ethiopia])).toEqual([]);
+    expect(findGlossaryIssues('ኢትዮጵያ', {}, [ethiopia])).toEqual([]);
+  });
+});
+
+describe('glossary CSV', () => {
+  it('round-trips terms', () => {
+    const terms = [ethiopia, term('ቡና', [], 'coffee'), term('ጤፍ, ነጭ', ['ጠፍ', 'ጤፋ'])];
+    expect(parseGlossaryCsv(glossaryToCsv(terms))).toEqual(
+      terms.map(({ term, variants, english }) => ({ term, variants, english }))
+    );
+  });
+
+  it('reads files without a header, keeping the last row of a repeated term', () => {
+    expect(parseGlossaryCsv(' ቡና , ቡን | ቡኑ ,\n,ignored\nቡና,,coffee')).toEqual([{ term: 'ቡና', variants: [], english: 'coffee' }]);
+  });
+});
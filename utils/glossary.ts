@@ -0,0 +1,128 @@
+import { GlossaryTerm, GlossaryTermInput, Translations, TranscriptionOutput } from '../types';
+import { parseCsv, toCsv } from './csv';
+
+// Whitespace plus Ethiopic and Latin punctuation; JavaScript's \b only knows ASCII words
+const BOUNDARY = `\\s።፣፤፥፦፧፨.,;:!?"'()\\[\\]«»“”‘’-`;
+
+export interface GlossaryIssue {
+  term: GlossaryTerm;
+  // 'spelling': `found` in the transcript looks like a misspelling of the term.
+  // 'translation': the term is in the transcript but its English equivalent is not in the translation.
+  kind: 'spelling' | 'translation';
+  found?: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const wholeWord = (value: string) =>
+  new RegExp(`(?<=^|[${BOUNDARY}])${escapeRegExp(value)}(?=$|[${BOUNDARY}])`, 'g');
+
+/**
+ * Replaces every whole-word occurrence of `from` with `to`.
+ */
+export const replaceTerm = (text: string, from: string, to: string): string =>
+  from.trim() ? text.replace(wholeWord(from.trim()), to) : text;
+
+/**
+ * Replaces known misspellings with the preferred spelling.
+ */
+export const correctVariants = (text: string, glossary: GlossaryTerm[]): string =>
+  glossary.reduce(
+    (corrected, term) => term.variants.reduce((current, variant) => replaceTerm(current, variant, term.term), corrected),
+    text
+  );
+
+/**
+ * Applies correctVariants to a transcription's text and each of its segments.
+ */
+export const applyGlossary = (output: TranscriptionOutput, glossary: GlossaryTerm[]): TranscriptionOutput => {
+  if (!glossary.length) return output;
+  return {
+    text: correctVariants(output.text, glossary),
+    segments: output.segments.map(segment => ({ ...segment, text: correctVariants(segment.text, glossary) })),
+  };
+};
+
+const levenshtein = (a: string[], b: string[]): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+const tokenize = (text: string) => text.split(new RegExp(`[${BOUNDARY}]+`)).filter(Boolean);
+
+/**
+ * Post-pass over a transcript: flags words that are close to, but not exactly, a glossary
+ * term (likely misspellings the model did not fix), and terms whose English equivalent is
+ * missing from the English translation.
+ */
+export const findGlossaryIssues = (text: string, translations: Translations, glossary: GlossaryTerm[]): GlossaryIssue[] => {
+  const tokens = tokenize(text);
+  const known = new Set(glossary.map(term => term.term));
+  const issues: GlossaryIssue[] = [];
+  const flagged = new Set<string>();
+
+  for (const term of glossary) {
+    const size = tokenize(term.term).length;
+    if (!size) continue;
+    const characters = [...term.term];
+    // Each Fidel character is a whole syllable, so very short terms match too much to fuzz
+    const tolerance = characters.length < 3 ? 0 : characters.length <= 5 ? 1 : 2;
+    let present = false;
+
+    for (let i = 0; i + size <= tokens.length; i++) {
+      const candidate = tokens.slice(i, i + size).join(' ');
+      if (candidate === term.term) {
+        present = true;
+        continue;
+      }
+      if (!tolerance || known.has(candidate) || flagged.has(candidate)) continue;
+      const distance = levenshtein([...candidate], characters);
+      if (distance <= tolerance) {
+        flagged.add(candidate);
+        issues.push({ term, kind: 'spelling', found: candidate });
+      }
+    }
+
+    const english = term.english?.trim();
+    if (present && english && translations.en !== undefined && !translations.en.toLowerCase().includes(english.toLowerCase())) {
+      issues.push({ term, kind: 'translation' });
+    }
+  }
+  return issues;
+};
+
+const CSV_HEADER = ['term', 'variants', 'english'];
+// Separates variants within the one CSV column
+const VARIANT_SEPARATOR = '|';
+
+export const glossaryToCsv = (terms: GlossaryTerm[]): string =>
+  toCsv([CSV_HEADER, ...terms.map(term => [term.term, term.variants.join(VARIANT_SEPARATOR), term.english || ''])]);
+
+/**
+ * Reads a term,variants,english CSV. The header row is optional; rows without a term are skipped.
+ */
+export const parseGlossaryCsv = (text: string): GlossaryTermInput[] => {
+  const rows = parseCsv(text);
+  if (rows[0]?.[0]?.trim().toLowerCase() === CSV_HEADER[0]) rows.shift();
+
+  const terms = new Map<string, GlossaryTermInput>();
+  for (const [term = '', variants = '', english = ''] of rows) {
+    if (!term.trim()) continue;
+    // The last row wins, as one upsert cannot touch the same term twice
+    terms.set(term.trim(), {
+      term: term.trim(),
+      variants: variants.split(VARIANT_SEPARATOR).map(variant => variant.trim()).filter(Boolean),
+      english: english.trim() || null,
+    });
+  }
+  return [...terms.values()];
+};
@@ -0,0 +1,22 @@
+import { LanguageCode } from '../types';
+
+export interface TranslationLanguage {
+  code: LanguageCode;
+  name: string;
+  nativeName: string;
+  rtl?: boolean;
+}
+
+/**
+ * Languages Amharic transcripts can be translated into, in display order.
+ */
+export const TRANSLATION_LANGUAGES: TranslationLanguage[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'om', name: 'Afaan Oromo', nativeName: 'Afaan Oromoo' },
+  { code: 'ti', name: 'Tigrinya', nativeName: 'ትግርኛ' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', rtl: true },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+];
+
+export const getLanguage = (code: LanguageCode): TranslationLanguage =>
+  TRANSLATION_LANGUAGES.find(language => language.code === code)!;
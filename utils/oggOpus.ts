@@ -0,0 +1,167 @@
+import { SPEECH_SAMPLE_RATE } from './audio';
+
+// Plenty for intelligible mono speech at 16 kHz
+const OPUS_BITRATE = 24_000;
+const OPUS_FRAME_MICROSECONDS = 20_000;
+// Ogg Opus timestamps always count 48 kHz samples, whatever the input rate
+const OPUS_GRANULE_RATE = 48_000;
+// Encoder lookahead that players skip at the start (libopus default, in 48 kHz samples)
+const OPUS_PRE_SKIP = 312;
+// Roughly one second of 20 ms packets per Ogg page
+const PACKETS_PER_PAGE = 50;
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let k = 0; k < 8; k++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+// Ogg uses the unreflected CRC-32 polynomial, unlike ZIP
+const oggCrc32 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const lacingValues = (length: number): number[] => [...new Array(Math.floor(length / 255)).fill(255), length % 255];
+
+const oggPage = (packets: Uint8Array[], granule: number, serial: number, sequence: number, flags: number): Uint8Array => {
+  const lacing = packets.flatMap(packet => lacingValues(packet.length));
+  const bodyLength = packets.reduce((total, packet) => total + packet.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+
+  page.set(ascii('OggS'), 0);
+  view.setUint8(4, 0);                                      // version
+  view.setUint8(5, flags);                                  // 0x02 first page, 0x04 last page
+  view.setUint32(6, granule % 2 ** 32, true);
+  view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, oggCrc32(page), true);
+  return page;
+};
+
+const opusHead = (inputSampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(ascii('OpusHead'), 0);
+  view.setUint8(8, 1);                      // version
+  view.setUint8(9, 1);                      // mono
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true);               // output gain
+  view.setUint8(18, 0);                     // channel mapping family
+  return head;
+};
+
+const opusTags = (): Uint8Array => {
+  const vendor = ascii('amharic-voice');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(ascii('OpusTags'), 0);
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  view.setUint32(12 + vendor.length, 0, true); // no user comments
+  return tags;
+};
+
+interface OpusPacket {
+  data: Uint8Array;
+  samples: number; // in 48 kHz samples
+}
+
+const muxOggOpus = (packets: OpusPacket[], sampleRate: number, totalSamples: number): Blob => {
+  const serial = Math.floor(Math.random() * 2 ** 32);
+  const pages = [
+    oggPage([opusHead(sampleRate)], 0, serial, 0, 0x02),
+    oggPage([opusTags()], 0, serial, 1, 0),
+  ];
+
+  // The last page's granule marks the real end, so players drop the encoder's padding
+  const endGranule = OPUS_PRE_SKIP + Math.round((totalSamples * OPUS_GRANULE_RATE) / sampleRate);
+  let granule = OPUS_PRE_SKIP;
+  for (let i = 0; i < packets.length; i += PACKETS_PER_PAGE) {
+    const group = packets.slice(i, i + PACKETS_PER_PAGE);
+    granule += group.reduce((total, packet) => total + packet.samples, 0);
+    const isLast = i + PACKETS_PER_PAGE >= packets.length;
+    pages.push(oggPage(group.map(packet => packet.data), isLast ? endGranule : granule, serial, pages.length, isLast ? 0x04 : 0));
+  }
+
+  return new Blob(pages, { type: 'audio/ogg; codecs=opus' });
+};
+
+/**
+ * Encodes mono float samples as Ogg Opus with WebCodecs. Resolves to null where the
+ * browser has no Opus encoder, so callers can fall back to WAV.
+ */
+export const encodeOggOpus = async (samples: Float32Array, sampleRate = SPEECH_SAMPLE_RATE): Promise<Blob | null> => {
+  if (typeof AudioEncoder === 'undefined' || samples.length === 0) return null;
+
+  const config: AudioEncoderConfig = {
+    codec: 'opus',
+    sampleRate,
+    numberOfChannels: 1,
+    bitrate: OPUS_BITRATE,
+    opus: { frameDuration: OPUS_FRAME_MICROSECONDS },
+  };
+  const support = await AudioEncoder.isConfigSupported(config).catch(() => null);
+  if (!support?.supported) return null;
+
+  const packets: OpusPacket[] = [];
+  let failed = false;
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      const duration = chunk.duration ?? OPUS_FRAME_MICROSECONDS;
+      packets.push({ data, samples: Math.round((duration * OPUS_GRANULE_RATE) / 1_000_000) });
+    },
+    error: (error) => {
+      console.warn("Opus encoding failed:", error);
+      failed = true;
+    },
+  });
+
+  try {
+    encoder.configure(config);
+    // Feed one second at a time
+    for (let offset = 0; offset < samples.length; offset += sampleRate) {
+      const data = samples.slice(offset, offset + sampleRate);
+      const frame = new AudioData({
+        format: 'f32',
+        sampleRate,
+        numberOfChannels: 1,
+        numberOfFrames: data.length,
+        timestamp: Math.round((offset / sampleRate) * 1_000_000),
+        data,
+      });
+      encoder.encode(frame);
+      frame.close();
+    }
+    await encoder.flush();
+  } catch (error) {
+    console.warn("Opus encoding failed:", error);
+    failed = true;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  return failed || !packets.length ? null : muxOggOpus(packets, sampleRate, samples.length);
+};
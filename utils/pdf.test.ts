@@ -0,0 +1,36 @@
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { describe, expect, it } from 'vitest';
+import { parseTrueType, toPdf, unpackWoff } from './pdf';
+
+const require = createRequire(import.meta.url);
+
+const loadFont = async (file: string, name: string) => {
+  const bytes = readFileSync(require.resolve(file));
+  return parseTrueType(await unpackWoff(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length)), name);
+};
+
+describe('unpackWoff', () => {
+  it('rebuilds the bundled subsets as TrueType', async () => {
+    const ethiopic = await loadFont('@fontsource/noto-sans-ethiopic/files/noto-sans-ethiopic-ethiopic-400-normal.woff', 'NotoSansEthiopic-Regular');
+    const latin = await loadFont('@fontsource/noto-sans/files/noto-sans-latin-400-normal.woff', 'NotoSans-Regular');
+
+    expect(ethiopic.unitsPerEm).toBe(1000);
+    expect(ethiopic.glyphFor('ሰ'.codePointAt(0)!)).not.toBe(0);
+    expect(ethiopic.glyphFor('።'.codePointAt(0)!)).not.toBe(0);
+    expect(latin.glyphFor('é'.codePointAt(0)!)).not.toBe(0);
+    expect(latin.advanceOf(latin.glyphFor('m'.codePointAt(0)!))).toBeGreaterThan(0);
+  });
+
+  it('returns TrueType files unchanged', async () => {
+    const buffer = new Uint8Array([0, 1, 0, 0]).buffer;
+    expect(await unpackWoff(buffer)).toBe(buffer);
+  });
+});
+
+describe('toPdf', () => {
+  it('refuses right-to-left text', async () => {
+    const font = await loadFont('@fontsource/noto-sans/files/noto-sans-latin-400-normal.woff', 'NotoSans-Regular');
+    await expect(toPdf([{ kind: 'paragraph', text: 'مرحبا', language: 'ar' }], [font])).rejects.toThrow('Arabic');
+  });
+});
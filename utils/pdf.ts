@@ -0,0 +1,420 @@
+import { DocumentBlock } from './exportFormats';
+import { formatClock } from './segments';
+import { getLanguage } from './languages';
+
+/**
+ * A TrueType font parsed just far enough to embed it and lay out text with it.
+ */
+export interface TrueTypeFont {
+  bytes: Uint8Array;
+  name: string;
+  unitsPerEm: number;
+  ascent: number;
+  descent: number;
+  bbox: [number, number, number, number];
+  glyphFor: (codePoint: number) => number;
+  advanceOf: (glyph: number) => number;
+}
+
+/**
+ * Reads the tables a PDF needs from a TrueType (glyf-outline) font file. Both
+ * Ethiopic and Latin sit in the Basic Multilingual Plane, so a format 4 or
+ * format 12 cmap covers everything we draw.
+ */
+export const parseTrueType = (buffer: ArrayBuffer, name: string): TrueTypeFont => {
+  const view = new DataView(buffer);
+  if (view.getUint32(0) !== 0x00010000 && view.getUint32(0) !== 0x74727565) {
+    throw new Error(`${name} is not a TrueType font.`);
+  }
+
+  const tables = new Map<string, number>();
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(...new Uint8Array(buffer, record, 4));
+    tables.set(tag, view.getUint32(record + 8));
+  }
+  const table = (tag: string) => {
+    const offset = tables.get(tag);
+    if (offset === undefined) throw new Error(`${name} has no ${tag} table.`);
+    return offset;
+  };
+
+  const head = table('head');
+  const hhea = table('hhea');
+  const hmtx = table('hmtx');
+  const numberOfHMetrics = view.getUint16(hhea + 34);
+
+  return {
+    bytes: new Uint8Array(buffer),
+    name,
+    unitsPerEm: view.getUint16(head + 18),
+    ascent: view.getInt16(hhea + 4),
+    descent: view.getInt16(hhea + 6),
+    bbox: [view.getInt16(head + 36), view.getInt16(head + 38), view.getInt16(head + 40), view.getInt16(head + 42)],
+    glyphFor: cmapLookup(view, table('cmap')),
+    // Glyphs past the last metric share its advance
+    advanceOf: glyph => view.getUint16(hmtx + Math.min(glyph, numberOfHMetrics - 1) * 4),
+  };
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Rebuilds the TrueType file wrapped in a WOFF 1.0 font, which is how the bundled font
+ * subsets ship; PDFs can only embed the plain file. Other fonts are returned as they are.
+ */
+export const unpackWoff = async (buffer: ArrayBuffer): Promise<ArrayBuffer> => {
+  const view = new DataView(buffer);
+  if (view.getUint32(0) !== 0x774f4646) return buffer;
+
+  const numTables = view.getUint16(12);
+  const tables = await Promise.all(Array.from({ length: numTables }, async (_, i) => {
+    const entry = 44 + i * 20;
+    const data = new Uint8Array(buffer, view.getUint32(entry + 4), view.getUint32(entry + 8));
+    // Tables that did not shrink are stored as they are
+    const compressed = data.length < view.getUint32(entry + 12);
+    return { tag: view.getUint32(entry), checksum: view.getUint32(entry + 16), data: compressed ? await inflate(data) : data };
+  }));
+
+  // The offset table and its binary-search hints, then the table records in WOFF's (tag) order
+  const directoryEnd = 12 + numTables * 16;
+  const sfnt = new Uint8Array(tables.reduce((length, { data }) => length + Math.ceil(data.length / 4) * 4, directoryEnd));
+  const out = new DataView(sfnt.buffer);
+  const entrySelector = Math.floor(Math.log2(numTables));
+  out.setUint32(0, view.getUint32(4));
+  out.setUint16(4, numTables);
+  out.setUint16(6, 16 << entrySelector);
+  out.setUint16(8, entrySelector);
+  out.setUint16(10, numTables * 16 - (16 << entrySelector));
+  let offset = directoryEnd;
+  tables.forEach(({ tag, checksum, data }, i) => {
+    const record = 12 + i * 16;
+    out.setUint32(record, tag);
+    out.setUint32(record + 4, checksum);
+    out.setUint32(record + 8, offset);
+    out.setUint32(record + 12, data.length);
+    sfnt.set(data, offset);
+    offset += Math.ceil(data.length / 4) * 4;
+  });
+  return sfnt.buffer;
+};
+
+const cmapLookup = (view: DataView, cmap: number): ((codePoint: number) => number) => {
+  const subtables = new Map<string, number>();
+  for (let i = 0; i < view.getUint16(cmap + 2); i++) {
+    const record = cmap + 4 + i * 8;
+    subtables.set(`${view.getUint16(record)}/${view.getUint16(record + 2)}`, cmap + view.getUint32(record + 4));
+  }
+
+  const full = subtables.get('3/10') ?? subtables.get('0/4');
+  if (full !== undefined && view.getUint16(full) === 12) {
+    const groups = view.getUint32(full + 12);
+    return codePoint => {
+      for (let i = 0; i < groups; i++) {
+        const group = full + 16 + i * 12;
+        const start = view.getUint32(group);
+        if (codePoint >= start && codePoint <= view.getUint32(group + 4)) return view.getUint32(group + 8) + codePoint - start;
+      }
+      return 0;
+    };
+  }
+
+  const bmp = subtables.get('3/1') ?? subtables.get('0/3');
+  if (bmp === undefined || view.getUint16(bmp) !== 4) throw new Error("Font has no Unicode cmap.");
+  const segCount = view.getUint16(bmp + 6) / 2;
+  const endCodes = bmp + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+  return codePoint => {
+    if (codePoint > 0xffff) return 0;
+    for (let i = 0; i < segCount; i++) {
+      if (codePoint > view.getUint16(endCodes + i * 2)) continue;
+      const start = view.getUint16(startCodes + i * 2);
+      if (codePoint < start) return 0;
+      const delta = view.getUint16(idDeltas + i * 2);
+      const rangeOffset = view.getUint16(idRangeOffsets + i * 2);
+      if (!rangeOffset) return (codePoint + delta) & 0xffff;
+      const glyph = view.getUint16(idRangeOffsets + i * 2 + rangeOffset + (codePoint - start) * 2);
+      return glyph ? (glyph + delta) & 0xffff : 0;
+    }
+    return 0;
+  };
+};
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+interface TextStyle {
+  size: number;
+  color: [number, number, number];
+  spaceBefore: number;
+  spaceAfter: number;
+}
+
+const STYLES: Record<'title' | 'meta' | 'heading' | 'paragraph', TextStyle> = {
+  title: { size: 18, color: [0.12, 0.23, 0.54], spaceBefore: 0, spaceAfter: 10 },
+  meta: { size: 9.5, color: [0.39, 0.45, 0.55], spaceBefore: 0, spaceAfter: 2 },
+  heading: { size: 13, color: [0.15, 0.39, 0.92], spaceBefore: 16, spaceAfter: 6 },
+  paragraph: { size: 11, color: [0.06, 0.09, 0.16], spaceBefore: 0, spaceAfter: 7 },
+};
+const LABEL_COLOR: [number, number, number] = [0.11, 0.31, 0.85];
+const LINE_HEIGHT = 1.45;
+
+interface Span {
+  text: string;
+  color: [number, number, number];
+}
+
+interface UsedFont {
+  font: TrueTypeFont;
+  // glyph id -> the text it was drawn for, for the ToUnicode map
+  glyphs: Map<number, string>;
+}
+
+class PdfLayout {
+  pages: string[] = [];
+  private content = '';
+  private y = 0;
+
+  constructor(private fonts: UsedFont[]) {
+    this.newPage();
+  }
+
+  newPage() {
+    if (this.content) this.pages.push(this.content);
+    this.content = '';
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  finish(): string[] {
+    this.pages.push(this.content);
+    return this.pages;
+  }
+
+  // The first font that has a glyph for the character, so Fidel and Latin can share a line
+  private fontIndexFor(codePoint: number) {
+    const index = this.fonts.findIndex(({ font }) => font.glyphFor(codePoint) !== 0);
+    return index === -1 ? 0 : index;
+  }
+
+  private width(text: string, size: number) {
+    let width = 0;
+    for (const char of text) {
+      const { font } = this.fonts[this.fontIndexFor(char.codePointAt(0)!)];
+      width += (font.advanceOf(font.glyphFor(char.codePointAt(0)!)) * size) / font.unitsPerEm;
+    }
+    return width;
+  }
+
+  // Greedy word wrap over styled spans; words longer than a line are split by character
+  private wrap(spans: Span[], size: number): Span[][] {
+    const lines: Span[][] = [];
+    let line: Span[] = [];
+    let lineWidth = 0;
+    const pushWord = (word: string, color: Span['color']) => {
+      if (!lineWidth && !word.trim()) return;
+      const wordWidth = this.width(word, size);
+      if (lineWidth + wordWidth > CONTENT_WIDTH && lineWidth > 0) {
+        lines.push(line);
+        line = [];
+        lineWidth = 0;
+        if (!word.trim()) return;
+      }
+      if (wordWidth > CONTENT_WIDTH) {
+        for (const char of word) pushWord(char, color);
+        return;
+      }
+      const last = line[line.length - 1];
+      if (last?.color === color) last.text += word;
+      else line.push({ text: word, color });
+      lineWidth += wordWidth;
+    };
+    for (const span of spans) {
+      for (const word of span.text.split(/(\s+)/).filter(Boolean)) pushWord(word, span.color);
+    }
+    if (line.length) lines.push(line);
+    return lines;
+  }
+
+  private drawLine(spans: Span[], size: number) {
+    let x = MARGIN;
+    for (const span of spans) {
+      // Consecutive characters in the same font are drawn as one run
+      let runFont = -1;
+      let runX = x;
+      let glyphs = '';
+      const flush = () => {
+        if (glyphs) this.content += `BT /F${runFont + 1} ${size} Tf ${span.color.join(' ')} rg ${runX.toFixed(2)} ${this.y.toFixed(2)} Td <${glyphs}> Tj ET\n`;
+        glyphs = '';
+        runX = x;
+      };
+      for (const char of span.text) {
+        const codePoint = char.codePointAt(0)!;
+        const fontIndex = this.fontIndexFor(codePoint);
+        if (fontIndex !== runFont) {
+          flush();
+          runFont = fontIndex;
+        }
+        const used = this.fonts[fontIndex];
+        const glyph = used.font.glyphFor(codePoint);
+        if (!used.glyphs.has(glyph)) used.glyphs.set(glyph, char);
+        glyphs += glyph.toString(16).padStart(4, '0');
+        x += (used.font.advanceOf(glyph) * size) / used.font.unitsPerEm;
+      }
+      flush();
+    }
+  }
+
+  block(spans: Span[], style: TextStyle) {
+    const lineHeight = style.size * LINE_HEIGHT;
+    if (this.y < PAGE_HEIGHT - MARGIN) this.y -= style.spaceBefore;
+    for (const line of this.wrap(spans, style.size)) {
+      if (this.y - lineHeight < MARGIN) this.newPage();
+      this.y -= lineHeight;
+      this.drawLine(line, style.size);
+    }
+    this.y -= style.spaceAfter;
+  }
+}
+
+const pdfString = (text: string) => {
+  // UTF-16BE with a byte order mark, as a hex string, so any script survives
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  return `<${hex}>`;
+};
+
+const toUnicodeCMap = (glyphs: Map<number, string>) => {
+  const entries = [...glyphs].map(([glyph, char]) => {
+    let hex = '';
+    for (let i = 0; i < char.length; i++) hex += char.charCodeAt(i).toString(16).padStart(4, '0');
+    return `<${glyph.toString(16).padStart(4, '0')}> <${hex}>`;
+  });
+  const chunks: string[] = [];
+  // A bfchar section may hold at most 100 entries
+  for (let i = 0; i < entries.length; i += 100) {
+    const chunk = entries.slice(i, i + 100);
+    chunks.push(`${chunk.length} beginbfchar\n${chunk.join('\n')}\nendbfchar`);
+  }
+  return `/CIDInit /ProcSet findresource begin
+12 dict begin
+begincmap
+/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def
+/CMapName /Adobe-Identity-UCS def
+/CMapType 2 def
+1 begincodespacerange
+<0000> <FFFF>
+endcodespacerange
+${chunks.join('\n')}
+endcmap
+CMapName currentdict /CMap defineresource pop
+end
+end`;
+};
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array | null> => {
+  if (typeof CompressionStream === 'undefined') return null;
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Lays the blocks out on A4 pages and writes a PDF. The fonts are embedded whole as
+ * CID TrueType fonts with Identity encoding, so Fidel renders without any font
+ * installed and the text stays searchable and copyable through ToUnicode maps.
+ * Characters are drawn with the first font that has them. Ethiopic needs no shaping,
+ * but Arabic does, so right-to-left text is refused rather than drawn wrongly.
+ */
+export const toPdf = async (blocks: DocumentBlock[], fonts: TrueTypeFont[]): Promise<Blob> => {
+  const used: UsedFont[] = fonts.map(font => ({ font, glyphs: new Map() }));
+  const layout = new PdfLayout(used);
+
+  for (const block of blocks) {
+    switch (block.kind) {
+      case 'pageBreak':
+        layout.newPage();
+        break;
+      case 'title':
+      case 'heading':
+        layout.block([{ text: block.text, color: STYLES[block.kind].color }], STYLES[block.kind]);
+        break;
+      case 'meta':
+        layout.block([{ text: `${block.label}: `, color: LABEL_COLOR }, { text: block.value, color: STYLES.meta.color }], STYLES.meta);
+        break;
+      case 'paragraph': {
+        if (block.language && getLanguage(block.language).rtl) {
+          throw new Error(`${getLanguage(block.language).name} text cannot be written to PDF.`);
+        }
+        const spans: Span[] = [];
+        if (block.speaker) spans.push({ text: `${block.speaker} `, color: LABEL_COLOR });
+        if (block.time !== undefined) spans.push({ text: `${formatClock(block.time)}  `, color: STYLES.meta.color });
+        spans.push({ text: block.text, color: STYLES.paragraph.color });
+        layout.block(spans, STYLES.paragraph);
+        break;
+      }
+    }
+  }
+  const pages = layout.finish();
+
+  const encoder = new TextEncoder();
+  const objects: Uint8Array[][] = [];
+  const addObject = (...parts: (string | Uint8Array)[]) => {
+    objects.push(parts.map(part => typeof part === 'string' ? encoder.encode(part) : part));
+    return objects.length;
+  };
+  const addStream = async (data: Uint8Array, extra = '') => {
+    const compressed = await deflate(data);
+    const body = compressed || data;
+    return addObject(`<< /Length ${body.length}${compressed ? ' /Filter /FlateDecode' : ''}${extra} >>\nstream\n`, body, '\nendstream');
+  };
+
+  const fontResources: string[] = [];
+  for (const [i, { font, glyphs }] of used.entries()) {
+    // Fallback fonts nothing was drawn with are left out of the file
+    if (!glyphs.size) continue;
+    const scale = 1000 / font.unitsPerEm;
+    const fontFile = await addStream(font.bytes, ` /Length1 ${font.bytes.length}`);
+    const descriptor = addObject(`<< /Type /FontDescriptor /FontName /${font.name} /Flags 32 /FontBBox [${font.bbox.map(v => Math.round(v * scale)).join(' ')}] /ItalicAngle 0 /Ascent ${Math.round(font.ascent * scale)} /Descent ${Math.round(font.descent * scale)} /CapHeight ${Math.round(font.ascent * scale)} /StemV 80 /FontFile2 ${fontFile} 0 R >>`);
+    const widths = [...glyphs.keys()].sort((a, b) => a - b).map(glyph => `${glyph} [${Math.round(font.advanceOf(glyph) * scale)}]`).join(' ');
+    const cidFont = addObject(`<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${font.name} /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${descriptor} 0 R /CIDToGIDMap /Identity /W [${widths}] >>`);
+    const toUnicode = await addStream(encoder.encode(toUnicodeCMap(glyphs)));
+    const ref = addObject(`<< /Type /Font /Subtype /Type0 /BaseFont /${font.name} /Encoding /Identity-H /DescendantFonts [${cidFont} 0 R] /ToUnicode ${toUnicode} 0 R >>`);
+    fontResources.push(`/F${i + 1} ${ref} 0 R`);
+  }
+
+  // Pages point at their parent, so reserve the page tree's number before writing them
+  const pagesRef = objects.length + pages.length * 2 + 1;
+  const pageRefs: number[] = [];
+  for (const content of pages) {
+    const contentRef = await addStream(encoder.encode(content));
+    pageRefs.push(addObject(`<< /Type /Page /Parent ${pagesRef} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontResources.join(' ')} >> >> /Contents ${contentRef} 0 R >>`));
+  }
+  addObject(`<< /Type /Pages /Kids [${pageRefs.map(ref => `${ref} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`);
+  const catalog = addObject(`<< /Type /Catalog /Pages ${pagesRef} 0 R /Lang (am-ET) >>`);
+  const title = blocks.find(block => block.kind === 'title');
+  const info = addObject(`<< /Title ${pdfString(title?.kind === 'title' ? title.text : 'Amharic Transcription')} /Producer (Amharic Voice) >>`);
+
+  const parts: Uint8Array[] = [encoder.encode('%PDF-1.7\n%\xE2\xE3\xCF\xD3\n')];
+  let offset = parts[0].length;
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(offset);
+    const chunk = [encoder.encode(`${i + 1} 0 obj\n`), ...object, encoder.encode('\nendobj\n')];
+    for (const part of chunk) {
+      parts.push(part);
+      offset += part.length;
+    }
+  });
+  const xref = `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')}`;
+  parts.push(encoder.encode(`${xref}trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${offset}\n%%EOF\n`));
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { REVIEW_TRANSITIONS, canApprove, canEditInWorkspace } from './review';
+
+describe('REVIEW_TRANSITIONS', () => {
+  it('only reaches approved from review', () => {
+    const approvedFrom = Object.entries(REVIEW_TRANSITIONS)
+      .filter(([, moves]) => moves.some(move => move.to === 'approved'))
+      .map(([from]) => from);
+    expect(approvedFrom).toEqual(['in_review']);
+  });
+});
+
+describe('canEditInWorkspace', () => {
+  it('lets owners and editors edit', () => {
+    expect(canEditInWorkspace('owner')).toBe(true);
+    expect(canEditInWorkspace('editor')).toBe(true);
+    expect(canEditInWorkspace('viewer')).toBe(false);
+    expect(canEditInWorkspace(undefined)).toBe(false);
+  });
+});
+
+describe('canApprove', () => {
+  it('lets owners and the assigned editor approve', () => {
+    expect(canApprove('owner', null, 'me')).toBe(true);
+    expect(canApprove('editor', 'me', 'me')).toBe(true);
+    expect(canApprove('editor', 'someone-else', 'me')).toBe(false);
+    expect(canApprove('editor', null, 'me')).toBe(false);
+    expect(canApprove('viewer', 'me', 'me')).toBe(false);
+  });
+});
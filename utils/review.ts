@@ -0,0 +1,37 @@
+import { ReviewStatus, WorkspaceRole } from '../types';
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+};
+
+export const REVIEW_STATUS_STYLES: Record<ReviewStatus, string> = {
+  draft: 'bg-slate-200 text-slate-700',
+  in_review: 'bg-amber-100 text-amber-800',
+  approved: 'bg-emerald-100 text-emerald-800',
+};
+
+/**
+ * The moves a transcript can make from each status, as button label and target.
+ * Mirrors public.enforce_review_workflow(), which rejects any other move.
+ */
+export const REVIEW_TRANSITIONS: Record<ReviewStatus, { label: string; to: ReviewStatus }[]> = {
+  draft: [{ label: 'Submit for review', to: 'in_review' }],
+  in_review: [{ label: 'Approve', to: 'approved' }, { label: 'Request changes', to: 'draft' }],
+  approved: [{ label: 'Reopen', to: 'draft' }],
+};
+
+export const WORKSPACE_ROLES: { role: WorkspaceRole; label: string; description: string }[] = [
+  { role: 'owner', label: 'Owner', description: 'Manages members and can delete anything' },
+  { role: 'editor', label: 'Editor', description: 'Creates, edits and reviews transcripts' },
+  { role: 'viewer', label: 'Viewer', description: 'Reads transcripts and activity' },
+];
+
+// Mirrors the row level security policies on public.transcriptions
+export const canEditInWorkspace = (role: WorkspaceRole | undefined) => role === 'owner' || role === 'editor';
+
+// Only an owner or the assigned reviewer may approve, and only owners assign; enforced by
+// public.enforce_review_workflow() and public.guard_review_assignment()
+export const canApprove = (role: WorkspaceRole | undefined, assigneeId: string | null, userId: string) =>
+  role === 'owner' || (role === 'editor' && assigneeId === userId);
@@ -0,0 +1,67 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { excerptAround, findMatches, normalizeForSearch, searchTerms } from './search';
+
+const MIGRATIONS = new URL('../supabase/migrations/', import.meta.url);
+
+// The from/to strings of the translate() in the latest definition of public.normalize_amharic
+const sqlFolding = () => {
+  const definitions = readdirSync(MIGRATIONS)
+    .filter(file => file.endsWith('.sql'))
+    .sort()
+    .map(file => readFileSync(new URL(file, MIGRATIONS), 'utf8'))
+    .filter(sql => sql.includes('function public.normalize_amharic('));
+  const match = definitions.at(-1)?.match(/translate\(\s*lower\(coalesce\(value, ''\)\),\s*'([^']*)',\s*'([^']*)'\s*\)/);
+  if (!match) throw new Error('public.normalize_amharic no longer uses translate()');
+  return { from: [...match[1]], to: [...match[2]] };
+};
+
+describe('normalizeForSearch', () => {
+  it('folds letters that sound alike and Latin case', () => {
+    expect(normalizeForSearch('ሐበሻ ኀይሌ ሠላም ዐማርኛ ፀሐይ ኣዲስ ሃገር Addis')).toBe('ሀበሻ ሀይሌ ሰላም አማርኛ ጸሀይ አዲስ ሀገር addis');
+  });
+
+  it('keeps the length of the text', () => {
+    const text = 'İstanbul ሐሙስ';
+    expect(normalizeForSearch(text)).toHaveLength(text.length);
+  });
+
+  it('folds exactly the letters public.normalize_amharic folds', () => {
+    const { from, to } = sqlFolding();
+    expect(from).toHaveLength(to.length);
+    expect(from.map(normalizeForSearch)).toEqual(to);
+
+    const ethiopic = Array.from({ length: 0x1380 - 0x1200 }, (_, i) => String.fromCodePoint(0x1200 + i));
+    expect(ethiopic.filter(char => normalizeForSearch(char) !== char).sort()).toEqual([...from].sort());
+  });
+});
+
+describe('searchTerms', () => {
+  it('splits the query on whitespace and normalizes each term', () => {
+    expect(searchTerms('  ሐበሻ\tAddis  ')).toEqual(['ሀበሻ', 'addis']);
+    expect(searchTerms(' ')).toEqual([]);
+  });
+});
+
+describe('findMatches', () => {
+  it('finds spelling variants and merges overlapping ranges', () => {
+    expect(findMatches('ሀበሻ and ሐበሻ', searchTerms('ሐበ በሻ'))).toEqual([[0, 3], [8, 11]]);
+  });
+
+  it('returns nothing without terms', () => {
+    expect(findMatches('ሰላም', [])).toEqual([]);
+  });
+});
+
+describe('excerptAround', () => {
+  const text = `${'ሀ'.repeat(100)}ቡና${'ለ'.repeat(100)}`;
+
+  it('cuts a window around the first match', () => {
+    expect(excerptAround(text, ['ቡና'], 5)).toBe('…ሀሀሀሀሀቡናለለለለለ…');
+  });
+
+  it('returns short text and text without matches whole', () => {
+    expect(excerptAround('ሰላም ቡና', ['ቡና'], 5)).toBe('ሰላም ቡና');
+    expect(excerptAround(text, ['ሻይ'], 5)).toBe(text);
+  });
+});
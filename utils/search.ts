@@ -0,0 +1,76 @@
+// Letters that sound the same in Amharic and are spelled either way: each source row of
+// the syllabary folds onto a target row, order by order (ሐ→ሀ, ሑ→ሁ, ...). Keep in sync
+// with public.normalize_amharic in supabase/migrations.
+const FOLDED_ROWS: [number, number][] = [
+  [0x1210, 0x1200], // ሐ → ሀ
+  [0x1280, 0x1200], // ኀ → ሀ
+  [0x1220, 0x1230], // ሠ → ሰ
+  [0x12d0, 0x12a0], // ዐ → አ
+  [0x1340, 0x1338], // ፀ → ጸ
+];
+// In the ሀ and አ rows the first and fourth orders are pronounced alike (ሀ/ሃ, አ/ኣ)
+const FOLDED_FOURTH_ORDER = [0x1200, 0x12a0];
+const ORDERS = 7;
+
+const FOLD = (() => {
+  const map = new Map<string, string>();
+  const target = (row: number, order: number) =>
+    String.fromCodePoint(row + (order === 3 && FOLDED_FOURTH_ORDER.includes(row) ? 0 : order));
+  for (const [from, to] of FOLDED_ROWS) {
+    for (let order = 0; order < ORDERS; order++) map.set(String.fromCodePoint(from + order), target(to, order));
+  }
+  for (const row of FOLDED_FOURTH_ORDER) map.set(String.fromCodePoint(row + 3), String.fromCodePoint(row));
+  return map;
+})();
+
+/**
+ * Folds Ethiopic spelling variants and Latin case so "ሐበሻ" finds "ሀበሻ". Every character
+ * maps to exactly one character, so offsets in the folded text are offsets in the original.
+ */
+export const normalizeForSearch = (text: string): string => {
+  let folded = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const lower = char.toLowerCase();
+    folded += FOLD.get(char) ?? (lower.length === 1 ? lower : char);
+  }
+  return folded;
+};
+
+/**
+ * Search terms from the query box: whitespace-separated, all of which must match.
+ */
+export const searchTerms = (query: string): string[] =>
+  normalizeForSearch(query).split(/\s+/).filter(Boolean);
+
+/**
+ * Ranges of `text` matching any of the terms, merged and in order.
+ */
+export const findMatches = (text: string, terms: string[]): [number, number][] => {
+  if (!terms.length) return [];
+  const folded = normalizeForSearch(text);
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    for (let index = folded.indexOf(term); index !== -1; index = folded.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<[number, number][]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+    return merged;
+  }, []);
+};
+
+/**
+ * A window of `text` around its first match, for result previews.
+ */
+export const excerptAround = (text: string, terms: string[], radius = 80): string => {
+  const [first] = findMatches(text, terms);
+  if (!first || text.length <= radius * 2) return text;
+  const start = Math.max(0, first[0] - radius);
+  const end = Math.min(text.length, first[1] + radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  estimateWordTimes,
+  findSegmentAt,
+  formatClock,
+  getSpeakers,
+  groupSpeakerTurns,
+  hasSpeakers,
+  renameSpeaker,
+  segmentsToText,
+  syncSegmentsWithText,
+  toSpeakerText,
+} from './segments';
+
+const segments = [
+  { start: 0, end: 2, text: 'ሰላም ነው' },
+  { start: 2, end: 5, text: 'እንዴት ናችሁ?' },
+  { start: 7, end: 9, text: 'ደህና ነን' },
+];
+
+describe('formatClock', () => {
+  it('pads seconds and keeps counting minutes past the hour', () => {
+    expect(formatClock(0)).toBe('0:00');
+    expect(formatClock(65.9)).toBe('1:05');
+    expect(formatClock(3725)).toBe('62:05');
+  });
+});
+
+describe('syncSegmentsWithText', () => {
+  it('carries edited lines over to their segments', () => {
+    const synced = syncSegmentsWithText(segments, 'ሰላም ነው\nእንዴት ናችሁ!\nደህና ነን');
+    expect(synced[1]).toEqual({ start: 2, end: 5, text: 'እንዴት ናችሁ!' });
+    expect(synced[0]).toBe(segments[0]);
+    expect(synced[2]).toBe(segments[2]);
+  });
+
+  it('leaves the segments alone once the line count differs', () => {
+    expect(syncSegmentsWithText(segments, 'ሰላም ነው\nእንዴት ናችሁ?')).toBe(segments);
+  });
+
+  it('round-trips with segmentsToText', () => {
+    expect(syncSegmentsWithText(segments, segmentsToText(segments))).toEqual(segments);
+  });
+});
+
+describe('findSegmentAt', () => {
+  it('finds the segment playing, treating ends as exclusive', () => {
+    expect(findSegmentAt(segments, 0)).toBe(0);
+    expect(findSegmentAt(segments, 2)).toBe(1);
+    expect(findSegmentAt(segments, 8.5)).toBe(2);
+  });
+
+  it('returns -1 between and after segments', () => {
+    expect(findSegmentAt(segments, 6)).toBe(-1);
+    expect(findSegmentAt(segments, 9)).toBe(-1);
+  });
+});
+
+describe('estimateWordTimes', () => {
+  it('places words in proportion to their character offset', () => {
+    expect(estimateWordTimes({ start: 10, end: 20, text: 'abcd efghi' })).toEqual([
+      { text: 'abcd', start: 10 },
+      { text: 'efghi', start: 15 },
+    ]);
+  });
+
+  it('starts every word at the segment start when it has no duration', () => {
+    expect(estimateWordTimes({ start: 4, end: 3, text: 'ሰላም ነው' }).map(word => word.start)).toEqual([4, 4]);
+  });
+
+  it('returns no words for an empty segment', () => {
+    expect(estimateWordTimes({ start: 0, end: 1, text: '' })).toEqual([]);
+  });
+});
+
+const conversation = [
+  { start: 0, end: 2, text: 'ሰላም', speaker: 'Speaker 1' },
+  { start: 2, end: 4, text: 'እንዴት ነህ?', speaker: 'Speaker 1' },
+  { start: 4, end: 6, text: 'ደህና ነኝ', speaker: 'Speaker 2' },
+  { start: 6, end: 8, text: 'እሺ', speaker: 'Speaker 1' },
+];
+
+describe('hasSpeakers', () => {
+  it('is true only when some segment has a speaker', () => {
+    expect(hasSpeakers(conversation)).toBe(true);
+    expect(hasSpeakers(segments)).toBe(false);
+    expect(hasSpeakers(undefined)).toBe(false);
+  });
+});
+
+describe('getSpeakers', () => {
+  it('lists each speaker once in order of first appearance', () => {
+    expect(getSpeakers([{ start: 0, end: 1, text: '' }, ...conversation.slice(2), ...conversation])).toEqual(['Speaker 2', 'Speaker 1']);
+  });
+});
+
+describe('renameSpeaker', () => {
+  it('renames every segment of the speaker', () => {
+    expect(renameSpeaker(conversation, 'Speaker 1', 'አበበ').map(segment => segment.speaker)).toEqual(['አበበ', 'አበበ', 'Speaker 2', 'አበበ']);
+  });
+
+  it('merges into an existing speaker', () => {
+    expect(getSpeakers(renameSpeaker(conversation, 'Speaker 2', 'Speaker 1'))).toEqual(['Speaker 1']);
+  });
+});
+
+describe('groupSpeakerTurns', () => {
+  it('joins consecutive segments by the same speaker', () => {
+    expect(groupSpeakerTurns(conversation)).toEqual([
+      { speaker: 'Speaker 1', start: 0, end: 4, segmentIndexes: [0, 1], text: 'ሰላም እንዴት ነህ?' },
+      { speaker: 'Speaker 2', start: 4, end: 6, segmentIndexes: [2], text: 'ደህና ነኝ' },
+      { speaker: 'Speaker 1', start: 6, end: 8, segmentIndexes: [3], text: 'እሺ' },
+    ]);
+  });
+
+  it('keeps unlabelled segments in one turn', () => {
+    expect(groupSpeakerTurns(segments)).toHaveLength(1);
+  });
+});
+
+describe('toSpeakerText', () => {
+  it('writes one labelled paragraph per turn', () => {
+    expect(toSpeakerText(conversation)).toBe('Speaker 1: ሰላም እንዴት ነህ?\n\nSpeaker 2: ደህና ነኝ\n\nSpeaker 1: እሺ');
+  });
+
+  it('leaves turns without a speaker unlabelled', () => {
+    expect(toSpeakerText([{ start: 0, end: 1, text: 'ሰላም' }, conversation[2]])).toBe('ሰላም\n\nSpeaker 2: ደህና ነኝ');
+  });
+});
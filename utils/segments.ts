@@ -0,0 +1,97 @@
+import { TranscriptSegment } from '../types';
+
+export interface TimedWord {
+  text: string;
+  start: number;
+}
+
+/**
+ * Formats seconds as M:SS for display.
+ */
+export const formatClock = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+};
+
+/**
+ * Transcript text holds one line per segment. While the line count still matches,
+ * edits to the text are carried over to the segments so their timing stays usable.
+ */
+export const syncSegmentsWithText = (segments: TranscriptSegment[], text: string): TranscriptSegment[] => {
+  const lines = text.split('\n');
+  if (lines.length !== segments.length) return segments;
+  return segments.map((segment, i) => segment.text === lines[i] ? segment : { ...segment, text: lines[i] });
+};
+
+export const segmentsToText = (segments: TranscriptSegment[]): string =>
+  segments.map(segment => segment.text).join('\n');
+
+/**
+ * Index of the segment playing at `time`, or -1 between segments.
+ */
+export const findSegmentAt = (segments: TranscriptSegment[], time: number): number =>
+  segments.findIndex(segment => time >= segment.start && time < segment.end);
+
+/**
+ * Splits a segment into words with estimated start times. Providers only time whole
+ * segments, so each word is placed in proportion to its character offset.
+ */
+export const estimateWordTimes = (segment: TranscriptSegment): TimedWord[] => {
+  const words: TimedWord[] = [];
+  const duration = Math.max(0, segment.end - segment.start);
+  const length = segment.text.length || 1;
+  for (const match of segment.text.matchAll(/\S+/g)) {
+    words.push({ text: match[0], start: segment.start + (duration * match.index!) / length });
+  }
+  return words;
+};
+
+export interface SpeakerTurn {
+  speaker?: string;
+  start: number;
+  end: number;
+  // Indexes into the segment list, so turns can be edited in place
+  segmentIndexes: number[];
+  text: string;
+}
+
+export const hasSpeakers = (segments?: TranscriptSegment[]): boolean =>
+  !!segments?.some(segment => segment.speaker);
+
+/**
+ * Speaker labels in order of first appearance.
+ */
+export const getSpeakers = (segments: TranscriptSegment[]): string[] =>
+  [...new Set(segments.map(segment => segment.speaker).filter((speaker): speaker is string => !!speaker))];
+
+/**
+ * Renames a speaker throughout the transcript. Renaming to an existing label merges the two.
+ */
+export const renameSpeaker = (segments: TranscriptSegment[], from: string, to: string): TranscriptSegment[] =>
+  segments.map(segment => segment.speaker === from ? { ...segment, speaker: to } : segment);
+
+/**
+ * Groups consecutive segments by the same speaker into paragraphs.
+ */
+export const groupSpeakerTurns = (segments: TranscriptSegment[]): SpeakerTurn[] => {
+  const turns: SpeakerTurn[] = [];
+  segments.forEach((segment, i) => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.end = segment.end;
+      last.segmentIndexes.push(i);
+      last.text += ` ${segment.text}`;
+    } else {
+      turns.push({ speaker: segment.speaker, start: segment.start, end: segment.end, segmentIndexes: [i], text: segment.text });
+    }
+  });
+  return turns;
+};
+
+/**
+ * Speaker-tagged paragraphs ("Name: text"), one per turn.
+ */
+export const toSpeakerText = (segments: TranscriptSegment[]): string =>
+  groupSpeakerTurns(segments)
+    .map(turn => turn.speaker ? `${turn.speaker}: ${turn.text}` : turn.text)
+    .join('\n\n');
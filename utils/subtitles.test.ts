@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { toSrt, toVtt } from './subtitles';
+
+const segments = [
+  { start: 0, end: 2.5, text: 'ሰላም', speaker: 'Speaker 1' },
+  { start: 3661.0004, end: 3663.9996, text: 'እንዴት ናችሁ?' },
+];
+
+describe('toSrt', () => {
+  it('numbers the cues and uses comma milliseconds', () => {
+    expect(toSrt(segments)).toBe(
+      '1\n00:00:00,000 --> 00:00:02,500\nSpeaker 1: ሰላም\n\n' +
+      '2\n01:01:01,000 --> 01:01:04,000\nእንዴት ናችሁ?\n'
+    );
+  });
+
+  it('clamps negative times to zero', () => {
+    expect(toSrt([{ start: -0.2, end: 1, text: 'x' }])).toContain('00:00:00,000 --> 00:00:01,000');
+  });
+});
+
+describe('toVtt', () => {
+  it('starts with the header and marks speakers with voice spans', () => {
+    expect(toVtt(segments)).toBe(
+      'WEBVTT\n\n' +
+      '1\n00:00:00.000 --> 00:00:02.500\n<v Speaker 1>ሰላም\n\n' +
+      '2\n01:01:01.000 --> 01:01:04.000\nእንዴት ናችሁ?\n'
+    );
+  });
+
+  it('writes only the header without segments', () => {
+    expect(toVtt([])).toBe('WEBVTT\n');
+  });
+});
@@ -0,0 +1,38 @@
+import { TranscriptSegment } from '../types';
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/**
+ * Formats seconds as HH:MM:SS plus milliseconds, joined by the given separator
+ * (SRT uses a comma, WebVTT a period).
+ */
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.round(Math.max(0, seconds) * 1000);
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+/**
+ * Converts transcript segments to SubRip (.srt). Speaker labels are prefixed to the cue text.
+ */
+export const toSrt = (segments: TranscriptSegment[]): string =>
+  segments
+    .map((segment, i) => {
+      const text = segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text;
+      return `${i + 1}\n${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}\n${text}\n`;
+    })
+    .join('\n');
+
+/**
+ * Converts transcript segments to WebVTT (.vtt). Speaker labels use voice spans.
+ */
+export const toVtt = (segments: TranscriptSegment[]): string => {
+  const cues = segments.map((segment, i) => {
+    const text = segment.speaker ? `<v ${segment.speaker}>${segment.text}` : segment.text;
+    return `${i + 1}\n${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}\n${text}\n`;
+  });
+  return ['WEBVTT\n', ...cues].join('\n');
+};
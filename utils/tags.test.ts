@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeTag, parseTags } from './tags';
+
+describe('normalizeTag', () => {
+  it('ignores case, spacing and a leading #', () => {
+    expect(normalizeTag('  ##Board   Meeting ')).toBe('board meeting');
+    expect(normalizeTag('ቃለ መጠይቅ')).toBe('ቃለ መጠይቅ');
+  });
+});
+
+describe('parseTags', () => {
+  it('splits on Latin and Ethiopic commas and drops duplicates and blanks', () => {
+    expect(parseTags('Interview, #interview፣ ቃለ  መጠይቅ,, ,ቃለ መጠይቅ')).toEqual(['interview', 'ቃለ መጠይቅ']);
+    expect(parseTags('')).toEqual([]);
+  });
+});
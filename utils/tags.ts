@@ -0,0 +1,12 @@
+/**
+ * Tags are compared as typed apart from case and spacing, so "Interview" and
+ * " interview " are the same tag. A leading # is dropped.
+ */
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Tags from a comma-separated list (Ethiopic commas too), normalized and without duplicates.
+ */
+export const parseTags = (input: string): string[] =>
+  [...new Set(input.split(/[,፣]/).map(normalizeTag).filter(Boolean))];
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { UsageQuotaStatus } from '../types';
+import { estimateCost, exceededMetric, formatCost, formatUsage, lastDays } from './usage';
+
+const status = (overrides: Partial<UsageQuotaStatus> = {}): UsageQuotaStatus => ({
+  period: 'day',
+  max_requests: 100,
+  max_audio_seconds: null,
+  max_tokens: 5000,
+  requests: 10,
+  audio_seconds: 9999,
+  tokens: 100,
+  resets_at: '2026-10-20T00:00:00Z',
+  ...overrides,
+});
+
+describe('exceededMetric', () => {
+  it('finds the first limit used up and ignores unlimited metrics', () => {
+    expect(exceededMetric(status())).toBeUndefined();
+    expect(exceededMetric(status({ tokens: 5000 }))).toBe('tokens');
+    expect(exceededMetric(status({ requests: 100, tokens: 6000 }))).toBe('requests');
+  });
+});
+
+describe('formatUsage', () => {
+  it('shows audio in minutes and hours and abbreviates tokens', () => {
+    expect(formatUsage('audio_seconds', 89)).toBe('1 min');
+    expect(formatUsage('audio_seconds', 3 * 3600 + 5 * 60)).toBe('3 h 5 min');
+    expect(formatUsage('tokens', 999)).toBe('999');
+    expect(formatUsage('tokens', 12_345)).toBe('12.3k');
+    expect(formatUsage('tokens', 2_500_000)).toBe('2.5M');
+  });
+});
+
+describe('estimateCost', () => {
+  it('prices prompt and output tokens per million', () => {
+    expect(estimateCost({ model: 'gemini-2.5-pro', prompt_tokens: 1_000_000, output_tokens: 100_000 })).toBeCloseTo(2.25);
+    expect(estimateCost({ model: 'unknown-model', prompt_tokens: 1, output_tokens: 1 })).toBeUndefined();
+  });
+});
+
+describe('formatCost', () => {
+  it('shows cents and marks tiny amounts', () => {
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(0.004)).toBe('< $0.01');
+    expect(formatCost(2.256)).toBe('$2.26');
+  });
+});
+
+describe('lastDays', () => {
+  it('lists UTC dates oldest first, across month ends', () => {
+    expect(lastDays(3, new Date('2026-11-01T23:30:00Z'))).toEqual(['2026-10-30', '2026-10-31', '2026-11-01']);
+  });
+});
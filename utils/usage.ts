@@ -0,0 +1,66 @@
+import { DailyUsage, UsagePeriod, UsageQuotaStatus } from '../types';
+
+export type UsageMetric = 'requests' | 'audio_seconds' | 'tokens';
+
+export const USAGE_METRIC_LABELS: Record<UsageMetric, string> = {
+  requests: 'Requests',
+  audio_seconds: 'Audio',
+  tokens: 'Tokens',
+};
+
+export const USAGE_PERIOD_LABELS: Record<UsagePeriod, string> = {
+  day: 'Daily',
+  month: 'Monthly',
+};
+
+// List prices in US dollars per million tokens, used for the dashboard's cost estimate.
+// Audio input is billed above the text rate, so estimates for long recordings run low.
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+};
+
+export const usageLimit = (status: UsageQuotaStatus, metric: UsageMetric): number | null =>
+  metric === 'requests' ? status.max_requests : metric === 'audio_seconds' ? status.max_audio_seconds : status.max_tokens;
+
+/**
+ * The first limit the user has used up in this period, if any.
+ */
+export const exceededMetric = (status: UsageQuotaStatus): UsageMetric | undefined =>
+  (Object.keys(USAGE_METRIC_LABELS) as UsageMetric[]).find(metric => {
+    const limit = usageLimit(status, metric);
+    return limit !== null && Number(status[metric]) >= Number(limit);
+  });
+
+export const formatUsage = (metric: UsageMetric, value: number): string => {
+  if (metric === 'audio_seconds') {
+    const minutes = Math.round(value / 60);
+    return minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+  }
+  if (metric === 'tokens' && value >= 1000) {
+    return value >= 1e6 ? `${(value / 1e6).toFixed(1)}M` : `${(value / 1e3).toFixed(1)}k`;
+  }
+  return value.toLocaleString();
+};
+
+/**
+ * What the tokens of a day's usage would cost at list prices, or undefined for models without a known price.
+ */
+export const estimateCost = (usage: Pick<DailyUsage, 'model' | 'prompt_tokens' | 'output_tokens'>): number | undefined => {
+  const price = MODEL_PRICES[usage.model];
+  if (!price) return undefined;
+  return (Number(usage.prompt_tokens) * price.input + Number(usage.output_tokens) * price.output) / 1e6;
+};
+
+export const formatCost = (dollars: number): string =>
+  dollars > 0 && dollars < 0.01 ? '< $0.01' : `$${dollars.toFixed(2)}`;
+
+/**
+ * The last `days` UTC dates, oldest first, as YYYY-MM-DD.
+ */
+export const lastDays = (days: number, now = new Date()): string[] =>
+  Array.from({ length: days }, (_, i) => {
+    const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (days - 1 - i)));
+    return date.toISOString().slice(0, 10);
+  });
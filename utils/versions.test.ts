@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionResult, TranscriptionVersion } from '../types';
+import { sameSnapshot, toSnapshot, versionLabel, versionToSnapshot, withModelTranslations } from './versions';
+
+const segments = [{ start: 0, end: 2, text: 'ሰላም', speaker: 'Speaker 1' }];
+
+const version = (id: string, kind: TranscriptionVersion['kind']): TranscriptionVersion => ({
+  id,
+  transcription_id: 't',
+  user_id: 'u',
+  kind,
+  amharic_text: 'ሰላም',
+  translations: { en: 'Hello' },
+  segments,
+  created_at: '2026-10-19T00:00:00Z',
+});
+
+const result = (overrides: Partial<TranscriptionResult> = {}): TranscriptionResult => ({
+  text: 'ሰላም',
+  translations: { en: 'Hello' },
+  segments,
+  timestamp: new Date('2026-10-19T00:00:00Z'),
+  ...overrides,
+});
+
+describe('snapshots', () => {
+  it('drops empty segment lists', () => {
+    expect(toSnapshot(result({ segments: [] }))).toEqual({ text: 'ሰላም', translations: { en: 'Hello' }, segments: undefined });
+    expect(versionToSnapshot({ ...version('1', 'model'), segments: null }).segments).toBeUndefined();
+  });
+
+  it('matches a saved version regardless of translation key order', () => {
+    const saved = versionToSnapshot({ ...version('1', 'revision'), translations: { om: 'Akkam', en: 'Hello' } });
+    expect(sameSnapshot(toSnapshot(result({ translations: { en: 'Hello', om: 'Akkam' } })), saved)).toBe(true);
+  });
+
+  it('notices changes to the text, translations or segments', () => {
+    const saved = versionToSnapshot(version('1', 'revision'));
+    expect(sameSnapshot(toSnapshot(result({ text: 'ሰላም።' })), saved)).toBe(false);
+    expect(sameSnapshot(toSnapshot(result({ translations: { en: 'Hello', om: 'Akkam' } })), saved)).toBe(false);
+    expect(sameSnapshot(toSnapshot(result({ segments: [{ ...segments[0], speaker: 'አበበ' }] })), saved)).toBe(false);
+    expect(sameSnapshot(toSnapshot(result({ segments: undefined })), saved)).toBe(false);
+  });
+});
+
+describe('withModelTranslations', () => {
+  it('adds the translations to the result and its model output', () => {
+    const modelOutput = { text: 'ሰላም', translations: { en: 'Hi' } };
+    expect(withModelTranslations(result({ modelOutput }), { om: 'Akkam' })).toMatchObject({
+      translations: { en: 'Hello', om: 'Akkam' },
+      modelOutput: { text: 'ሰላም', translations: { en: 'Hi', om: 'Akkam' } },
+    });
+  });
+
+  it('leaves a result without model output without one', () => {
+    expect(withModelTranslations(result(), { om: 'Akkam' }).modelOutput).toBeUndefined();
+  });
+});
+
+describe('versionLabel', () => {
+  it('numbers revisions from the oldest', () => {
+    const versions = [version('1', 'model'), version('2', 'revision'), version('3', 'revision')];
+    expect(versions.map(v => versionLabel(v, versions))).toEqual(['Model output', 'Revision 1', 'Revision 2']);
+  });
+});
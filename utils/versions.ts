@@ -0,0 +1,48 @@
+import { TranscriptSegment, TranscriptSnapshot, TranscriptionResult, TranscriptionVersion, Translations } from '../types';
+
+export const toSnapshot = ({ text, translations, segments }: TranscriptionResult): TranscriptSnapshot => ({
+  text,
+  translations,
+  segments: segments?.length ? segments : undefined,
+});
+
+export const versionToSnapshot = (version: TranscriptionVersion): TranscriptSnapshot => ({
+  text: version.amharic_text,
+  translations: version.translations || {},
+  segments: version.segments || undefined,
+});
+
+// jsonb does not keep key order, so compare field by field rather than as JSON
+const sameTranslations = (a: Translations, b: Translations) => {
+  const languages = Object.keys(a) as (keyof Translations)[];
+  return languages.length === Object.keys(b).length && languages.every(language => a[language] === b[language]);
+};
+
+const sameSegments = (a: TranscriptSegment[] = [], b: TranscriptSegment[] = []) =>
+  a.length === b.length && a.every((segment, i) =>
+    segment.start === b[i].start && segment.end === b[i].end && segment.text === b[i].text && segment.speaker === b[i].speaker
+  );
+
+export const sameSnapshot = (a: TranscriptSnapshot, b: TranscriptSnapshot) =>
+  a.text === b.text && sameTranslations(a.translations, b.translations) && sameSegments(a.segments, b.segments);
+
+/**
+ * Adds translations returned by the model, recording them in the model output as well.
+ */
+export const withModelTranslations = (result: TranscriptionResult, translations: Translations): TranscriptionResult => ({
+  ...result,
+  translations: { ...result.translations, ...translations },
+  modelOutput: result.modelOutput && {
+    ...result.modelOutput,
+    translations: { ...result.modelOutput.translations, ...translations },
+  },
+});
+
+/**
+ * "Model output", or "Revision n" counting saved revisions from the oldest.
+ */
+export const versionLabel = (version: TranscriptionVersion, versions: TranscriptionVersion[]) => {
+  if (version.kind === 'model') return 'Model output';
+  const revisions = versions.filter(v => v.kind === 'revision');
+  return `Revision ${revisions.indexOf(version) + 1}`;
+};
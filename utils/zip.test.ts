@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+// Reads the stored entries back through the central directory, as unzip tools do
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const entries: { name: string; text: string; crc: number }[] = [];
+  let central = view.getUint32(end + 16, true);
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    expect(view.getUint32(central, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(central + 28, true);
+    const local = view.getUint32(central + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const start = local + 30 + view.getUint16(local + 26, true);
+    entries.push({
+      name: decoder.decode(bytes.subarray(central + 46, central + 46 + nameLength)),
+      text: decoder.decode(bytes.subarray(start, start + view.getUint32(local + 18, true))),
+      crc: view.getUint32(central + 16, true),
+    });
+    central += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('createZip', () => {
+  it('stores each file with its UTF-8 name and CRC-32', async () => {
+    const zip = createZip([
+      { name: 'check.txt', data: '123456789' },
+      { name: 'ሰላም.txt', data: new TextEncoder().encode('ሰላም ለዓለም') },
+    ]);
+    expect(zip.type).toBe('application/zip');
+    expect(await readZip(zip)).toEqual([
+      { name: 'check.txt', text: '123456789', crc: 0xcbf43926 },
+      { name: 'ሰላም.txt', text: 'ሰላም ለዓለም', crc: expect.any(Number) },
+    ]);
+  });
+
+  it('writes an empty archive', async () => {
+    const zip = createZip([], 'application/x-zip');
+    expect(zip.type).toBe('application/x-zip');
+    expect(zip.size).toBe(22);
+    expect(await readZip(zip)).toEqual([]);
+  });
+});
@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+// Settings read by config.ts; see the Configuration section of the README
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_SUPABASE_LOCAL?: string;
+  readonly VITE_TRANSCRIPTION_PROVIDER?: string;
+  readonly VITE_GEMINI_MODEL?: string;
+  readonly VITE_WHISPER_API_URL?: string;
+  readonly VITE_WHISPER_API_KEY?: string;
+  readonly VITE_WHISPER_MODEL?: string;
+  readonly VITE_FEATURE_LIVE_TRANSCRIPTION?: string;
+  readonly VITE_FEATURE_ANALYSIS?: string;
+  readonly VITE_FEATURE_USAGE_DASHBOARD?: string;
+}
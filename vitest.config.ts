@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: [
+      // The edge function imports packages the Deno way, e.g. npm:@google/genai@^1.34.0
+      { find: /^npm:(@?[^@]+)@.+$/, replacement: '$1' },
+    ],
+  },
+});